@@ -0,0 +1,56 @@
+/**
+ * Portal E2E Tests
+ *
+ * Verifies that portal children mount into their container outside #root,
+ * are removed with their owner (including portals nested inside them), move
+ * when the container changes, and that DOM events bubble through the
+ * container rather than the elements that render the portal.
+ */
+
+describe("Portal", () => {
+  beforeEach(() => {
+    cy.visit("/portal-test.html");
+    cy.getCy("portal-app", { timeout: 5000 }).should("exist");
+  });
+
+  it("mounts children into the container, not in place", () => {
+    cy.get("#portal-a [data-cy=portal-content]").should("exist");
+    cy.get("#root [data-cy=portal-content]").should("not.exist");
+    cy.getCy("portal-owner").children().should("have.length", 0);
+  });
+
+  it("mounts a nested portal into its own container", () => {
+    cy.get("#portal-b [data-cy=nested-portal-content]").should("exist");
+    cy.get("#portal-a [data-cy=nested-portal-content]").should("not.exist");
+  });
+
+  it("removes the portal and nested portals with their owner", () => {
+    cy.getCy("toggle-portal").click();
+    cy.getCy("portal-owner").should("not.exist");
+    cy.getCy("portal-content").should("not.exist");
+    cy.getCy("nested-portal-content").should("not.exist");
+    cy.getCy("portal-a").children().should("have.length", 0);
+    cy.getCy("portal-b").children().should("have.length", 0);
+
+    cy.getCy("toggle-portal").click();
+    cy.get("#portal-a [data-cy=portal-content]").should("exist");
+    cy.get("#portal-b [data-cy=nested-portal-content]").should("exist");
+  });
+
+  it("moves children when the container changes", () => {
+    cy.getCy("move-portal").click();
+    cy.get("#portal-a [data-cy=portal-content]").should("not.exist");
+    cy.get("#portal-b [data-cy=portal-content]").should("exist");
+    cy.get("#portal-b [data-cy=nested-portal-content]").should("exist");
+
+    cy.getCy("move-portal").click();
+    cy.get("#portal-a [data-cy=portal-content]").should("exist");
+    cy.get("#portal-b [data-cy=portal-content]").should("not.exist");
+  });
+
+  it("bubbles events through the container, not the logical parents", () => {
+    cy.getCy("portal-button").click();
+    cy.getCy("body-clicks").should("have.text", "1");
+    cy.getCy("app-clicks").should("have.text", "0");
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Portal test page.
+ *
+ * Renders portals into containers outside #root: toggling removes a portal
+ * nested in another portal's children along with it, and switching the
+ * target moves the mounted children to the other container. Clicks inside a
+ * portal bubble through its container's DOM ancestors, not the elements that
+ * render the <Portal>, which the click counters expose.
+ */
+
+import * as Effect from "effect/Effect";
+import * as Option from "effect/Option";
+import * as Logger from "effect/Logger";
+import * as LogLevel from "effect/LogLevel";
+import { pipe } from "effect/Function";
+import { render, Atom, AtomRegistry, Portal } from "fibrae";
+
+// =============================================================================
+// State
+// =============================================================================
+
+const showAtom = Atom.make(true);
+const targetAtom = Atom.make<"a" | "b">("a");
+const appClicksAtom = Atom.make(0);
+
+const container = (id: string) =>
+  pipe(document.getElementById(id), Option.fromNullable, Option.getOrThrow);
+
+// Counts the clicks reaching the containers' DOM ancestor
+document.body.addEventListener("click", (event) => {
+  if ((event.target as Element).closest("#portal-a, #portal-b")) {
+    const counter = container("body-clicks");
+    counter.textContent = String(Number(counter.textContent) + 1);
+  }
+});
+
+// =============================================================================
+// Components
+// =============================================================================
+
+const PortalTest = () =>
+  Effect.gen(function* () {
+    const registry = yield* AtomRegistry.AtomRegistry;
+    const show = yield* Atom.get(showAtom);
+    const target = yield* Atom.get(targetAtom);
+    const appClicks = yield* Atom.get(appClicksAtom);
+
+    return (
+      <div
+        data-cy="portal-app"
+        style="max-width: 600px; margin: 2rem auto; font-family: monospace;"
+        onClick={() => registry.update(appClicksAtom, (n) => n + 1)}
+      >
+        <h2>Portal Tests</h2>
+        <div style="display: flex; gap: 0.5rem; margin-bottom: 1rem;">
+          <button data-cy="toggle-portal" onClick={() => registry.update(showAtom, (v) => !v)}>
+            Toggle
+          </button>
+          <button
+            data-cy="move-portal"
+            onClick={() => registry.update(targetAtom, (t) => (t === "a" ? "b" : "a"))}
+          >
+            Move
+          </button>
+        </div>
+        <div data-cy="app-clicks">{appClicks}</div>
+        {show ? (
+          <section data-cy="portal-owner">
+            <Portal container={container(target === "a" ? "portal-a" : "portal-b")}>
+              <div data-cy="portal-content">
+                <button data-cy="portal-button">Inside portal</button>
+                <Portal container={container("portal-b")}>
+                  <p data-cy="nested-portal-content">Nested portal</p>
+                </Portal>
+              </div>
+            </Portal>
+          </section>
+        ) : null}
+      </div>
+    );
+  });
+
+// =============================================================================
+// Mount
+// =============================================================================
+
+Effect.gen(function* () {
+  yield* render(<PortalTest />, container("root"));
+}).pipe(
+  Effect.catchAllDefect((e) => Effect.flatMap(Effect.log(e), () => Effect.never)),
+  Effect.provide(Logger.minimumLogLevel(LogLevel.Debug)),
+  Effect.runFork,
+);
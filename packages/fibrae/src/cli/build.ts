@@ -5,16 +5,17 @@
  */
 import * as Effect from "effect/Effect";
 import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
 import { FileSystem } from "@effect/platform";
 import { Path } from "@effect/platform";
 import { renderToStringWith, SSRAtomRegistryLayer } from "../server.js";
-import { Router, RouterHandlers, getPrerenderRoutes } from "../router/index.js";
+import { Router, RouterHandlers, getPrerenderRoutes, getRouteModuleId } from "../router/index.js";
 import type { HeadData, PrerenderRoute, RouteHandler } from "../router/index.js";
 import type { VElement } from "../shared.js";
 import { buildPage } from "./html.js";
 
 /**
- * Render a single route to an HTML string.
+ * Render a single route to an HTML string, with the HTTP status it renders with.
  */
 const renderRoute = (config: {
   readonly router: Router.Router;
@@ -22,16 +23,19 @@ const renderRoute = (config: {
   readonly appShell: (element: VElement) => VElement;
   readonly pathname: string;
   readonly basePath: string;
+  readonly notFound?: boolean;
   readonly clientScript?: string;
   readonly title?: string;
   readonly headTags?: HeadData;
-}): Effect.Effect<string, unknown> =>
+  readonly modulePreloads?: (moduleId: string) => ReadonlyArray<string>;
+}): Effect.Effect<{ readonly html: string; readonly status: number }, unknown> =>
   Effect.gen(function* () {
     const serverLayer = Router.serverLayer({
       router: config.router,
       pathname: config.pathname,
       search: "",
       basePath: config.basePath,
+      notFound: config.notFound,
     });
 
     const fullLayer = Layer.provideMerge(
@@ -39,20 +43,36 @@ const renderRoute = (config: {
       Layer.merge(config.handlersLayer, SSRAtomRegistryLayer),
     );
 
-    const { html, dehydratedState, head } = yield* Effect.gen(function* () {
-      const { element, head: routeHead } = yield* Router.CurrentRouteElement;
+    const { html, dehydratedState, head, moduleId, status } = yield* Effect.gen(function* () {
+      const {
+        element,
+        state,
+        head: routeHead,
+        status: routeStatus,
+      } = yield* Router.CurrentRouteElement;
+      const routerHandlers = yield* RouterHandlers;
       const renderResult = yield* renderToStringWith<never>(config.appShell(element));
-      return { ...renderResult, head: routeHead };
+      return {
+        ...renderResult,
+        head: routeHead,
+        moduleId: Option.flatMap(state, (s) => getRouteModuleId(routerHandlers, s.routeName)),
+        status: routeStatus,
+      };
     }).pipe(Effect.provide(fullLayer));
 
-    return yield* buildPage({
+    const page = yield* buildPage({
       html,
       dehydratedState: dehydratedState as unknown[],
       clientScript: config.clientScript,
       title: config.title,
       head,
       headTags: config.headTags,
+      modulePreloads: Option.match(moduleId, {
+        onNone: () => [],
+        onSome: config.modulePreloads ?? (() => []),
+      }),
     });
+    return { html: page, status };
   });
 
 /**
@@ -110,10 +130,22 @@ export interface BuildOptions {
   readonly title?: string;
   /** Global head tags injected into every page */
   readonly headTags?: HeadData;
+  /**
+   * URLs to modulepreload for a lazy route's module (by its moduleId), e.g. its
+   * chunk and the chunks it imports from the client build's manifest
+   */
+  readonly modulePreloads?: (moduleId: string) => ReadonlyArray<string>;
 }
 
+// The pathname the not-found page renders with, whether or not a route matches it
+const notFoundPath = "/404.html";
+
 /**
  * Pre-render all routes marked with `prerender: true` to static HTML files.
+ *
+ * Routes that don't render with status 200 (e.g. a failing loader rendering
+ * an errorComponent) are skipped with a warning. The notFound page is written
+ * to `outDir/404.html`, which static hosts serve for unknown paths.
  */
 export const build = (
   options: BuildOptions,
@@ -128,6 +160,7 @@ export const build = (
       clientScript,
       title,
       headTags,
+      modulePreloads,
     } = options;
 
     // Resolve handlers to get prerender routes
@@ -145,22 +178,35 @@ export const build = (
 
     yield* Effect.log(`Pre-rendering ${routes.length} page(s)...`);
 
+    const render = (pathname: string, notFound = false) =>
+      renderRoute({
+        router,
+        handlersLayer,
+        appShell,
+        pathname,
+        basePath,
+        notFound,
+        clientScript,
+        title,
+        headTags,
+        modulePreloads,
+      });
+
     // Render all routes
-    const pages = yield* Effect.all(
+    const rendered = yield* Effect.all(
       routes.map(({ pathname }) =>
-        renderRoute({
-          router,
-          handlersLayer,
-          appShell,
-          pathname,
-          basePath,
-          clientScript,
-          title,
-          headTags,
-        }).pipe(Effect.map((html) => ({ pathname, html }))),
+        render(pathname).pipe(Effect.map((page) => ({ pathname, ...page }))),
       ),
     );
 
+    const pages = rendered.filter((page) => page.status === 200);
+    yield* Effect.forEach(
+      rendered.filter((page) => page.status !== 200),
+      ({ pathname, status }) =>
+        Effect.logWarning(`  ${pathname} rendered with status ${status}, skipped`),
+      { discard: true },
+    );
+
     // Write all pages to disk
     yield* Effect.forEach(
       pages,
@@ -174,5 +220,13 @@ export const build = (
       { discard: true },
     );
 
+    // Rendered as unmatched even when a catch-all route would match its path
+    const notFound = yield* render(basePath + notFoundPath, true);
+    const fs = yield* FileSystem.FileSystem;
+    const path = yield* Path.Path;
+    yield* fs.makeDirectory(outDir, { recursive: true });
+    yield* fs.writeFileString(path.join(outDir, "404.html"), notFound.html);
+    yield* Effect.log(`  notFound → ${outDir}/404.html`);
+
     yield* Effect.log(`Done. ${pages.length} page(s) written to ${outDir}/`);
   });
@@ -22,6 +22,8 @@ export interface PageOptions {
   readonly head: Option.Option<HeadData>;
   /** Global head tags from config, merged with per-route head */
   readonly headTags?: HeadData;
+  /** URLs of the matched route's lazy module chunks, emitted as modulepreload links */
+  readonly modulePreloads?: ReadonlyArray<string>;
 }
 
 const metaToElement = (meta: MetaDescriptor): Option.Option<VElement> => {
@@ -80,6 +82,7 @@ const buildHeadChildren = (
   title: string | undefined,
   head: Option.Option<HeadData>,
   headTags?: HeadData,
+  modulePreloads: ReadonlyArray<string> = [],
 ): VElement[] => {
   const headData = Option.getOrUndefined(head);
   // Per-route title wins, then global headTags title, then config title
@@ -101,6 +104,7 @@ const buildHeadChildren = (
     }),
     ...Array.filterMap(allMeta, metaToElement),
     ...allLinks.map((attrs) => <link {...attrs} />),
+    ...modulePreloads.map((href) => <link rel="modulepreload" href={href} />),
     ...allScripts.flatMap((script) =>
       script.src
         ? [<script type={script.type} src={script.src} />]
@@ -113,7 +117,7 @@ const buildHeadChildren = (
 
 const PageShell = (props: PageOptions) => (
   <html lang="en">
-    <head>{buildHeadChildren(props.title, props.head, props.headTags)}</head>
+    <head>{buildHeadChildren(props.title, props.head, props.headTags, props.modulePreloads)}</head>
     <body>
       <div id="root" dangerouslySetInnerHTML={props.html} />
       <script
@@ -3,20 +3,26 @@
  *
  * Hooks into Vite's build pipeline to pre-render routes after the client build.
  * In dev mode, provides on-demand SSR middleware.
+ *
+ * Tags the modules passed to RouterBuilder.lazy() with their path, so pages
+ * modulepreload the matched route's chunks: the source module in dev, its
+ * chunks from the client build's manifest in SSG output.
  */
-import type { Plugin, ResolvedConfig, ViteDevServer, ModuleNode } from "vite";
+import { readFile, rm } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import type { Plugin, ResolvedConfig, ViteDevServer, ModuleNode, Manifest } from "vite";
 import * as Effect from "effect/Effect";
 import * as Option from "effect/Option";
 import * as Layer from "effect/Layer";
 import { NodeContext } from "@effect/platform-node";
-import { Router, RouterHandlers } from "../router/index.js";
+import { Router, RouterHandlers, getRouteModuleId } from "../router/index.js";
 import { renderToStringWith, SSRAtomRegistryLayer } from "../server.js";
 import type { VElement } from "../shared.js";
 import { buildPage } from "./html.js";
 import type { FibraeConfig } from "./config.js";
 
 /**
- * Render a single page for the dev server.
+ * Render a single page for the dev server, with the HTTP status it renders with.
  */
 const renderDevPage = (opts: {
   router: Router.Router;
@@ -28,7 +34,8 @@ const renderDevPage = (opts: {
   clientScript: string;
   title?: string;
   headTags?: import("fibrae/router").HeadData;
-}): Effect.Effect<string, unknown> =>
+  modulePreloads: (moduleId: string) => ReadonlyArray<string>;
+}): Effect.Effect<{ readonly html: string; readonly status: number }, unknown> =>
   Effect.gen(function* () {
     const serverLayer = Router.serverLayer({
       router: opts.router,
@@ -42,8 +49,9 @@ const renderDevPage = (opts: {
       Layer.merge(opts.handlersLayer, SSRAtomRegistryLayer),
     );
 
-    const { html, dehydratedState, head } = yield* Effect.gen(function* () {
-      const { head: routeHead } = yield* Router.CurrentRouteElement;
+    const { html, dehydratedState, head, moduleId, status } = yield* Effect.gen(function* () {
+      const { state, head: routeHead, status: routeStatus } = yield* Router.CurrentRouteElement;
+      const routerHandlers = yield* RouterHandlers;
       const renderResult = opts.App
         ? yield* renderToStringWith<never>(opts.App())
         : yield* Effect.gen(function* () {
@@ -51,19 +59,92 @@ const renderDevPage = (opts: {
             const app = opts.appShell ? opts.appShell(element) : element;
             return yield* renderToStringWith<never>(app);
           });
-      return { ...renderResult, head: routeHead };
+      return {
+        ...renderResult,
+        head: routeHead,
+        moduleId: Option.flatMap(state, (s) => getRouteModuleId(routerHandlers, s.routeName)),
+        status: routeStatus,
+      };
     }).pipe(Effect.provide(fullLayer));
 
-    return yield* buildPage({
+    const page = yield* buildPage({
       html,
       dehydratedState: dehydratedState as unknown[],
       clientScript: opts.clientScript,
       title: opts.title,
       head,
       headTags: opts.headTags,
+      modulePreloads: Option.match(moduleId, {
+        onNone: () => [],
+        onSome: opts.modulePreloads,
+      }),
     });
+    return { html: page, status };
   });
 
+/** `lazy(() => import("./module"))`, as passed to RouterBuilder.lazy */
+const lazyImportPattern = /\blazy\(\s*\(\)\s*=>\s*import\(\s*(["'])([^"']+)\1\s*\)/g;
+
+/**
+ * Tag each lazy route import with its module's id (see LazyRouteLoader).
+ * Imports that don't resolve are left alone. Returns null when nothing changed.
+ */
+const tagLazyImports = async (
+  code: string,
+  resolveModuleId: (specifier: string) => Promise<string | undefined>,
+): Promise<string | null> => {
+  const matches = [...code.matchAll(lazyImportPattern)];
+  const moduleIds = await Promise.all(matches.map((match) => resolveModuleId(match[2])));
+  let tagged = "";
+  let last = 0;
+  for (const [i, match] of matches.entries()) {
+    const [text, quote, specifier] = match;
+    const moduleId = moduleIds[i];
+    if (moduleId === undefined) continue;
+    const load = `() => import(${quote}${specifier}${quote})`;
+    tagged +=
+      code.slice(last, match.index) +
+      `lazy(Object.assign(${load}, { moduleId: ${JSON.stringify(moduleId)} })`;
+    last = match.index + text.length;
+  }
+  return last === 0 ? null : tagged + code.slice(last);
+};
+
+/**
+ * Where the client build writes its manifest for SSG when the user's config
+ * doesn't ask for one, relative to outDir. Removed once SSG has read it.
+ */
+const ssgManifest = ".fibrae/manifest.json";
+
+/**
+ * Read the client build's manifest; empty when the build didn't write one.
+ */
+const readManifest = async (path: string): Promise<Manifest> => {
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * URLs of a lazy route module's chunk and the chunks it imports, from the
+ * client build's manifest (keyed by the module's path, like its moduleId).
+ */
+const manifestPreloads =
+  (manifest: Manifest, base: string) =>
+  (moduleId: string): ReadonlyArray<string> => {
+    const files: string[] = [];
+    const visit = (key: string) => {
+      const chunk = manifest[key];
+      if (!chunk || files.includes(chunk.file)) return;
+      files.push(chunk.file);
+      chunk.imports?.forEach(visit);
+    };
+    visit(moduleId);
+    return files.map((file) => base + file);
+  };
+
 /**
  * Walk the Vite module graph from an entry and collect CSS module URLs.
  * Injects these as <style> tags in the SSR HTML to prevent FOUC.
@@ -93,12 +174,19 @@ const collectCss = async (server: ViteDevServer, entryUrl: string): Promise<stri
 export const fibrae = (config: FibraeConfig): Plugin => {
   let _resolvedConfig: ResolvedConfig;
   let clientEntryId: string | undefined;
+  // Whether the manifest is only written for SSG, and removed after
+  let ownManifest = false;
 
   return {
     name: "fibrae-ssg",
 
-    config() {
+    config(userConfig) {
+      ownManifest = !userConfig.build?.manifest;
       return {
+        build: {
+          // Maps lazy route modules to their chunks for modulepreload hints
+          manifest: userConfig.build?.manifest || ssgManifest,
+        },
         optimizeDeps: {
           exclude: ["fibrae"],
         },
@@ -127,15 +215,26 @@ export const fibrae = (config: FibraeConfig): Plugin => {
       return null;
     },
 
-    // Inject HMR accept into the client entry so Vite re-executes it on changes.
-    // render() detects the previous render via WeakMap and does a clean re-render
-    // with preserved atom state.
-    transform(code, id) {
-      if (_resolvedConfig.command !== "serve") return null;
-      if (!clientEntryId || id !== clientEntryId) return null;
+    async transform(code, id) {
+      const tagged =
+        id.includes("/node_modules/") || !code.includes("lazy(")
+          ? null
+          : await tagLazyImports(code, async (specifier) => {
+              const resolved = await this.resolve(specifier, id);
+              return resolved
+                ? relative(_resolvedConfig.root, resolved.id.split("?")[0]).split(sep).join("/")
+                : undefined;
+            });
+
+      // Inject HMR accept into the client entry so Vite re-executes it on changes.
+      // render() detects the previous render via WeakMap and does a clean re-render
+      // with preserved atom state.
+      if (_resolvedConfig.command !== "serve" || !clientEntryId || id !== clientEntryId) {
+        return tagged === null ? null : { code: tagged, map: null };
+      }
 
       return {
-        code: code + "\n\nif (import.meta.hot) { import.meta.hot.accept(); }\n",
+        code: (tagged ?? code) + "\n\nif (import.meta.hot) { import.meta.hot.accept(); }\n",
         map: null,
       };
     },
@@ -160,7 +259,7 @@ export const fibrae = (config: FibraeConfig): Plugin => {
             return next();
           }
 
-          const rawHtml = await Effect.runPromise(
+          const { html: rawHtml, status } = await Effect.runPromise(
             renderDevPage({
               router,
               handlersLayer,
@@ -171,6 +270,8 @@ export const fibrae = (config: FibraeConfig): Plugin => {
               clientScript: config.client,
               title: config.title,
               headTags: config.headTags,
+              // Vite serves the source module itself
+              modulePreloads: (moduleId) => [`${server.config.base}${moduleId}`],
             }),
           );
 
@@ -182,6 +283,7 @@ export const fibrae = (config: FibraeConfig): Plugin => {
           // Let Vite inject HMR client
           const result = await server.transformIndexHtml(url, withCss);
 
+          res.statusCode = status;
           res.setHeader("Content-Type", "text/html");
           res.end(result);
         } catch {
@@ -194,6 +296,11 @@ export const fibrae = (config: FibraeConfig): Plugin => {
       if (_resolvedConfig.command !== "build") return;
 
       const outDir = config.outDir ?? _resolvedConfig.build.outDir ?? "dist";
+      const { root, base, build } = _resolvedConfig;
+      const manifestPath = join(
+        resolve(root, build.outDir),
+        typeof build.manifest === "string" ? build.manifest : ".vite/manifest.json",
+      );
 
       try {
         const entryPath = new URL(config.entry, `file://${process.cwd()}/`).pathname;
@@ -213,6 +320,8 @@ export const fibrae = (config: FibraeConfig): Plugin => {
           ? `/${config.client.replace(/\.tsx?$/, ".js")}`
           : undefined;
 
+        const manifest = await readManifest(manifestPath);
+
         await Effect.runPromise(
           ssgBuild({
             router,
@@ -223,10 +332,13 @@ export const fibrae = (config: FibraeConfig): Plugin => {
             clientScript,
             title: config.title,
             headTags: config.headTags,
+            modulePreloads: manifestPreloads(manifest, base),
           }).pipe(Effect.provide(NodeContext.layer)),
         );
       } catch (e) {
         console.error("[fibrae-ssg] Pre-render failed:", e);
+      } finally {
+        if (ownManifest) await rm(dirname(manifestPath), { recursive: true, force: true });
       }
     },
   };
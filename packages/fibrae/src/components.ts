@@ -132,3 +132,59 @@ export const ErrorBoundary = (props: {
     },
   };
 };
+
+// =============================================================================
+// Context Provider
+// =============================================================================
+
+/**
+ * Provide services to every component rendered under its children, on top of
+ * the render's own (e.g. RouterOutlet's depth for a layout). Inner providers
+ * override outer ones. The renderers recognize the element by its type; on
+ * its own it renders its children as a fragment.
+ */
+export const ContextProvider = (props: {
+  context: Context.Context<never>;
+  children?: VChild | VChild[];
+}): VElement => ({
+  type: "FRAGMENT" as const,
+  props: { children: props.children ? normalizeChildren(props.children) : [] },
+});
+
+// =============================================================================
+// Portal
+// =============================================================================
+
+/**
+ * Portal component — renders its children into a DOM container outside the
+ * parent's DOM hierarchy (modals, tooltips, toasts).
+ *
+ * The children stay in the logical tree: they receive the parent's services,
+ * ComponentScope lifetimes and ErrorBoundary propagation as if rendered inline.
+ * DOM events are the exception: they bubble through the container's DOM
+ * ancestors, not the elements that render the portal, so an `onClick` on a
+ * logical parent doesn't see clicks inside the portal.
+ *
+ * During SSR a portal renders only a placeholder marker; its children mount
+ * into the container on the client after hydration.
+ *
+ * @example
+ * ```tsx
+ * <Portal container={document.body}>
+ *   <div class="modal">...</div>
+ * </Portal>
+ * ```
+ *
+ * @param props.container - DOM element to mount the children into
+ * @param props.children - Child components to render into the container
+ */
+export const Portal = (props: {
+  container: HTMLElement;
+  children?: VChild | VChild[];
+}): VElement => ({
+  type: "PORTAL" as const,
+  props: {
+    container: props.container,
+    children: props.children ? normalizeChildren(props.children) : [],
+  },
+});
@@ -25,7 +25,7 @@ import {
   SVG_NAMESPACE,
   SVG_TAGS,
 } from "./dom.js";
-import { findDomParent } from "./fiber-tree.js";
+import { findDomParent, fiberTypeIs } from "./fiber-tree.js";
 import { handleFiberError } from "./fiber-boundary.js";
 
 // =============================================================================
@@ -34,9 +34,11 @@ import { handleFiberError } from "./fiber-boundary.js";
 
 /**
  * Get the first DOM node from a fiber, descending into children for
- * function components that don't have their own DOM node.
+ * function components that don't have their own DOM node. Portals are skipped:
+ * their DOM lives in another container.
  */
 const getFirstDomNode = (fiber: Fiber): Node | null => {
+  if (fiberTypeIs(fiber, "PORTAL")) return null;
   if (Option.isSome(fiber.dom)) return fiber.dom.value;
   let child = fiber.child;
   while (Option.isSome(child)) {
@@ -51,10 +53,12 @@ const getFirstDomNode = (fiber: Fiber): Node | null => {
  * Collect all direct DOM descendants of a fiber in tree order.
  * Descends through non-DOM fibers (function components, fragments)
  * but stops at DOM nodes (those are children of that DOM node, not ours).
+ * Skips portals, whose DOM lives in another container.
  */
 const collectChildDomNodes = (fiber: Fiber): Node[] => {
   const result: Node[] = [];
   const walk = (f: Fiber) => {
+    if (fiberTypeIs(f, "PORTAL")) return;
     if (Option.isSome(f.dom)) {
       result.push(f.dom.value);
       return; // Don't descend — nested DOM nodes belong to this element
@@ -302,25 +306,63 @@ export const deleteFiber = (fiber: Fiber): Effect.Effect<void, never, never> =>
     }
   });
 
-export const commitDeletion = (fiber: Fiber, domParent: Node): Effect.Effect<void, never, never> =>
-  Option.match(fiber.dom, {
+/** Remove the DOM of each child fiber in the sibling chain from `domParent`. */
+const commitChildDeletions = (fiber: Fiber, domParent: Node): Effect.Effect<void, never, never> =>
+  Effect.iterate(fiber.child, {
+    while: (opt): opt is Option.Some<Fiber> => Option.isSome(opt),
+    body: (childOpt) =>
+      Effect.gen(function* () {
+        const child = childOpt.value;
+        yield* commitDeletion(child, domParent);
+        return child.sibling;
+      }),
+  });
+
+/**
+ * Remove the DOM of portals nested under a removed DOM node. Their children
+ * live in other containers, so they don't leave with the node itself.
+ */
+const commitNestedPortalDeletions = (fiber: Fiber): Effect.Effect<void, never, never> =>
+  Effect.iterate(fiber.child, {
+    while: (opt): opt is Option.Some<Fiber> => Option.isSome(opt),
+    body: (childOpt) =>
+      Effect.gen(function* () {
+        const child = childOpt.value;
+        if (fiberTypeIs(child, "PORTAL")) {
+          yield* Option.match(child.dom, {
+            onNone: () => Effect.void,
+            onSome: (container) => commitDeletion(child, container),
+          });
+        } else {
+          yield* commitNestedPortalDeletions(child);
+        }
+        return child.sibling;
+      }),
+  });
+
+export const commitDeletion = (
+  fiber: Fiber,
+  domParent: Node,
+): Effect.Effect<void, never, never> => {
+  // Portal - its children live in the target container, which itself stays
+  if (fiberTypeIs(fiber, "PORTAL")) {
+    return Option.match(fiber.dom, {
+      onNone: () => Effect.void,
+      onSome: (container) => commitChildDeletions(fiber, container),
+    });
+  }
+  return Option.match(fiber.dom, {
     onSome: (dom) =>
-      Effect.sync(() => {
+      Effect.gen(function* () {
         setRef(fiber.props.ref, null);
         domParent.removeChild(dom);
+        yield* commitNestedPortalDeletions(fiber);
       }),
     onNone: () =>
       // Function component - find DOM children
-      Effect.iterate(fiber.child, {
-        while: (opt): opt is Option.Some<Fiber> => Option.isSome(opt),
-        body: (childOpt) =>
-          Effect.gen(function* () {
-            const child = childOpt.value;
-            yield* commitDeletion(child, domParent);
-            return child.sibling;
-          }),
-      }),
+      commitChildDeletions(fiber, domParent),
   });
+};
 
 export const commitRoot = (runtime: FibraeRuntime) =>
   Effect.gen(function* () {
@@ -359,11 +401,40 @@ export const commitRoot = (runtime: FibraeRuntime) =>
     }));
   });
 
+/**
+ * Commit a portal's children into its target container. If the container
+ * changed since the last render, move the already-mounted children over.
+ */
+const commitPortal = (fiber: Fiber, runtime: FibraeRuntime) =>
+  Effect.gen(function* () {
+    if (Option.isSome(fiber.child)) {
+      yield* commitWork(fiber.child.value, runtime);
+    }
+
+    const container = Option.getOrUndefined(fiber.dom);
+    const prevContainer = fiber.alternate.pipe(
+      Option.flatMap((alt) => alt.dom),
+      Option.getOrUndefined,
+    );
+    if (container && prevContainer && container !== prevContainer) {
+      collectChildDomNodes(fiber).forEach((node) => container.appendChild(node));
+    }
+  });
+
 export const commitWork = (
   fiber: Fiber,
   runtime: FibraeRuntime,
 ): Effect.Effect<void, never, FibraeRuntime> =>
   Effect.gen(function* () {
+    // Portal — the DOM node is the target container, never inserted or updated.
+    if (fiberTypeIs(fiber, "PORTAL")) {
+      yield* commitPortal(fiber, runtime);
+      if (Option.isSome(fiber.sibling)) {
+        yield* commitWork(fiber.sibling.value, runtime);
+      }
+      return;
+    }
+
     // Function component / fragment — no DOM node of its own.
     if (Option.isNone(fiber.dom)) {
       if (Option.isSome(fiber.child)) {
@@ -31,7 +31,12 @@ import { attachEventListeners } from "./dom.js";
 import { normalizeToStream, makeTrackingRegistry } from "./tracking.js";
 import { type LiveAtom } from "./live/atom.js";
 
-import { createFiber, getComponentScopeService, linkFibersAsSiblings } from "./fiber-tree.js";
+import {
+  createFiber,
+  getComponentScopeService,
+  linkFibersAsSiblings,
+  providedContext,
+} from "./fiber-tree.js";
 import { handleFiberError } from "./fiber-boundary.js";
 import {
   performUnitOfWork,
@@ -397,7 +402,9 @@ const hydrateElement = (
         domNode.nodeType === Node.COMMENT_NODE &&
         (domNode as Comment).data.includes("fibrae:sus:fallback")
       ) {
-        // Fallback: remove fallback DOM and render Suspense fresh
+        // Fallback: remove fallback DOM and render Suspense fresh.
+        // Streamed boundaries (`fibrae:sus:fallback:ID`) whose segment has already
+        // arrived were rewritten to resolved markers, so only pending ones land here.
         const parent = domNode.parentNode as HTMLElement;
 
         // Collect nodes between markers using a scan loop
@@ -432,6 +439,16 @@ const hydrateElement = (
         // No Suspense markers — treat as normal render
         nextCursor = yield* hydrateChildren(fiber, children, Option.some(domNode), runtime);
       }
+    } else if (vElement.type === "PORTAL") {
+      // Portal - content is client-only. SSR leaves a marker in place; the
+      // children mount into the target container on the re-render queued here.
+      fiber.dom = Option.some(vElement.props.container as HTMLElement);
+      nextCursor =
+        domNode.nodeType === Node.COMMENT_NODE &&
+        (domNode as Comment).data.includes("fibrae:portal")
+          ? getNextHydratableSibling(domNode)
+          : Option.some(domNode);
+      yield* runtime.renderMailbox.offer(fiber);
     } else {
       // Host element - adopt DOM node and hydrate children
       yield* checkAttributeMismatches(vElement, domNode);
@@ -479,7 +496,10 @@ const hydrateFunctionComponent = (
 ): Effect.Effect<Option.Option<Node>, never, FibraeRuntime> =>
   Effect.gen(function* () {
     // Capture current context during render phase for event handlers in commit phase
-    const currentContext = yield* FiberRef.get(FiberRef.currentContext);
+    const currentContext = Context.merge(
+      yield* FiberRef.get(FiberRef.currentContext),
+      providedContext(fiber),
+    );
     fiber.renderContext = Option.some(currentContext);
 
     // Create scope for this component FIRST so it's available in context
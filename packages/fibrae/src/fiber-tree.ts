@@ -6,11 +6,13 @@
  * DOM parents, and boundary nodes. Extracted from fiber-render.ts.
  */
 
+import * as Context from "effect/Context";
 import * as Effect from "effect/Effect";
 import * as Option from "effect/Option";
 
 import type { VElement, ElementType, Fiber } from "./shared.js";
 import { FibraeRuntime } from "./runtime.js";
+import { ContextProvider } from "./components.js";
 
 // =============================================================================
 // Fiber Creation Helpers
@@ -33,6 +35,7 @@ export const createFiber = (
   effectTag,
   componentScope: Option.none(),
   mountedDeferred: Option.none(),
+  componentScopeService: Option.none(),
   accessedAtoms: Option.none(),
   latestStreamValue: Option.none(),
   childFirstCommitDeferred: Option.none(),
@@ -85,7 +88,8 @@ export const getComponentScopeOrDie = (fiber: Fiber, msg: string) =>
   );
 
 /**
- * Get the full ComponentScope service value (scope + mounted) for a fiber.
+ * Get the full ComponentScope service value (scope + mounted) for a fiber,
+ * updating the instance's service to the fiber's current scope.
  */
 export const getComponentScopeService = (fiber: Fiber, msg: string) =>
   Effect.gen(function* () {
@@ -96,13 +100,38 @@ export const getComponentScopeService = (fiber: Fiber, msg: string) =>
         onSome: Effect.succeed,
       }),
     );
-    return { scope, mounted };
+    if (Option.isSome(fiber.componentScopeService)) {
+      const service = fiber.componentScopeService.value;
+      service.scope = scope;
+      service.mounted = mounted;
+      return service;
+    }
+    const service = { scope, mounted };
+    fiber.componentScopeService = Option.some(service);
+    return service;
   });
 
 // =============================================================================
 // Fiber Tree Walking Helpers
 // =============================================================================
 
+/**
+ * The services ContextProvider ancestors give a fiber, merged from the
+ * outermost in so inner providers override.
+ */
+export const providedContext = (fiber: Fiber): Context.Context<never> => {
+  const contexts: Array<Context.Context<never>> = [];
+  let current = fiber.parent;
+  while (Option.isSome(current)) {
+    const ancestor = current.value;
+    if (Option.getOrUndefined(ancestor.type) === ContextProvider) {
+      contexts.push(ancestor.props.context as Context.Context<never>);
+    }
+    current = ancestor.parent;
+  }
+  return contexts.reduceRight((merged, context) => Context.merge(merged, context), Context.empty());
+};
+
 /**
  * Walk up the fiber tree from the starting fiber's parent, returning the first
  * ancestor that matches the predicate (excludes the starting fiber itself).
@@ -35,6 +35,7 @@ import { FibraeRuntime, type FiberState } from "./runtime.js";
 import { normalizeToStream, makeTrackingRegistry } from "./tracking.js";
 import { type LiveAtom } from "./live/atom.js";
 import { LiveConfig } from "./live/config.js";
+import { sseTransport } from "./live/transport.js";
 import {
   createFiber,
   fiberTypeIs,
@@ -46,6 +47,7 @@ import {
   findNextSibling,
   getSuspenseThreshold,
   queueFiberForRerender,
+  providedContext,
 } from "./fiber-tree.js";
 import {
   handleFiberError,
@@ -137,8 +139,12 @@ export const updateFunctionComponent = (
     }
 
     // Capture current context during render phase for event handlers in commit phase
-    // This includes services like Navigator, RouterHandlers, etc.
-    const currentContext = yield* FiberRef.get(FiberRef.currentContext);
+    // This includes services like Navigator, RouterHandlers, etc., and those
+    // of enclosing ContextProviders
+    const currentContext = Context.merge(
+      yield* FiberRef.get(FiberRef.currentContext),
+      providedContext(fiber),
+    );
     fiber.renderContext = Option.some(currentContext);
 
     // Check if we can reuse cached stream value from alternate
@@ -412,11 +418,13 @@ export const subscribeFiberAtoms = (
 // =============================================================================
 
 /**
- * Activate SSE connections for live atoms using the runtime's RcMap.
+ * Activate connections for live atoms using the runtime's RcMap.
  *
- * EventSources are shared by URL via RcMap — ref-counted and automatically
- * closed when the last consumer's scope closes. Each atom adds its own
- * listener to the shared EventSource.
+ * Connections are opened with LiveConfig's transport (SSE by default) and
+ * shared by URL via RcMap — ref-counted and automatically closed when the
+ * last consumer's scope closes. Each atom listens to its channel on the
+ * shared connection: full values, and deltas (see `serve({ delta })`)
+ * applied once per connection to the last full value the server sent.
  */
 export const activateLiveAtoms = (
   liveAtoms: Set<LiveAtom<any>>,
@@ -434,35 +442,38 @@ export const activateLiveAtoms = (
   const config = configOption.value;
 
   return Effect.gen(function* () {
-    // Ensure withCredentials is set before any RcMap lookups create EventSources
-    yield* Ref.set(runtime.sseWithCredentials, config.withCredentials ?? false);
+    // Ensure the transport is set before any RcMap lookups open connections
+    yield* Ref.set(runtime.liveTransport, {
+      transport: config.transport ?? sseTransport,
+      withCredentials: config.withCredentials ?? false,
+    });
 
     yield* Effect.forEach(
       liveAtoms,
       (atom) =>
         Effect.gen(function* () {
-          const url = LiveConfig.resolve(config, atom._live.event);
-          const decode = Schema.decodeUnknownSync(Schema.parseJson(atom._live.schema));
+          const { event, schema } = atom._live;
+          const url = LiveConfig.resolve(config, event);
+          const decode = Schema.decodeUnknownSync(schema);
 
-          // Get shared EventSource for this URL (ref-counted via RcMap).
+          // Get the shared connection for this URL (ref-counted via RcMap).
           // Scope.extend binds the reference to the component scope —
           // when the component unmounts, the ref count decrements.
-          const es = yield* RcMap.get(runtime.sseConnections, url).pipe(Scope.extend(scope));
-
-          const handler = (e: MessageEvent) => {
-            try {
-              runtime.registry.set(atom, Result.success(decode(e.data)));
-            } catch {
-              // Decode errors silently skipped
-            }
-          };
-          es.addEventListener(atom._live.event, handler);
-
-          // Clean up this atom's listener when the component unmounts
-          yield* Scope.addFinalizer(
-            scope,
-            Effect.sync(() => es.removeEventListener(atom._live.event, handler)),
+          const connection = yield* RcMap.get(runtime.liveConnections, url).pipe(
+            Scope.extend(scope),
           );
+
+          // Stops listening when the component unmounts. The connection
+          // resolves deltas, so every message is a full value.
+          yield* connection
+            .listen(event, (_, data) => {
+              try {
+                runtime.registry.set(atom, Result.success(decode(data)));
+              } catch {
+                // Values that don't decode are skipped
+              }
+            })
+            .pipe(Scope.extend(scope));
         }),
       { discard: true },
     );
@@ -630,6 +641,14 @@ export const updateHostComponent = (
       return;
     }
 
+    // Handle PORTAL: the target container stands in as this fiber's DOM node,
+    // so children commit into it while staying in the logical fiber tree
+    if (fiberTypeIs(fiber, "PORTAL")) {
+      fiber.dom = Option.some(fiber.props.container as HTMLElement);
+      yield* reconcileChildren(fiber, fiber.props.children || []);
+      return;
+    }
+
     // Virtual element types don't create DOM - just reconcile children
     const isVirtualElement = fiberIsVirtualElement(fiber);
 
@@ -740,6 +759,7 @@ export const reconcileChildren = (wipFiber: Fiber, elements: VElement[]) =>
                   Option.some("UPDATE" as const),
                 );
                 fiber.dom = matched.dom;
+                fiber.componentScopeService = matched.componentScopeService;
                 fiber.boundary = matched.boundary;
                 fiber.suspense = matched.suspense;
                 return fiber;
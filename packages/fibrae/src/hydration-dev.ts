@@ -70,7 +70,13 @@ export const checkTagMismatch = (vElement: VElement, domNode: Node): Effect.Effe
 
   const type = vElement.type;
   if (typeof type !== "string") return Effect.void;
-  if (type === "TEXT_ELEMENT" || type === "FRAGMENT" || type === "SUSPENSE" || type === "BOUNDARY")
+  if (
+    type === "TEXT_ELEMENT" ||
+    type === "FRAGMENT" ||
+    type === "SUSPENSE" ||
+    type === "BOUNDARY" ||
+    type === "PORTAL"
+  )
     return Effect.void;
 
   if (domNode.nodeType === Node.ELEMENT_NODE) {
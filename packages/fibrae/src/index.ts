@@ -9,7 +9,7 @@ export { render } from "./core.js";
 export { FibraeRuntime, CustomAtomRegistryLayer } from "./runtime.js";
 
 // Built-in components
-export { Suspense, ErrorBoundary } from "./components.js";
+export { Suspense, ErrorBoundary, Portal } from "./components.js";
 
 // Element creation (JSX factory)
 export { h, createTextElement } from "./h.js";
@@ -42,6 +42,9 @@ export {
 // Component-scoped atom utilities
 export { mountAtom, subscribeAtom } from "./atom-utils.js";
 
+// Resumable streams (SSR continuation)
+export { resumable, type ResumableOptions } from "./resumable.js";
+
 // Transition service
 export type { TransitionService } from "./transition.js";
 export { Transition, TransitionLive } from "./transition.js";
@@ -1,9 +1,18 @@
 import * as Context from "effect/Context";
+import * as Option from "effect/Option";
+import { sseTransport, type LiveTransport } from "./transport.js";
 
 export interface LiveConfigShape {
   readonly baseUrl: string;
   readonly channels?: Record<string, string>;
   readonly withCredentials?: boolean;
+  /** How live atoms connect: `sseTransport` (the default) or `webSocketTransport`. */
+  readonly transport?: LiveTransport;
+  /**
+   * The HTTP URL `write()` POSTs to. Over SSE it defaults to the atom's URL;
+   * other transports' URLs aren't HTTP endpoints, so writes need it there.
+   */
+  readonly writeUrl?: string;
 }
 
 export class LiveConfig extends Context.Tag("fibrae/LiveConfig")<LiveConfig, LiveConfigShape>() {
@@ -15,4 +24,12 @@ export class LiveConfig extends Context.Tag("fibrae/LiveConfig")<LiveConfig, Liv
   static resolve(config: LiveConfigShape, event: string): string {
     return config.channels?.[event] ?? config.baseUrl;
   }
+
+  /** Resolve the URL writes to an event POST to, if there is one. */
+  static resolveWrite(config: LiveConfigShape, event: string): Option.Option<string> {
+    if (config.writeUrl !== undefined) return Option.some(config.writeUrl);
+    return config.transport === undefined || config.transport === sseTransport
+      ? Option.some(LiveConfig.resolve(config, event))
+      : Option.none();
+  }
 }
@@ -0,0 +1,251 @@
+/**
+ * @since 1.0.0
+ * Delta encoding for live atoms — send what changed instead of the whole value.
+ *
+ * Deltas are computed on the wire (schema-encoded) form of consecutive values
+ * sent on one connection, and applied by the client to the last value it
+ * received:
+ * - `"patch"`: a JSON Patch (RFC 6902 add/remove/replace operations)
+ * - `{ key }`: for values encoding to an array of objects identified by the
+ *   `key` property — the rows upserted and the keys removed, plus the new key
+ *   order when it isn't the one the client would get by appending
+ *
+ * Deltas travel as `<event>:delta` SSE events; full snapshots keep the plain
+ * `<event>` name.
+ */
+
+/**
+ * How `serve()` encodes updates after the first snapshot.
+ *
+ * @since 1.0.0
+ */
+export type LiveDeltaMode = "patch" | { readonly key: string };
+
+/**
+ * A JSON Patch operation.
+ *
+ * @since 1.0.0
+ */
+export type PatchOperation =
+  | { readonly op: "add"; readonly path: string; readonly value: unknown }
+  | { readonly op: "remove"; readonly path: string }
+  | { readonly op: "replace"; readonly path: string; readonly value: unknown };
+
+/**
+ * A change from one wire value to the next.
+ *
+ * @since 1.0.0
+ */
+export type LiveDelta =
+  | { readonly _tag: "Patch"; readonly ops: ReadonlyArray<PatchOperation> }
+  | {
+      readonly _tag: "Keyed";
+      readonly key: string;
+      readonly upsert: ReadonlyArray<Record<string, unknown>>;
+      readonly remove: ReadonlyArray<string>;
+      readonly order?: ReadonlyArray<string>;
+    };
+
+/**
+ * The SSE event name deltas for `event` are sent under.
+ *
+ * @since 1.0.0
+ */
+export const deltaEvent = (event: string): string => `${event}:delta`;
+
+// =============================================================================
+// JSON Patch
+// =============================================================================
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Escape a key as a JSON Pointer reference token. */
+const escapeToken = (token: string): string => token.replace(/~/g, "~0").replace(/\//g, "~1");
+
+const unescapeToken = (token: string): string => token.replace(/~1/g, "/").replace(/~0/g, "~");
+
+/** Deep equality of JSON values. */
+const jsonEquals = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonEquals(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && jsonEquals(a[key], b[key]))
+    );
+  }
+  return false;
+};
+
+/**
+ * The JSON Patch turning `previous` into `next`. Objects and arrays are
+ * diffed member by member; array elements are compared by position, with
+ * additions and removals at the end.
+ *
+ * @since 1.0.0
+ */
+export const diffPatch = (previous: unknown, next: unknown): ReadonlyArray<PatchOperation> => {
+  const ops: Array<PatchOperation> = [];
+
+  const diff = (a: unknown, b: unknown, path: string): void => {
+    if (jsonEquals(a, b)) return;
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const common = Math.min(a.length, b.length);
+      for (let i = 0; i < common; i++) diff(a[i], b[i], `${path}/${i}`);
+      for (let i = common; i < b.length; i++)
+        ops.push({ op: "add", path: `${path}/${i}`, value: b[i] });
+      for (let i = a.length - 1; i >= common; i--) ops.push({ op: "remove", path: `${path}/${i}` });
+      return;
+    }
+    if (isObject(a) && isObject(b)) {
+      for (const key of Object.keys(a)) {
+        if (!Object.hasOwn(b, key)) ops.push({ op: "remove", path: `${path}/${escapeToken(key)}` });
+      }
+      for (const key of Object.keys(b)) {
+        const child = `${path}/${escapeToken(key)}`;
+        if (Object.hasOwn(a, key)) diff(a[key], b[key], child);
+        else ops.push({ op: "add", path: child, value: b[key] });
+      }
+      return;
+    }
+    ops.push({ op: "replace", path, value: b });
+  };
+
+  diff(previous, next, "");
+  return ops;
+};
+
+/**
+ * Apply a JSON Patch, returning a new value; `document` is left untouched.
+ * Throws on a path that doesn't exist.
+ *
+ * @since 1.0.0
+ */
+export const applyPatch = (document: unknown, ops: ReadonlyArray<PatchOperation>): unknown => {
+  let root: unknown = structuredClone(document);
+
+  for (const operation of ops) {
+    if (operation.path === "") {
+      if (operation.op === "remove") throw new Error("applyPatch: cannot remove the root");
+      root = structuredClone(operation.value);
+      continue;
+    }
+
+    const tokens = operation.path.slice(1).split("/").map(unescapeToken);
+    const last = tokens.pop()!;
+    let parent: unknown = root;
+    for (const token of tokens) {
+      parent = Array.isArray(parent) || isObject(parent) ? (parent as any)[token] : undefined;
+      if (parent === undefined) throw new Error(`applyPatch: no value at ${operation.path}`);
+    }
+
+    if (Array.isArray(parent)) {
+      const index = last === "-" ? parent.length : Number(last);
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new Error(`applyPatch: bad array index at ${operation.path}`);
+      }
+      if (operation.op === "add") parent.splice(index, 0, structuredClone(operation.value));
+      else if (operation.op === "remove") parent.splice(index, 1);
+      else parent[index] = structuredClone(operation.value);
+    } else if (isObject(parent)) {
+      if (operation.op === "remove") delete parent[last];
+      else parent[last] = structuredClone(operation.value);
+    } else {
+      throw new Error(`applyPatch: no value at ${operation.path}`);
+    }
+  }
+
+  return root;
+};
+
+// =============================================================================
+// Keyed collections
+// =============================================================================
+
+const rowsOf = (value: unknown, key: string): ReadonlyArray<Record<string, unknown>> => {
+  if (!Array.isArray(value) || !value.every((row) => isObject(row) && key in row)) {
+    throw new Error(`keyed delta: expected an array of objects with a "${key}" property`);
+  }
+  return value;
+};
+
+/**
+ * The keyed delta turning the rows `previous` into the rows `next`.
+ * Throws when either isn't an array of objects with a `key` property.
+ *
+ * @since 1.0.0
+ */
+export const diffKeyed = (previous: unknown, next: unknown, key: string): LiveDelta => {
+  const before = new Map(rowsOf(previous, key).map((row) => [String(row[key]), row]));
+  const after = rowsOf(next, key);
+  const afterKeys = after.map((row) => String(row[key]));
+  const kept = new Set(afterKeys);
+
+  const upsert = after.filter((row) => {
+    const old = before.get(String(row[key]));
+    return old === undefined || !jsonEquals(old, row);
+  });
+  const remove = [...before.keys()].filter((k) => !kept.has(k));
+
+  // The order applyKeyed produces: survivors in place, new rows appended
+  const appended = [...before.keys()]
+    .filter((k) => kept.has(k))
+    .concat(afterKeys.filter((k) => !before.has(k)));
+  const reordered = appended.some((k, i) => k !== afterKeys[i]);
+
+  return {
+    _tag: "Keyed",
+    key,
+    upsert,
+    remove,
+    ...(reordered ? { order: afterKeys } : {}),
+  };
+};
+
+/**
+ * Apply a keyed delta to rows: drop removed keys, replace upserted rows in
+ * place, append new ones, then reorder if the delta carries an order.
+ *
+ * @since 1.0.0
+ */
+export const applyKeyed = (
+  document: unknown,
+  delta: Extract<LiveDelta, { readonly _tag: "Keyed" }>,
+): unknown => {
+  const { key } = delta;
+  const rows = new Map(rowsOf(document, key).map((row) => [String(row[key]), row]));
+  for (const k of delta.remove) rows.delete(k);
+  for (const row of delta.upsert) rows.set(String(row[key]), row);
+  if (delta.order === undefined) return [...rows.values()];
+  return delta.order.map((k) => {
+    const row = rows.get(k);
+    if (row === undefined) throw new Error(`keyed delta: no row for key ${k}`);
+    return row;
+  });
+};
+
+// =============================================================================
+// Dispatch
+// =============================================================================
+
+/**
+ * The delta from one wire value to the next, in the given mode.
+ *
+ * @since 1.0.0
+ */
+export const diff = (previous: unknown, next: unknown, mode: LiveDeltaMode): LiveDelta =>
+  mode === "patch"
+    ? { _tag: "Patch", ops: diffPatch(previous, next) }
+    : diffKeyed(previous, next, mode.key);
+
+/**
+ * Apply a delta to the last wire value received.
+ *
+ * @since 1.0.0
+ */
+export const applyDelta = (document: unknown, delta: LiveDelta): unknown =>
+  delta._tag === "Patch" ? applyPatch(document, delta.ops) : applyKeyed(document, delta);
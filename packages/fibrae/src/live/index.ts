@@ -1,6 +1,6 @@
 /**
  * @since 1.0.0
- * fibrae/live — first-class server↔client atom sync over SSE.
+ * fibrae/live — first-class server↔client atom sync over SSE or WebSockets.
  *
  * @example
  * ```ts
@@ -15,12 +15,30 @@ export { channel } from "./types.js";
 /** @deprecated Use `LiveAtom` type instead. */
 export type { LiveChannel } from "./types.js";
 export { encodeSSE, encodeComment, encodeRetry, SSE_HEADERS } from "./codec.js";
-export { serve, serveGroup } from "./server.js";
-export type { ServeOptions, ServeGroupChannelOptions } from "./server.js";
+export { serve, serveGroup, serveSocket, serveWrites } from "./server.js";
+export type {
+  LiveSource,
+  ServeOptions,
+  ServeGroupChannelOptions,
+  ServeWritesChannelOptions,
+} from "./server.js";
+export { resolveDeltas, sseTransport, webSocketTransport } from "./transport.js";
+export type {
+  LiveConnection,
+  LiveListener,
+  LiveSocketMessage,
+  LiveTransport,
+} from "./transport.js";
+export { write, LiveWriteError } from "./write.js";
+export type { LiveWriteRequest } from "./write.js";
 /** @deprecated Live atoms auto-connect via LiveConfig. */
 export { connect, connectGroup } from "./client.js";
 /** @deprecated Live atoms auto-connect via LiveConfig. */
 export type { ConnectOptions } from "./client.js";
 export { sseStream } from "./sse-stream.js";
+export { applyDelta, deltaEvent, diff } from "./delta.js";
+export type { LiveDelta, LiveDeltaMode, PatchOperation } from "./delta.js";
+export { memoryReplayStore } from "./replay.js";
+export type { LiveReplayEvent, LiveReplayStore } from "./replay.js";
 export { live, isLiveAtom } from "./atom.js";
 export type { LiveAtom, LiveMeta } from "./atom.js";
@@ -1,18 +1,34 @@
 /* eslint-disable local/no-run-promise -- Tests need to bridge Effect to async test runner */
 import { describe, test, expect } from "bun:test";
-import { LiveConfig } from "./config.js";
+import { LiveConfig, type LiveConfigShape } from "./config.js";
 import * as Effect from "effect/Effect";
 import * as Stream from "effect/Stream";
 import * as Ref from "effect/Ref";
+import * as PubSub from "effect/PubSub";
+import * as SubscriptionRef from "effect/SubscriptionRef";
 import * as Schema from "effect/Schema";
 import * as Data from "effect/Data";
-import type { HttpServerResponse } from "@effect/platform";
+import * as Option from "effect/Option";
+import * as Either from "effect/Either";
+import * as Fiber from "effect/Fiber";
+import * as Queue from "effect/Queue";
+import * as Scope from "effect/Scope";
+import * as Exit from "effect/Exit";
+import * as Context from "effect/Context";
+import * as Schedule from "effect/Schedule";
+import { HttpServerRequest, HttpServerResponse, Socket } from "@effect/platform";
 import { Atom, Result, Registry } from "@effect-atom/atom";
 import { live, isLiveAtom } from "./atom.js";
 import { encodeSSE, encodeComment, encodeRetry, SSE_HEADERS } from "./codec.js";
 import { channel } from "./types.js";
-import { serve, serveGroup } from "./server.js";
+import { serve, serveGroup, serveSocket, serveWrites } from "./server.js";
+import { write } from "./write.js";
 import { sseStream } from "./sse-stream.js";
+import { applyDelta, diff, type LiveDeltaMode } from "./delta.js";
+import { memoryReplayStore } from "./replay.js";
+import { webSocketTransport, type LiveListener, type LiveTransport } from "./transport.js";
+import { activateLiveAtoms } from "../fiber-update.js";
+import { FibraeRuntime } from "../runtime.js";
 
 const decoder = new TextDecoder();
 
@@ -284,6 +300,44 @@ describe("serve", () => {
     expect(events[0]).toContain("data: 0");
     expect(events[1]).toContain("data: 1");
   });
+
+  test("pushes a SubscriptionRef's value, then each change, deduplicated", async () => {
+    const liveAtom = live("count", { schema: Schema.Number });
+
+    const events = await Effect.runPromise(
+      Effect.gen(function* () {
+        const ref = yield* SubscriptionRef.make(0);
+        const response = yield* serve(liveAtom, { ref, heartbeatInterval: false });
+        yield* Effect.forEach([1, 1, 2], (n) => SubscriptionRef.set(ref, n), {
+          discard: true,
+        }).pipe(Effect.delay("20 millis"), Effect.fork);
+        return yield* readEvents(response, 3);
+      }),
+    );
+
+    expect(events).toEqual([
+      "id: 0\nevent: count\ndata: 0\n\n",
+      "id: 1\nevent: count\ndata: 1\n\n",
+      "id: 2\nevent: count\ndata: 2\n\n",
+    ]);
+  });
+
+  test("pushes what is published to a PubSub while connected", async () => {
+    const liveAtom = live("msg", { schema: Schema.String });
+
+    const events = await Effect.runPromise(
+      Effect.gen(function* () {
+        const pubsub = yield* PubSub.unbounded<string>();
+        const response = yield* serve(liveAtom, { pubsub, heartbeatInterval: false });
+        yield* PubSub.publishAll(pubsub, ["a", "b"]).pipe(Effect.delay("20 millis"), Effect.fork);
+        return yield* readEvents(response, 2);
+      }),
+    );
+
+    expect(events[0]).toContain('data: "a"');
+    expect(events[1]).toContain('data: "b"');
+    expect(events[1]).toContain("id: 1");
+  });
 });
 
 // =============================================================================
@@ -393,6 +447,679 @@ describe("serveGroup", () => {
   });
 });
 
+// =============================================================================
+// Deltas
+// =============================================================================
+
+describe("delta", () => {
+  const roundTrip = (previous: unknown, next: unknown, mode: LiveDeltaMode) =>
+    applyDelta(
+      JSON.parse(JSON.stringify(previous)),
+      JSON.parse(JSON.stringify(diff(previous, next, mode))),
+    );
+
+  test("a JSON Patch turns the previous value into the next", () => {
+    const previous = { title: "a", "a/b": 1, tags: ["x", "y", "z"], meta: { n: 1, old: true } };
+    const next = { title: "b", "a/b": 2, tags: ["x", "w"], meta: { n: 1, added: [1] } };
+
+    expect(roundTrip(previous, next, "patch")).toEqual(next);
+    expect(roundTrip([1, 2], [1, 2, 3, 4], "patch")).toEqual([1, 2, 3, 4]);
+    expect(roundTrip({ a: 1 }, 5, "patch")).toEqual(5);
+    expect(diff({ tags: ["x"] }, { tags: ["x", "y"] }, "patch")).toEqual({
+      _tag: "Patch",
+      ops: [{ op: "add", path: "/tags/1", value: "y" }],
+    });
+  });
+
+  test("a keyed delta carries changed rows, removed keys and a changed order", () => {
+    const rows = [
+      { id: 1, name: "a" },
+      { id: 2, name: "b" },
+      { id: 3, name: "c" },
+    ];
+    const edited = [
+      { id: 1, name: "a" },
+      { id: 3, name: "C" },
+      { id: 4, name: "d" },
+    ];
+
+    expect(diff(rows, edited, { key: "id" })).toEqual({
+      _tag: "Keyed",
+      key: "id",
+      upsert: [
+        { id: 3, name: "C" },
+        { id: 4, name: "d" },
+      ],
+      remove: ["2"],
+    });
+    expect(roundTrip(rows, edited, { key: "id" })).toEqual(edited);
+
+    const reversed = rows.toReversed();
+    expect(diff(rows, reversed, { key: "id" })).toMatchObject({
+      upsert: [],
+      order: ["3", "2", "1"],
+    });
+    expect(roundTrip(rows, reversed, { key: "id" })).toEqual(reversed);
+  });
+
+  test("serve sends a snapshot first, then deltas smaller than the value", async () => {
+    const Row = Schema.Struct({ id: Schema.Number, label: Schema.String });
+    const liveAtom = live("rows", { schema: Schema.Array(Row) });
+    const rows = Array.from({ length: 20 }, (_, id) => ({ id, label: `row ${id}` }));
+
+    const events = await Effect.runPromise(
+      Effect.gen(function* () {
+        const ref = yield* SubscriptionRef.make<ReadonlyArray<typeof Row.Type>>(rows);
+        const response = yield* serve(liveAtom, {
+          ref,
+          delta: { key: "id" },
+          equals: false,
+          heartbeatInterval: false,
+        });
+        yield* SubscriptionRef.update(ref, (current) =>
+          current.map((row) => (row.id === 5 ? { ...row, label: "edited" } : row)),
+        ).pipe(Effect.delay("20 millis"), Effect.fork);
+        return yield* readEvents(response, 2);
+      }),
+    );
+
+    expect(events[0]).toStartWith("id: 0\nevent: rows\n");
+    expect(events[1]).toBe(
+      'id: 1\nevent: rows:delta\ndata: {"_tag":"Keyed","key":"id","upsert":[{"id":5,"label":"edited"}],"remove":[]}\n\n',
+    );
+  });
+});
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+describe("replay", () => {
+  /** Connect to a handler as EventSource reconnecting after `lastEventId` would. */
+  const reconnect = <A, E, R>(
+    handler: Effect.Effect<A, E, R>,
+    lastEventId: string,
+  ): Effect.Effect<A, E, Exclude<R, HttpServerRequest.HttpServerRequest>> =>
+    Effect.provideService(
+      handler,
+      HttpServerRequest.HttpServerRequest,
+      HttpServerRequest.fromWeb(
+        new Request("http://localhost/live", { headers: { "Last-Event-ID": lastEventId } }),
+      ),
+    );
+
+  test("memoryReplayStore numbers values and keeps the last few per channel", async () => {
+    const [recorded, missed, gap, unknown] = await Effect.runPromise(
+      Effect.gen(function* () {
+        const store = yield* memoryReplayStore({ capacity: 2 });
+        const ids = yield* Effect.forEach(
+          [
+            ["a", 0],
+            ["a", 1],
+            ["b", "x"],
+            ["a", 2],
+            ["a", 3],
+            ["a", 4],
+          ] as const,
+          ([name, data]) => store.record(name, data),
+        );
+        return [
+          ids,
+          yield* store.since(3, ["a", "b"]),
+          yield* store.since(0, ["a"]),
+          yield* store.since(9, ["a"]),
+        ] as const;
+      }),
+    );
+
+    expect(recorded).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(missed).toEqual(
+      Option.some([
+        { id: 4, channel: "a", data: 3 },
+        { id: 5, channel: "a", data: 4 },
+      ]),
+    );
+    expect(Option.isNone(gap)).toBe(true);
+    expect(Option.isNone(unknown)).toBe(true);
+  });
+
+  test("serve replays what a reconnecting client missed, then goes live", async () => {
+    const liveAtom = live("count", { schema: Schema.Number });
+
+    const events = await Effect.runPromise(
+      Effect.gen(function* () {
+        const replay = yield* memoryReplayStore();
+        const ref = yield* SubscriptionRef.make(1);
+        const handler = serve(liveAtom, { ref, replay, heartbeatInterval: false });
+        // Another client stays connected, so the source keeps running
+        const other = yield* Effect.fork(readEvents(yield* handler, 10));
+        yield* readEvents(yield* handler, 1);
+        yield* Effect.forEach([2, 3], (n) => SubscriptionRef.set(ref, n));
+        yield* Effect.sleep("20 millis");
+        const response = yield* reconnect(handler, "0");
+        yield* SubscriptionRef.set(ref, 4).pipe(Effect.delay("20 millis"), Effect.fork);
+        const missed = yield* readEvents(response, 3);
+        yield* Fiber.interrupt(other);
+        return missed;
+      }),
+    );
+
+    expect(events).toEqual([
+      "id: 1\nevent: count\ndata: 2\n\n",
+      "id: 2\nevent: count\ndata: 3\n\n",
+      "id: 3\nevent: count\ndata: 4\n\n",
+    ]);
+  });
+
+  test("serve sends a full snapshot when the gap is no longer kept", async () => {
+    const liveAtom = live("count", { schema: Schema.Number });
+
+    const events = await Effect.runPromise(
+      Effect.gen(function* () {
+        const replay = yield* memoryReplayStore({ capacity: 1 });
+        const ref = yield* SubscriptionRef.make(1);
+        const handler = serve(liveAtom, { ref, replay, heartbeatInterval: false });
+        const other = yield* Effect.fork(readEvents(yield* handler, 10));
+        yield* readEvents(yield* handler, 1);
+        yield* Effect.forEach([2, 3], (n) => SubscriptionRef.set(ref, n));
+        yield* Effect.sleep("20 millis");
+        const snapshot = yield* readEvents(yield* reconnect(handler, "0"), 1);
+        yield* Fiber.interrupt(other);
+        return snapshot;
+      }),
+    );
+
+    expect(events).toEqual(["id: 2\nevent: count\ndata: 3\n\n"]);
+  });
+
+  test("each handler runs its own source until its last connection closes", async () => {
+    const liveAtom = live("count", { schema: Schema.Number });
+
+    const [first, second, polls] = await Effect.runPromise(
+      Effect.gen(function* () {
+        const replay = yield* memoryReplayStore();
+        const polled = yield* Ref.make(0);
+        const polling = (value: number) =>
+          serve(liveAtom, {
+            source: Effect.as(
+              Ref.update(polled, (n) => n + 1),
+              value,
+            ),
+            interval: "10 millis",
+            equals: false,
+            replay,
+            heartbeatInterval: false,
+          });
+        // Both connected at once, to handlers serving the same channel and store
+        const [a, b] = yield* Effect.all(
+          [readEvents(yield* polling(1), 2), readEvents(yield* polling(2), 2)],
+          {
+            concurrency: "unbounded",
+          },
+        );
+        const stopped = yield* Ref.get(polled);
+        yield* Effect.sleep("50 millis");
+        return [a, b, (yield* Ref.get(polled)) - stopped] as const;
+      }),
+    );
+
+    // Ids interleave between the handlers; each sends only its own source's values
+    expect(first.map((event) => event.slice(event.indexOf("data:")))).toEqual([
+      "data: 1\n\n",
+      "data: 1\n\n",
+    ]);
+    expect(second.map((event) => event.slice(event.indexOf("data:")))).toEqual([
+      "data: 2\n\n",
+      "data: 2\n\n",
+    ]);
+    expect(polls).toBe(0);
+  });
+
+  test("connections share one upstream, recording each value once", async () => {
+    const liveAtom = live("tick", { schema: Schema.Number });
+
+    const [first, second, replayed, recorded] = await Effect.runPromise(
+      Effect.gen(function* () {
+        const replay = yield* memoryReplayStore();
+        const pubsub = yield* PubSub.unbounded<number>();
+        const connect = serve(liveAtom, { pubsub, replay, heartbeatInterval: false });
+        const reading = yield* Effect.all(
+          [readEvents(yield* connect, 3), readEvents(yield* connect, 3)],
+          { concurrency: "unbounded" },
+        ).pipe(Effect.fork);
+        yield* PubSub.publishAll(pubsub, [1, 2, 3]).pipe(Effect.delay("20 millis"));
+        const [a, b] = yield* Fiber.join(reading);
+        return [
+          a,
+          b,
+          yield* readEvents(yield* reconnect(connect, "0"), 2),
+          yield* replay.since(-1, ["tick"]),
+        ] as const;
+      }),
+    );
+
+    expect(first).toEqual([
+      "id: 0\nevent: tick\ndata: 1\n\n",
+      "id: 1\nevent: tick\ndata: 2\n\n",
+      "id: 2\nevent: tick\ndata: 3\n\n",
+    ]);
+    expect(second).toEqual(first);
+    expect(replayed).toEqual(first.slice(1));
+    expect(Option.map(recorded, (events) => events.map((event) => event.data))).toEqual(
+      Option.some([1, 2, 3]),
+    );
+  });
+});
+
+// =============================================================================
+// WebSocket
+// =============================================================================
+
+describe("serveSocket", () => {
+  /** A socket receiving `incoming` frames and recording what is written to it. */
+  const fakeSocket = (incoming: Queue.Queue<string>, sent: Array<string>): Socket.Socket => ({
+    [Socket.TypeId]: Socket.TypeId,
+    runRaw: (handler) =>
+      Queue.take(incoming).pipe(
+        Effect.flatMap((frame) => {
+          const result = handler(frame);
+          return Effect.isEffect(result) ? Effect.asVoid(result) : Effect.void;
+        }),
+        Effect.forever,
+      ) as any,
+    run: () => Effect.dieMessage("unused"),
+    writer: Effect.succeed((chunk) => Effect.sync(() => void sent.push(chunk as string))),
+  });
+
+  test("streams only the channels the client subscribed to", async () => {
+    const Count = live("count", { schema: Schema.Number });
+    const Label = live("label", { schema: Schema.String });
+
+    const messages = await Effect.runPromise(
+      Effect.gen(function* () {
+        const incoming = yield* Queue.unbounded<string>();
+        const sent: Array<string> = [];
+        const count = yield* SubscriptionRef.make(0);
+        const label = yield* SubscriptionRef.make("a");
+        const send = (type: string, event: string) =>
+          Queue.offer(incoming, JSON.stringify({ type, event })).pipe(
+            Effect.zipRight(Effect.sleep("20 millis")),
+          );
+
+        const connection = yield* serveSocket({
+          channels: [
+            { channel: Count, ref: count },
+            { channel: Label, ref: label },
+          ],
+        }).pipe(
+          Effect.provideService(HttpServerRequest.HttpServerRequest, {
+            upgrade: Effect.succeed(fakeSocket(incoming, sent)),
+          } as any),
+          Effect.fork,
+        );
+
+        yield* send("subscribe", "count");
+        yield* SubscriptionRef.set(count, 1);
+        yield* send("unsubscribe", "count");
+        yield* SubscriptionRef.set(count, 2);
+        yield* SubscriptionRef.set(label, "b");
+        yield* Effect.sleep("20 millis");
+        yield* Fiber.interrupt(connection);
+        return sent.map((frame) => JSON.parse(frame));
+      }),
+    );
+
+    expect(messages).toEqual([
+      { type: "message", channel: "count", event: "count", data: 0 },
+      { type: "message", channel: "count", event: "count", data: 1 },
+    ]);
+  });
+
+  test("responds 426 to a plain HTTP request", async () => {
+    const response = await Effect.runPromise(
+      serveSocket({ channels: [] }).pipe(
+        Effect.provideService(
+          HttpServerRequest.HttpServerRequest,
+          HttpServerRequest.fromWeb(new Request("http://localhost/api/live/ws")),
+        ),
+      ),
+    );
+    expect(response.status).toBe(426);
+  });
+});
+
+// =============================================================================
+// Client — activateLiveAtoms
+// =============================================================================
+
+/** A JSON Patch delta appending `value` to an array. */
+const add = (value: number) => ({
+  _tag: "Patch",
+  ops: [{ op: "add", path: "/-", value }],
+});
+
+describe("client", () => {
+  const Items = live("items", { schema: Schema.Array(Schema.Number) });
+
+  /**
+   * Run `f` with a FibraeRuntime and a `window`, so activateLiveAtoms
+   * connects as it would in the browser.
+   */
+  const inBrowser = <A>(
+    f: (runtime: FibraeRuntime) => Effect.Effect<A, never, Scope.Scope>,
+  ): Promise<A> => {
+    const hadWindow = "window" in globalThis;
+    (globalThis as any).window ??= globalThis;
+    return Effect.runPromise(
+      FibraeRuntime.pipe(
+        Effect.flatMap(f),
+        Effect.scoped,
+        Effect.provide(FibraeRuntime.LiveWithRegistry),
+        Effect.ensuring(Effect.sync(() => hadWindow || delete (globalThis as any).window)),
+      ),
+    );
+  };
+
+  /** Activate `Items` for a component with its own scope, as a mount does. */
+  const mount = (runtime: FibraeRuntime, config: LiveConfigShape) =>
+    Effect.gen(function* () {
+      const scope = yield* Scope.make();
+      yield* activateLiveAtoms(new Set([Items]), Context.make(LiveConfig, config), runtime, scope);
+      return scope;
+    });
+
+  test("applies each delta once to the last value the server sent", async () => {
+    // Listeners on the one connection the transport opens, by channel
+    const listeners = new Map<string, Set<LiveListener>>();
+    const emit = (event: string, data: unknown) => {
+      for (const listener of listeners.get("items") ?? []) listener(event, data);
+    };
+    const transport: LiveTransport = {
+      connect: () =>
+        Effect.succeed({
+          listen: (event, listener) =>
+            Effect.acquireRelease(
+              Effect.sync(() => {
+                const set = listeners.get(event) ?? new Set();
+                listeners.set(event, set.add(listener));
+              }),
+              () => Effect.sync(() => listeners.get(event)?.delete(listener)),
+            ),
+        }),
+    };
+
+    const { values, underlying } = await inBrowser((runtime) =>
+      Effect.gen(function* () {
+        const seen: Array<unknown> = [];
+        const value = () => seen.push(Result.getOrElse(runtime.registry.get(Items), () => null));
+        const config = LiveConfig.make({ baseUrl: "/api/live", transport });
+
+        const first = yield* mount(runtime, config);
+        emit("items:delta", add(0)); // before any snapshot: dropped
+        value();
+        emit("items", [1]);
+        value();
+
+        // A second component mounted after the snapshot shares the connection
+        const second = yield* mount(runtime, config);
+        emit("items:delta", add(2));
+        value();
+
+        // Deltas apply to what the server sent, not to an optimistic value
+        runtime.registry.set(Items, Result.success([9], { waiting: true }));
+        emit("items:delta", add(3));
+        value();
+
+        yield* Scope.close(first, Exit.void);
+        emit("items:delta", add(4));
+        value();
+        const listening = listeners.get("items")!.size;
+        yield* Scope.close(second, Exit.void);
+        return { values: seen, underlying: listening };
+      }),
+    );
+
+    expect(values).toEqual([null, [1], [1, 2], [1, 2, 3], [1, 2, 3, 4]]);
+    expect(underlying).toBe(1);
+  });
+
+  test("webSocketTransport delivers snapshots and deltas to the atom", async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch: (request, bun) =>
+        bun.upgrade(request) ? undefined : new Response(null, { status: 426 }),
+      websocket: {
+        message: (ws, frame) => {
+          const { type, event } = JSON.parse(String(frame));
+          if (type !== "subscribe" || event !== "items") return;
+          const send = (name: string, data: unknown) =>
+            ws.send(JSON.stringify({ type: "message", channel: "items", event: name, data }));
+          send("items", [1]);
+          send("items:delta", add(2));
+          send("items:delta", add(3));
+        },
+      },
+    });
+    try {
+      const value = await inBrowser((runtime) =>
+        Effect.gen(function* () {
+          const config = LiveConfig.make({
+            baseUrl: `http://localhost:${server.port}/api/live/ws`,
+            transport: webSocketTransport,
+          });
+          yield* mount(runtime, config);
+          yield* mount(runtime, config);
+          return yield* Effect.sync(() => runtime.registry.get(Items)).pipe(
+            Effect.filterOrFail((result) => Result.isSuccess(result) && result.value.length === 3),
+            Effect.retry(Schedule.spaced("10 millis")),
+            Effect.timeout("2 seconds"),
+            Effect.orDie,
+          );
+        }),
+      );
+      expect(Result.getOrElse(value, () => null)).toEqual([1, 2, 3]);
+    } finally {
+      server.stop(true);
+    }
+  });
+});
+
+// =============================================================================
+// Writes
+// =============================================================================
+
+describe("writes", () => {
+  const Lamp = live("lamp", { schema: Schema.Boolean });
+  const Count = live("count", { schema: Schema.Number.pipe(Schema.nonNegative()) });
+
+  /** A serveWrites handler recording what it applied; rejects counts above 10. */
+  const makeHandler = (applied: Array<unknown>) =>
+    serveWrites({
+      channels: [
+        { channel: Lamp, handler: (on) => Effect.sync(() => applied.push(on)) },
+        {
+          channel: Count,
+          handler: (n) =>
+            n > 10
+              ? Effect.fail(new Error("Too many"))
+              : Effect.sync(() => {
+                  applied.push(n);
+                }),
+        },
+      ],
+    });
+
+  const post = (handler: ReturnType<typeof makeHandler>, url: string, init?: RequestInit) =>
+    Effect.runPromise(
+      handler.pipe(
+        Effect.provideService(
+          HttpServerRequest.HttpServerRequest,
+          HttpServerRequest.fromWeb(new Request(new URL(url, "http://localhost"), init)),
+        ),
+        Effect.map(HttpServerResponse.toWeb),
+      ),
+    );
+
+  const send = (handler: ReturnType<typeof makeHandler>, body: unknown) =>
+    post(handler, "/api/live", { method: "POST", body: JSON.stringify(body) });
+
+  test("serveWrites decodes and applies a write, or rejects it", async () => {
+    const applied: Array<unknown> = [];
+    const handler = makeHandler(applied);
+
+    expect((await send(handler, { event: "lamp", value: true })).status).toBe(204);
+    expect((await send(handler, { event: "count", value: -1 })).status).toBe(422);
+    const failed = await send(handler, { event: "count", value: 11 });
+    expect(failed.status).toBe(409);
+    expect(await failed.json()).toEqual({ message: "Too many" });
+    expect((await send(handler, { event: "clock", value: "12:00" })).status).toBe(404);
+    expect((await send(handler, { value: 1 })).status).toBe(400);
+    expect(applied).toEqual([true]);
+  });
+
+  test("write is optimistic, and rolls back when the server rejects it", async () => {
+    const applied: Array<unknown> = [];
+    const handler = makeHandler(applied);
+    const registry = Registry.make();
+    registry.set(Count, Result.success(1));
+    const seen: Array<Result.Result<number>> = [];
+    registry.subscribe(Count, (value) => seen.push(value));
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = ((url: string, init?: RequestInit) => post(handler, url, init)) as any;
+    try {
+      const run = <A, E>(effect: Effect.Effect<A, E, Registry.AtomRegistry | LiveConfig>) =>
+        Effect.runPromise(
+          effect.pipe(
+            Effect.provideService(Registry.AtomRegistry, registry),
+            Effect.provideService(LiveConfig, LiveConfig.make({ baseUrl: "/api/live" })),
+            Effect.either,
+          ),
+        );
+
+      expect(Either.isRight(await run(write(Count, 2)))).toBe(true);
+      const rejected = await run(write(Count, 11));
+      expect(Either.isLeft(rejected) && rejected.left).toMatchObject({
+        _tag: "LiveWriteError",
+        event: "count",
+        status: 409,
+        message: "Too many",
+      });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    expect(applied).toEqual([2]);
+    // [value, waiting] of each Success the atom went through
+    expect(
+      seen.map((result) => Result.isSuccess(result) && [result.value, result.waiting]),
+    ).toEqual([
+      [2, true],
+      [2, false],
+      [11, true],
+      [2, false],
+    ]);
+  });
+
+  test("over webSocketTransport, writes POST to the writeUrl, and fail without one", async () => {
+    const applied: Array<unknown> = [];
+    const handler = makeHandler(applied);
+    const registry = Registry.make();
+    registry.set(Lamp, Result.success(false));
+    const seen: Array<Result.Result<boolean>> = [];
+    registry.subscribe(Lamp, (value) => seen.push(value));
+
+    const requested: Array<string> = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = ((url: string, init?: RequestInit) => {
+      requested.push(url);
+      return post(handler, url, init);
+    }) as any;
+    try {
+      const run = (config: LiveConfigShape) =>
+        Effect.runPromise(
+          write(Lamp, true).pipe(
+            Effect.provideService(Registry.AtomRegistry, registry),
+            Effect.provideService(LiveConfig, LiveConfig.make(config)),
+            Effect.either,
+          ),
+        );
+
+      const unset = await run({ baseUrl: "/api/live/ws", transport: webSocketTransport });
+      expect(Either.isLeft(unset) && unset.left).toMatchObject({
+        _tag: "LiveWriteError",
+        event: "lamp",
+        message: "LiveConfig.writeUrl is required for writes over this transport",
+      });
+      expect(seen).toEqual([]);
+
+      const written = await run({
+        baseUrl: "/api/live/ws",
+        transport: webSocketTransport,
+        writeUrl: "/api/live",
+      });
+      expect(Either.isRight(written)).toBe(true);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    expect(requested).toEqual(["/api/live"]);
+    expect(applied).toEqual([true]);
+    expect(
+      seen.map((result) => Result.isSuccess(result) && [result.value, result.waiting]),
+    ).toEqual([
+      [true, true],
+      [true, false],
+    ]);
+  });
+
+  test("a rejected write overlapping an accepted one rolls back to the confirmed value", async () => {
+    const applied: Array<unknown> = [];
+    const handler = makeHandler(applied);
+    const registry = Registry.make();
+    registry.set(Count, Result.success(1));
+    const seen: Array<Result.Result<number>> = [];
+    registry.subscribe(Count, (value) => seen.push(value));
+
+    // Each request waits until its value is released
+    const held = new Map<unknown, () => void>();
+    const release = (value: number) => held.get(value)!();
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = ((url: string, init: RequestInit) =>
+      new Promise<void>((resolve) => held.set(JSON.parse(init.body as string).value, resolve)).then(
+        () => post(handler, url, init),
+      )) as any;
+    try {
+      const run = <A, E>(effect: Effect.Effect<A, E, Registry.AtomRegistry | LiveConfig>) =>
+        Effect.runPromise(
+          effect.pipe(
+            Effect.provideService(Registry.AtomRegistry, registry),
+            Effect.provideService(LiveConfig, LiveConfig.make({ baseUrl: "/api/live" })),
+            Effect.either,
+          ),
+        );
+
+      const accepted = run(write(Count, 5));
+      const rejected = run(write(Count, 11));
+      release(5);
+      await accepted;
+      release(11);
+      expect(Either.isLeft(await rejected)).toBe(true);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    expect(applied).toEqual([5]);
+    expect(
+      seen.map((result) => Result.isSuccess(result) && [result.value, result.waiting]),
+    ).toEqual([
+      [5, true],
+      [11, true],
+      [5, false],
+    ]);
+  });
+});
+
 // =============================================================================
 // LiveConfig
 // =============================================================================
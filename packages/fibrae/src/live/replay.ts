@@ -0,0 +1,94 @@
+/**
+ * @since 1.0.0
+ * Replay buffers for live endpoints — resume a reconnecting client from the
+ * `Last-Event-ID` it sends instead of starting over.
+ *
+ * A store numbers the values `serve()` sends and keeps the recent ones per
+ * channel. Each channel's source runs once for all connections to its
+ * handler, while any is open, and records every value once, so every
+ * connection sends the same id for the same update and a client can resume
+ * on any of them. `memoryReplayStore()` keeps them in memory; implement
+ * `LiveReplayStore` to keep them elsewhere (e.g. shared between servers).
+ */
+import * as Effect from "effect/Effect";
+import * as Option from "effect/Option";
+
+/**
+ * A value recorded in a replay store, in wire (schema-encoded) form.
+ *
+ * @since 1.0.0
+ */
+export interface LiveReplayEvent {
+  readonly id: number;
+  /** The channel's event name */
+  readonly channel: string;
+  readonly data: unknown;
+}
+
+/**
+ * Where `serve()` numbers and keeps the values it sends.
+ *
+ * @since 1.0.0
+ */
+export interface LiveReplayStore {
+  /**
+   * Record a value sent on a channel, returning its event id. Ids increase
+   * across all channels of the store.
+   */
+  readonly record: (channel: string, data: unknown) => Effect.Effect<number>;
+  /**
+   * The values recorded on `channels` after `id`, oldest first. None when
+   * some of them are no longer kept, or `id` is one the store never issued.
+   */
+  readonly since: (
+    id: number,
+    channels: ReadonlyArray<string>,
+  ) => Effect.Effect<Option.Option<ReadonlyArray<LiveReplayEvent>>>;
+}
+
+/**
+ * A replay store in memory, keeping the last `capacity` values of each
+ * channel (default 100). Create one per server and pass it to every
+ * `serve()` call for the endpoint; it is lost on restart, after which
+ * reconnecting clients get a full snapshot.
+ *
+ * @since 1.0.0
+ */
+export const memoryReplayStore = (
+  options: { readonly capacity?: number } = {},
+): Effect.Effect<LiveReplayStore> =>
+  Effect.sync(() => {
+    const capacity = Math.max(1, options.capacity ?? 100);
+    const buffers = new Map<string, { readonly events: Array<LiveReplayEvent>; dropped: number }>();
+    let lastId = -1;
+
+    return {
+      record: (channel, data) =>
+        Effect.sync(() => {
+          let buffer = buffers.get(channel);
+          if (buffer === undefined) {
+            buffer = { events: [], dropped: -1 };
+            buffers.set(channel, buffer);
+          }
+          lastId += 1;
+          buffer.events.push({ id: lastId, channel, data });
+          if (buffer.events.length > capacity) buffer.dropped = buffer.events.shift()!.id;
+          return lastId;
+        }),
+
+      since: (id, channels) =>
+        Effect.sync(() => {
+          if (id > lastId) return Option.none();
+          const events: Array<LiveReplayEvent> = [];
+          for (const channel of channels) {
+            const buffer = buffers.get(channel);
+            if (buffer === undefined) continue;
+            if (buffer.dropped > id) return Option.none();
+            for (const event of buffer.events) {
+              if (event.id > id) events.push(event);
+            }
+          }
+          return Option.some(events.toSorted((a, b) => a.id - b.id));
+        }),
+    };
+  });
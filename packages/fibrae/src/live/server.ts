@@ -1,6 +1,8 @@
 /**
  * @since 1.0.0
- * Server-side LiveSync — polls an Effect source, diffs, and streams via SSE.
+ * Server-side LiveSync — polls an Effect source or follows a push source
+ * (Stream, PubSub, SubscriptionRef), diffs, and streams via SSE or a
+ * WebSocket; applies client writes to live atoms.
  */
 import * as Effect from "effect/Effect";
 import * as Stream from "effect/Stream";
@@ -9,11 +11,24 @@ import * as Schema from "effect/Schema";
 import * as Equal from "effect/Equal";
 import * as Ref from "effect/Ref";
 import * as Duration from "effect/Duration";
-import { HttpServerResponse } from "@effect/platform";
+import * as Option from "effect/Option";
+import * as Either from "effect/Either";
+import * as Predicate from "effect/Predicate";
+import * as FiberMap from "effect/FiberMap";
+import * as Deferred from "effect/Deferred";
+import * as FiberId from "effect/FiberId";
+import * as PubSub from "effect/PubSub";
+import * as Exit from "effect/Exit";
+import * as Scope from "effect/Scope";
+import type * as SubscriptionRef from "effect/SubscriptionRef";
+import { HttpServerRequest, HttpServerResponse } from "@effect/platform";
 import type { DurationInput } from "effect/Duration";
 import type { LiveChannel } from "./types.js";
 import { isLiveAtom, type LiveAtom } from "./atom.js";
 import { encodeSSE, encodeComment, encodeRetry, SSE_HEADERS } from "./codec.js";
+import { deltaEvent, diff, type LiveDeltaMode } from "./delta.js";
+import type { LiveReplayEvent, LiveReplayStore } from "./replay.js";
+import { parseSocketMessage, type LiveSocketMessage } from "./transport.js";
 
 /** Extract event name and schema from a LiveChannel or LiveAtom */
 const resolveChannel = (
@@ -30,16 +45,370 @@ const resolveChannel = (
   return { name: ch.name, schema: ch.schema };
 };
 
+/**
+ * Where a channel's values come from: exactly one of
+ * - `source`: an Effect polled every `interval`
+ * - `stream`: a Stream whose elements are pushed as they arrive
+ * - `pubsub`: a PubSub, each connection subscribing to what is published after it opens
+ * - `ref`: a SubscriptionRef, pushing its current value and then every change
+ *
+ * @since 1.0.0
+ */
+export type LiveSource<A, R> =
+  | {
+      /** Effect that fetches the current state from the upstream source. */
+      readonly source: Effect.Effect<A, never, R>;
+      /** Polling interval. Accepts Duration or duration string (e.g. "2 seconds"). */
+      readonly interval?: DurationInput;
+    }
+  | { readonly stream: Stream.Stream<A, never, R> }
+  | { readonly pubsub: PubSub.PubSub<A> }
+  | { readonly ref: SubscriptionRef.SubscriptionRef<A> };
+
+/** The services a LiveSource needs. */
+type SourceContext<S> = S extends { readonly source: Effect.Effect<any, any, infer R> }
+  ? R
+  : S extends { readonly stream: Stream.Stream<any, any, infer R> }
+    ? R
+    : never;
+
+/** The values a LiveSource produces, polled or pushed. */
+const sourceStream = <A, R>(source: LiveSource<A, R>): Stream.Stream<A, never, R> => {
+  if ("stream" in source) return source.stream;
+  if ("pubsub" in source) return Stream.fromPubSub(source.pubsub);
+  if ("ref" in source) return source.ref.changes;
+  return Stream.repeatEffect(source.source).pipe(
+    Stream.schedule(Schedule.spaced(source.interval ?? "2 seconds")),
+  );
+};
+
+/**
+ * The event name and data sent for an encoded value: with a delta mode, the
+ * delta from the previous value sent when it is smaller than the snapshot.
+ */
+const toFrame = (
+  name: string,
+  mode: LiveDeltaMode | undefined,
+  previous: Option.Option<unknown>,
+  encoded: unknown,
+): readonly [event: string, data: unknown] => {
+  if (mode === undefined || Option.isNone(previous)) return [name, encoded];
+  try {
+    const delta = diff(previous.value, encoded, mode);
+    return JSON.stringify(delta).length < JSON.stringify(encoded).length
+      ? [deltaEvent(name), delta]
+      : [name, encoded];
+  } catch {
+    // The value doesn't have the shape the mode needs; a snapshot always works
+    return [name, encoded];
+  }
+};
+
+/** A channel as served on a connection. */
+interface ServedChannel<R> {
+  readonly name: string;
+  readonly schema: Schema.Schema<any, any>;
+  readonly values: Stream.Stream<any, never, R>;
+  /** Whether a connection joining the channel starts from its latest value (all but PubSub sources) */
+  readonly snapshot: boolean;
+  readonly equals?: ((a: any, b: any) => boolean) | false;
+  readonly delta?: LiveDeltaMode;
+}
+
+/** A channel's value, encoded and numbered. */
+interface Numbered {
+  readonly id: number;
+  readonly encoded: unknown;
+}
+
+/** What a reconnecting client missed, from its `Last-Event-ID`. */
+interface Resume {
+  /** Events to send before the live ones */
+  readonly replayed: ReadonlyArray<LiveReplayEvent>;
+  /** The client has every event up to this id; live events numbered at or below it are skipped */
+  readonly after: number;
+}
+
+const fresh: Resume = { replayed: [], after: -1 };
+
+/** The `Last-Event-ID` a reconnecting EventSource sends, if any. */
+const lastEventId: Effect.Effect<Option.Option<number>> = Effect.map(
+  Effect.serviceOption(HttpServerRequest.HttpServerRequest),
+  Option.flatMap((request) =>
+    Option.filter(
+      Option.map(Option.fromNullable(request.headers["last-event-id"]), Number),
+      (id) => Number.isSafeInteger(id) && id >= 0,
+    ),
+  ),
+);
+
+/**
+ * Look up what the client missed. Without a `Last-Event-ID`, or when the
+ * store no longer has every event since it, the client starts fresh: the
+ * live events then begin with a full snapshot.
+ */
+const resume = (
+  replay: LiveReplayStore,
+  after: Option.Option<number>,
+  channels: ReadonlyArray<string>,
+): Effect.Effect<Resume> =>
+  Option.match(after, {
+    onNone: () => Effect.succeed(fresh),
+    onSome: (id) =>
+      Effect.map(
+        replay.since(id, channels),
+        Option.match({
+          onNone: () => fresh,
+          onSome: (replayed): Resume => ({ replayed, after: replayed.at(-1)?.id ?? id }),
+        }),
+      ),
+  });
+
+/**
+ * A channel's values deduplicated with `equals`, encoded with the channel's
+ * schema and numbered with `assignId`.
+ */
+const numbered = <R>(
+  channel: ServedChannel<R>,
+  assignId: (name: string, encoded: unknown) => Effect.Effect<number>,
+): Stream.Stream<Numbered, never, R> => {
+  const { name, schema, values } = channel;
+  const eq =
+    channel.equals !== undefined ? channel.equals : (a: unknown, b: unknown) => Equal.equals(a, b);
+  const deduped = eq !== false ? values.pipe(Stream.changesWith(eq)) : values;
+
+  return deduped.pipe(
+    Stream.mapEffect((value) => Schema.encode(schema)(value).pipe(Effect.orDie)),
+    Stream.mapEffect((encoded) => Effect.map(assignId(name, encoded), (id) => ({ id, encoded }))),
+  );
+};
+
+/**
+ * A channel's live events on a connection, as id, event name and data: the
+ * events numbered after what the client has, each sent once, encoded as
+ * deltas after the first with `delta`. Deltas continue from the channel's
+ * last replayed value, if any.
+ */
+const channelEvents = <R>(
+  channel: ServedChannel<R>,
+  events: Stream.Stream<Numbered, never, R>,
+  resumed: Resume,
+): Stream.Stream<readonly [id: number, event: string, data: unknown], never, R> => {
+  const lastReplayed = Option.fromNullable(
+    resumed.replayed.findLast((event) => event.channel === channel.name),
+  ).pipe(Option.map((event) => event.data));
+
+  return events.pipe(
+    Stream.mapAccum(resumed.after, (last, event) =>
+      event.id > last ? [event.id, Option.some(event)] : [last, Option.none()],
+    ),
+    Stream.filterMap((event) => event),
+    Stream.mapAccum(lastReplayed, (previous, { id, encoded }) => [
+      Option.some(encoded),
+      [id, ...toFrame(channel.name, channel.delta, previous, encoded)] as const,
+    ]),
+  );
+};
+
+/**
+ * A channel served with a replay store: one upstream for every connection to
+ * the endpoint, recording each value in the store once. `latest` is the last
+ * value recorded, for connections joining later.
+ */
+interface Hub {
+  readonly events: PubSub.PubSub<Numbered>;
+  latest: Option.Option<Numbered>;
+  /** Runs the upstream; closed when the last connection leaves */
+  readonly scope: Scope.CloseableScope;
+}
+
+/** An endpoint's hub for a channel and the connections following it. */
+interface HubEntry {
+  readonly hub: Deferred.Deferred<Hub>;
+  connections: number;
+}
+
+/**
+ * The hub of a channel on an endpoint (its hubs by channel name), for the
+ * connection's scope. The first connection starts it, with its services; it
+ * stops when the last connection closes.
+ */
+const channelHub = <R>(
+  hubs: Map<string, HubEntry>,
+  replay: LiveReplayStore,
+  channel: ServedChannel<R>,
+): Effect.Effect<Hub, never, R | Scope.Scope> =>
+  Effect.acquireRelease(
+    Effect.gen(function* () {
+      const [entry, started] = yield* Effect.sync(() => {
+        const existing = hubs.get(channel.name);
+        if (existing !== undefined) {
+          existing.connections += 1;
+          return [existing, true] as const;
+        }
+        const created: HubEntry = { hub: Deferred.unsafeMake(FiberId.none), connections: 1 };
+        hubs.set(channel.name, created);
+        return [created, false] as const;
+      });
+
+      if (!started) {
+        const created: Hub = {
+          events: yield* PubSub.unbounded<Numbered>(),
+          latest: Option.none(),
+          scope: yield* Scope.make(),
+        };
+        yield* numbered(channel, replay.record).pipe(
+          Stream.runForEach((event) =>
+            Effect.suspend(() => {
+              created.latest = Option.some(event);
+              return PubSub.publish(created.events, event);
+            }),
+          ),
+          // Forked from the uninterruptible acquire; closing the scope interrupts it
+          Effect.interruptible,
+          Effect.forkIn(created.scope),
+        );
+        yield* Deferred.succeed(entry.hub, created);
+      }
+      return [entry, yield* Deferred.await(entry.hub)] as const;
+    }),
+    ([entry, hub]) =>
+      Effect.suspend(() => {
+        entry.connections -= 1;
+        if (entry.connections > 0) return Effect.void;
+        hubs.delete(channel.name);
+        return Scope.close(hub.scope, Exit.void);
+      }),
+  ).pipe(Effect.map(([, hub]) => hub));
+
+/**
+ * A connection's subscription to a hub: its latest value (for channels that
+ * start from one), then everything recorded after. The subscription is taken
+ * right away, so nothing recorded meanwhile is missed.
+ */
+const hubEvents = (
+  hub: Hub,
+  snapshot: boolean,
+): Effect.Effect<Stream.Stream<Numbered>, never, Scope.Scope> =>
+  Effect.map(PubSub.subscribe(hub.events), (subscription) =>
+    Stream.concat(
+      Stream.fromIterable(snapshot ? Option.toArray(hub.latest) : []),
+      Stream.fromQueue(subscription),
+    ),
+  );
+
+/**
+ * The SSE events of channels sharing a connection. Without a replay store
+ * each channel's source runs for the connection, numbered from a counter
+ * shared by its channels; with one, the connection follows the channels'
+ * hubs on the endpoint, first sending the events a reconnecting client missed.
+ */
+const connectionEvents = <R>(
+  channels: ReadonlyArray<ServedChannel<R>>,
+  replay: Option.Option<readonly [LiveReplayStore, Map<string, HubEntry>]>,
+  after: Option.Option<number>,
+): Stream.Stream<Uint8Array, never, R> => {
+  const toSSE = Stream.map(([id, event, data]: readonly [number, string, unknown]) =>
+    encodeSSE(event, data, String(id)),
+  );
+
+  if (Option.isNone(replay)) {
+    return Stream.unwrap(
+      Effect.map(Ref.make(0), (idRef) =>
+        Stream.mergeAll(
+          channels.map((channel) =>
+            channelEvents(
+              channel,
+              numbered(channel, () => Ref.getAndUpdate(idRef, (n) => n + 1)),
+              fresh,
+            ).pipe(toSSE),
+          ),
+          { concurrency: "unbounded" },
+        ),
+      ),
+    );
+  }
+
+  const [store, hubs] = replay.value;
+  return Stream.unwrapScoped(
+    Effect.gen(function* () {
+      // Subscribe before looking up what was missed: events in both are sent once
+      const subscriptions = yield* Effect.forEach(channels, (channel) =>
+        Effect.flatMap(channelHub(hubs, store, channel), (hub) => hubEvents(hub, channel.snapshot)),
+      );
+      const resumed = yield* resume(
+        store,
+        after,
+        channels.map((channel) => channel.name),
+      );
+
+      const replayed = Stream.fromIterable(
+        resumed.replayed.map((event) => encodeSSE(event.channel, event.data, String(event.id))),
+      );
+      const live = Stream.mergeAll(
+        channels.map((channel, i) => channelEvents(channel, subscriptions[i], resumed).pipe(toSSE)),
+        { concurrency: "unbounded" },
+      );
+      return Stream.concat(replayed, live);
+    }),
+  );
+};
+
+/**
+ * The SSE response for channels sharing a connection: the retry hint, the
+ * channels' events and heartbeats. Each call is an endpoint, with its own
+ * hubs when serving with a replay store.
+ */
+const respond = <R>(
+  channels: ReadonlyArray<ServedChannel<R>>,
+  options: {
+    readonly heartbeatInterval?: DurationInput | false;
+    readonly retryInterval?: DurationInput;
+    readonly replay?: LiveReplayStore;
+  },
+): Effect.Effect<HttpServerResponse.HttpServerResponse, never, R> => {
+  const replay = Option.map(
+    Option.fromNullable(options.replay),
+    (store) => [store, new Map<string, HubEntry>()] as const,
+  );
+
+  return Effect.gen(function* () {
+    const context = yield* Effect.context<R>();
+    const heartbeatInterval = options.heartbeatInterval ?? "30 seconds";
+    const after = yield* lastEventId;
+
+    const dataStream = connectionEvents(channels, replay, after);
+
+    const heartbeat =
+      heartbeatInterval === false
+        ? Stream.empty
+        : Stream.repeatEffect(Effect.succeed(encodeComment("ping"))).pipe(
+            Stream.schedule(Schedule.spaced(heartbeatInterval)),
+          );
+
+    const retry =
+      options.retryInterval !== undefined
+        ? Stream.make(encodeRetry(Duration.toMillis(options.retryInterval)))
+        : Stream.empty;
+
+    const sseStream = Stream.mergeAll([retry, dataStream, heartbeat], {
+      concurrency: "unbounded",
+    }).pipe(Stream.provideContext(context));
+
+    // cast needed: effect/platform's StreamTypeId symbol differs from our effect version
+    return HttpServerResponse.stream(sseStream as any, {
+      contentType: "text/event-stream",
+      headers: SSE_HEADERS,
+    });
+  });
+};
+
 /**
  * Options for `serve()`.
  *
  * @since 1.0.0
  */
-export interface ServeOptions<A, R> {
-  /** Effect that fetches the current state from the upstream source. */
-  readonly source: Effect.Effect<A, never, R>;
-  /** Polling interval. Accepts Duration or duration string (e.g. "2 seconds"). */
-  readonly interval?: DurationInput;
+export type ServeOptions<A, R> = LiveSource<A, R> & {
   /**
    * Custom equality function for deduplication. Defaults to `Equal.equals`.
    * Set to `false` to disable deduplication entirely.
@@ -49,17 +418,35 @@ export interface ServeOptions<A, R> {
    * returns plain objects, pass a custom equality function.
    */
   readonly equals?: ((a: A, b: A) => boolean) | false;
+  /**
+   * Send updates as deltas from the previous value instead of full values:
+   * `"patch"` for a JSON Patch, `{ key }` for an array of objects identified
+   * by that property. A full snapshot is still sent first on every connection
+   * (so reconnecting resyncs), and whenever the delta wouldn't be smaller.
+   */
+  readonly delta?: LiveDeltaMode;
   /** Interval for SSE keepalive comments. Set to false to disable. Defaults to "30 seconds". */
   readonly heartbeatInterval?: DurationInput | false;
   /** SSE retry interval sent to client for reconnection timing. */
   readonly retryInterval?: DurationInput;
-}
+  /**
+   * Number events from this store and replay the ones a reconnecting client
+   * missed, from the `Last-Event-ID` header EventSource sends. When the
+   * store no longer has them all, the client gets a full snapshot instead.
+   *
+   * With a store, the source runs once for all connections to the handler,
+   * started by the first one and stopped when the last one closes: each value
+   * is recorded once. Serve a channel from one handler per store, since
+   * handlers record independently.
+   */
+  readonly replay?: LiveReplayStore;
+};
 
 /**
  * Create an SSE request handler for a single LiveChannel.
  *
  * Returns an `Effect` that produces an `HttpServerResponse` with a
- * streaming body. The source Effect's `R` requirement propagates
+ * streaming body. The source's `R` requirement propagates
  * so the caller provides dependencies via `Effect.provide`.
  *
  * @example
@@ -69,6 +456,9 @@ export interface ServeOptions<A, R> {
  *   interval: "2 seconds",
  * })
  * HttpRouter.get("/api/live", handler)
+ *
+ * // Push every change the moment it happens
+ * const handler = LiveSync.serve(LightsChannel, { ref: lightsRef })
  * ```
  *
  * @since 1.0.0
@@ -78,51 +468,19 @@ export const serve = <A, I, R>(
   options: ServeOptions<A, R>,
 ): Effect.Effect<HttpServerResponse.HttpServerResponse, never, R> => {
   const { name, schema } = resolveChannel(channel as any);
-  const interval = options.interval ?? "2 seconds";
-  const eq = options.equals !== undefined ? options.equals : (a: A, b: A) => Equal.equals(a, b);
-  const heartbeatInterval = options.heartbeatInterval ?? "30 seconds";
-
-  return Effect.gen(function* () {
-    const context = yield* Effect.context<R>();
-    const idRef = yield* Ref.make(0);
-
-    const pollStream = Stream.repeatEffect(options.source).pipe(
-      Stream.schedule(Schedule.spaced(interval)),
-    );
-
-    const deduped = eq !== false ? pollStream.pipe(Stream.changesWith(eq)) : pollStream;
-
-    const dataStream = deduped.pipe(
-      Stream.mapEffect((value) => Schema.encode(schema)(value).pipe(Effect.orDie)),
-      Stream.mapEffect((encoded) =>
-        Ref.getAndUpdate(idRef, (n) => n + 1).pipe(
-          Effect.map((id) => encodeSSE(name, encoded, String(id))),
-        ),
-      ),
-    );
-
-    const heartbeat =
-      heartbeatInterval === false
-        ? Stream.empty
-        : Stream.repeatEffect(Effect.succeed(encodeComment("ping"))).pipe(
-            Stream.schedule(Schedule.spaced(heartbeatInterval)),
-          );
-
-    const retry =
-      options.retryInterval !== undefined
-        ? Stream.make(encodeRetry(Duration.toMillis(options.retryInterval)))
-        : Stream.empty;
-
-    const sseStream = Stream.mergeAll([retry, dataStream, heartbeat], {
-      concurrency: "unbounded",
-    }).pipe(Stream.provideContext(context));
-
-    // cast needed: effect/platform's StreamTypeId symbol differs from our effect version
-    return HttpServerResponse.stream(sseStream as any, {
-      contentType: "text/event-stream",
-      headers: SSE_HEADERS,
-    });
-  });
+  return respond(
+    [
+      {
+        name,
+        schema,
+        values: sourceStream(options),
+        snapshot: !("pubsub" in options),
+        equals: options.equals,
+        delta: options.delta,
+      },
+    ],
+    options,
+  );
 };
 
 /**
@@ -130,23 +488,25 @@ export const serve = <A, I, R>(
  *
  * @since 1.0.0
  */
-export interface ServeGroupChannelOptions<A, I, R> {
+export type ServeGroupChannelOptions<A, I, R> = LiveSource<A, R> & {
   readonly channel: LiveChannel<A, I> | LiveAtom<A, I>;
-  readonly source: Effect.Effect<A, never, R>;
-  readonly interval?: DurationInput;
   /**
    * Custom equality function for deduplication. Defaults to `Equal.equals`.
    * Set to `false` to disable deduplication entirely.
    */
   readonly equals?: ((a: A, b: A) => boolean) | false;
-}
+  /** Send updates as deltas, as in `serve()`. */
+  readonly delta?: LiveDeltaMode;
+};
 
 /**
  * Create an SSE handler that multiplexes multiple channels over one connection.
  *
- * Each channel polls independently at its own interval. Events are tagged
+ * Each channel polls independently at its own interval, or pushes from its
+ * Stream, PubSub or SubscriptionRef. Events are tagged
  * with `event: <channel.name>` so the client can dispatch to the correct atom.
- * All events share a monotonic `id:` counter across channels.
+ * All events share a monotonic `id:` counter across channels — the replay
+ * store's, with `replay`.
  *
  * @since 1.0.0
  */
@@ -158,59 +518,193 @@ export const serveGroup = <
   readonly heartbeatInterval?: DurationInput | false;
   /** SSE retry interval sent to client for reconnection timing. */
   readonly retryInterval?: DurationInput;
+  /** Number events from this store and replay missed ones, as in `serve()`. */
+  readonly replay?: LiveReplayStore;
+}): Effect.Effect<HttpServerResponse.HttpServerResponse, never, SourceContext<Channels[number]>> =>
+  respond(options.channels.map(groupChannel), options);
+
+/** A serveGroup() channel as served. */
+const groupChannel = (opt: ServeGroupChannelOptions<any, any, any>): ServedChannel<any> => ({
+  ...resolveChannel(opt.channel as any),
+  values: sourceStream<any, any>(opt),
+  snapshot: !("pubsub" in opt),
+  equals: opt.equals,
+  delta: opt.delta,
+});
+
+/**
+ * Create a WebSocket handler serving channels the way `serveGroup()` does,
+ * but only those the client subscribed to (see `webSocketTransport`): a
+ * channel's source runs from its subscription until it is unsubscribed or
+ * the socket closes, starting with a full snapshot. Messages are
+ * LiveSocketMessages in JSON text frames.
+ *
+ * Responds 426 to a request that isn't a WebSocket upgrade.
+ *
+ * @example
+ * ```ts
+ * HttpRouter.get("/api/live/ws", LiveSync.serveSocket({
+ *   channels: [
+ *     { channel: ClockAtom, source: currentTime, interval: "1 second" },
+ *     { channel: LightsAtom, ref: lightsRef },
+ *   ],
+ * }))
+ *
+ * // Client: LiveConfig.make({ baseUrl: "/api/live/ws", transport: webSocketTransport })
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const serveSocket = <
+  Channels extends readonly ServeGroupChannelOptions<any, any, any>[],
+>(options: {
+  readonly channels: Channels;
 }): Effect.Effect<
   HttpServerResponse.HttpServerResponse,
   never,
-  Channels[number] extends ServeGroupChannelOptions<any, any, infer R> ? R : never
+  HttpServerRequest.HttpServerRequest | SourceContext<Channels[number]>
 > =>
   Effect.gen(function* () {
-    type Deps = Channels[number] extends ServeGroupChannelOptions<any, any, infer R> ? R : never;
-    const context = yield* Effect.context<Deps>();
-    const heartbeatInterval = options.heartbeatInterval ?? "30 seconds";
-    const idRef = yield* Ref.make(0);
-
-    const channelStreams = options.channels.map((opt) => {
-      const { name, schema } = resolveChannel(opt.channel as any);
-      const pollInterval = opt.interval ?? "2 seconds";
-      const eq = opt.equals !== undefined ? opt.equals : (a: any, b: any) => Equal.equals(a, b);
+    const context = yield* Effect.context<SourceContext<Channels[number]>>();
+    const upgraded = yield* Effect.either(HttpServerRequest.upgrade);
+    if (Either.isLeft(upgraded)) {
+      return HttpServerResponse.text("Expected a WebSocket upgrade", {
+        status: 426,
+        headers: { upgrade: "websocket" },
+      });
+    }
+    const socket = upgraded.right;
+    const channels = new Map(
+      options.channels.map((opt) => {
+        const channel = groupChannel(opt);
+        return [channel.name, channel] as const;
+      }),
+    );
 
-      const pollStream = Stream.repeatEffect(opt.source).pipe(
-        Stream.schedule(Schedule.spaced(pollInterval)),
-      );
+    yield* Effect.gen(function* () {
+      const write = yield* socket.writer;
+      const idRef = yield* Ref.make(0);
+      const assignId = () => Ref.getAndUpdate(idRef, (n) => n + 1);
+      // The running channels, by event name
+      const subscriptions = yield* FiberMap.make<string>();
 
-      const deduped = eq !== false ? pollStream.pipe(Stream.changesWith(eq)) : pollStream;
+      yield* socket.runRaw((frame) => {
+        const message = parseSocketMessage(frame);
+        if (Option.isNone(message)) return;
+        const { type, event } = message.value;
+        const channel = channels.get(event);
+        if (type === "unsubscribe") return FiberMap.remove(subscriptions, event);
+        if (type !== "subscribe" || channel === undefined) return;
 
-      return deduped.pipe(
-        Stream.mapEffect((value) => Schema.encode(schema)(value).pipe(Effect.orDie)),
-        Stream.mapEffect((encoded) =>
-          Ref.getAndUpdate(idRef, (n) => n + 1).pipe(
-            Effect.map((id) => encodeSSE(name, encoded, String(id))),
+        return FiberMap.run(
+          subscriptions,
+          event,
+          channelEvents(channel, numbered(channel, assignId), fresh).pipe(
+            Stream.runForEach(([, name, data]) =>
+              write(
+                JSON.stringify({
+                  type: "message",
+                  channel: event,
+                  event: name,
+                  data,
+                } satisfies LiveSocketMessage),
+              ),
+            ),
+            Effect.provide(context),
           ),
-        ),
-      );
-    });
+          { onlyIfMissing: true },
+        );
+      });
+    }).pipe(Effect.scoped, Effect.ignore);
 
-    const dataStream = Stream.mergeAll(channelStreams, { concurrency: "unbounded" });
+    // The socket closed; the response is never sent
+    return HttpServerResponse.empty();
+  });
 
-    const heartbeat =
-      heartbeatInterval === false
-        ? Stream.empty
-        : Stream.repeatEffect(Effect.succeed(encodeComment("ping"))).pipe(
-            Stream.schedule(Schedule.spaced(heartbeatInterval)),
-          );
+/**
+ * A live atom or channel accepting client writes in `serveWrites()`.
+ *
+ * @since 1.0.0
+ */
+export interface ServeWritesChannelOptions<A, I, E, R> {
+  readonly channel: LiveChannel<A, I> | LiveAtom<A, I>;
+  /**
+   * Apply a write, decoded with the channel's schema — e.g. set the
+   * SubscriptionRef the channel is served from, so the new value goes out to
+   * every client. Fail to reject it; the writer's atom rolls back.
+   */
+  readonly handler: (value: A) => Effect.Effect<void, E, R>;
+}
 
-    const retry =
-      options.retryInterval !== undefined
-        ? Stream.make(encodeRetry(Duration.toMillis(options.retryInterval)))
-        : Stream.empty;
+/** The services the handlers of write channels need. */
+type WriteContext<C> = C extends ServeWritesChannelOptions<any, any, any, infer R> ? R : never;
 
-    const sseStream = Stream.mergeAll([retry, dataStream, heartbeat], {
-      concurrency: "unbounded",
-    }).pipe(Stream.provideContext(context));
+/** A rejection's message: the error's own, or the error as a string. */
+const rejection = (error: unknown): string =>
+  Predicate.hasProperty(error, "message") ? String(error.message) : String(error);
 
-    // cast needed: effect/platform's StreamTypeId symbol differs from our effect version
-    return HttpServerResponse.stream(sseStream as any, {
-      contentType: "text/event-stream",
-      headers: SSE_HEADERS,
-    });
+/**
+ * Create a request handler for client writes (see `LiveSync.write`), usually
+ * routed as a POST on the same URL the channels are served from.
+ *
+ * The body is JSON `{ event, value }`. Responds 204 once the channel's
+ * handler applied the value, 422 when the value doesn't decode with the
+ * channel's schema, 409 when the handler fails, 404 for an event without a
+ * channel here and 400 for a malformed body. Rejections carry a JSON
+ * `{ message }`.
+ *
+ * @example
+ * ```ts
+ * HttpRouter.get("/api/live", LiveSync.serve(LampAtom, { ref: lampRef }))
+ * HttpRouter.post("/api/live", LiveSync.serveWrites({
+ *   channels: [{ channel: LampAtom, handler: (on) => SubscriptionRef.set(lampRef, on) }],
+ * }))
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const serveWrites = <
+  Channels extends readonly ServeWritesChannelOptions<any, any, any, any>[],
+>(options: {
+  readonly channels: Channels;
+}): Effect.Effect<
+  HttpServerResponse.HttpServerResponse,
+  never,
+  HttpServerRequest.HttpServerRequest | WriteContext<Channels[number]>
+> =>
+  Effect.gen(function* () {
+    const request = yield* HttpServerRequest.HttpServerRequest;
+    const body = yield* Effect.option(request.json);
+    if (
+      Option.isNone(body) ||
+      !Predicate.hasProperty(body.value, "event") ||
+      !Predicate.hasProperty(body.value, "value")
+    ) {
+      return HttpServerResponse.unsafeJson({ message: "Invalid write body" }, { status: 400 });
+    }
+    const { event, value } = body.value;
+
+    const target = options.channels.find((opt) => resolveChannel(opt.channel).name === event);
+    if (target === undefined) {
+      return HttpServerResponse.unsafeJson(
+        { message: `No writable channel "${String(event)}"` },
+        { status: 404 },
+      );
+    }
+
+    const decoded = yield* Effect.either(
+      Schema.decodeUnknown(resolveChannel(target.channel).schema)(value),
+    );
+    if (Either.isLeft(decoded)) {
+      return HttpServerResponse.unsafeJson({ message: decoded.left.message }, { status: 422 });
+    }
+
+    return yield* target.handler(decoded.right).pipe(
+      Effect.as(HttpServerResponse.empty({ status: 204 })),
+      Effect.catchAll((error) =>
+        Effect.succeed(
+          HttpServerResponse.unsafeJson({ message: rejection(error) }, { status: 409 }),
+        ),
+      ),
+    );
   });
@@ -1,12 +1,15 @@
 import * as Stream from "effect/Stream";
 import * as Effect from "effect/Effect";
 import * as Schema from "effect/Schema";
+import * as Option from "effect/Option";
+import { applyDelta, deltaEvent, type LiveDelta } from "./delta.js";
 
 /**
  * Create an Effect Stream from a Server-Sent Events endpoint.
  *
- * Each emission is a decoded value of type `A`. The stream
- * stays open until the scope is closed (component unmounts).
+ * Each emission is a decoded value of type `A`, from a full value or a
+ * delta applied to the last one. The stream stays open until the scope is
+ * closed (component unmounts).
  */
 export const sseStream = <A, I>(options: {
   readonly url: string;
@@ -14,21 +17,36 @@ export const sseStream = <A, I>(options: {
   readonly schema: Schema.Schema<A, I>;
   readonly withCredentials?: boolean;
 }): Stream.Stream<A, never, never> => {
-  const decode = Schema.decodeUnknownSync(Schema.parseJson(options.schema));
+  const decode = Schema.decodeUnknownSync(options.schema);
 
   return Stream.async<A>((emit) => {
     const es = new EventSource(options.url, {
       withCredentials: options.withCredentials ?? false,
     });
 
+    // The last value received, in the wire form deltas apply to
+    let wire: Option.Option<unknown> = Option.none();
+    const receive = (value: unknown) => {
+      emit.single(decode(value));
+      wire = Option.some(value);
+    };
+
     es.addEventListener(options.event, (e: MessageEvent) => {
       try {
-        emit.single(decode(e.data));
+        receive(JSON.parse(e.data));
       } catch {
         // Decode errors are silently skipped — atom stays at previous value
       }
     });
 
+    es.addEventListener(deltaEvent(options.event), (e: MessageEvent) => {
+      try {
+        if (Option.isSome(wire)) receive(applyDelta(wire.value, JSON.parse(e.data) as LiveDelta));
+      } catch {
+        // Deltas that don't apply are skipped, like decode errors
+      }
+    });
+
     es.addEventListener("error", () => {
       // EventSource auto-reconnects; don't end the stream
     });
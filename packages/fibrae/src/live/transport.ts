@@ -0,0 +1,295 @@
+/**
+ * @since 1.0.0
+ * Transports for live atoms — how the client reaches a live endpoint.
+ *
+ * A transport opens one connection per URL, shared by every live atom served
+ * from it; each atom listens to its channel's messages on the connection:
+ * - `sseTransport`: an EventSource, receiving every channel the endpoint
+ *   serves (`serve()`, `serveGroup()`)
+ * - `webSocketTransport`: a WebSocket multiplexing the channels atoms listen
+ *   to, subscribing and unsubscribing as they come and go (`serveSocket()`)
+ *
+ * Messages carry the SSE event names: a channel's full values under its event
+ * name, its deltas under `deltaEvent(name)`. `resolveDeltas` turns a
+ * connection's deltas back into full values.
+ */
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Option from "effect/Option";
+import * as Predicate from "effect/Predicate";
+import * as Schedule from "effect/Schedule";
+import * as Scope from "effect/Scope";
+import { Socket } from "@effect/platform";
+import { applyDelta, deltaEvent, type LiveDelta } from "./delta.js";
+
+/**
+ * Receives a channel's messages: the SSE event name and the parsed data.
+ *
+ * @since 1.0.0
+ */
+export type LiveListener = (event: string, data: unknown) => void;
+
+/**
+ * An open connection to a live endpoint.
+ *
+ * @since 1.0.0
+ */
+export interface LiveConnection {
+  /** Pass a channel's messages (full values and deltas) to `listener` until the scope closes. */
+  readonly listen: (
+    event: string,
+    listener: LiveListener,
+  ) => Effect.Effect<void, never, Scope.Scope>;
+}
+
+/**
+ * Opens connections to live endpoints.
+ *
+ * @since 1.0.0
+ */
+export interface LiveTransport {
+  /** Connect to `url`, closing the connection with the scope. */
+  readonly connect: (
+    url: string,
+    options: { readonly withCredentials: boolean },
+  ) => Effect.Effect<LiveConnection, never, Scope.Scope>;
+}
+
+/**
+ * A message between `webSocketTransport` and `serveSocket()`: the client
+ * subscribes to channels by event name, the server sends their messages.
+ *
+ * @since 1.0.0
+ */
+export type LiveSocketMessage =
+  | { readonly type: "subscribe"; readonly event: string }
+  | { readonly type: "unsubscribe"; readonly event: string }
+  | {
+      readonly type: "message";
+      /** The channel's event name */
+      readonly channel: string;
+      /** The SSE event name: the channel's, or its delta event */
+      readonly event: string;
+      readonly data: unknown;
+    };
+
+/** Parse a socket frame, None when it isn't a LiveSocketMessage. */
+export const parseSocketMessage = (
+  frame: string | Uint8Array,
+): Option.Option<LiveSocketMessage> => {
+  try {
+    const message: unknown = JSON.parse(
+      typeof frame === "string" ? frame : new TextDecoder().decode(frame),
+    );
+    return Predicate.hasProperty(message, "type") &&
+      Predicate.hasProperty(message, "event") &&
+      typeof message.event === "string"
+      ? Option.some(message as LiveSocketMessage)
+      : Option.none();
+  } catch {
+    return Option.none();
+  }
+};
+
+// =============================================================================
+// Deltas
+// =============================================================================
+
+/** A channel listened to through `resolveDeltas`. */
+interface ResolvedChannel {
+  /** The last full value the server sent, in wire form; deltas apply to it */
+  wire: Option.Option<unknown>;
+  readonly listeners: Set<LiveListener>;
+  readonly scope: Scope.CloseableScope;
+}
+
+/**
+ * A connection whose listeners receive only full values, under the channel's
+ * event name. Each channel listens once on `connection`, applying every delta
+ * once to the last value the server sent, for all of its listeners; deltas
+ * before the channel's first snapshot, or after one that didn't apply, are
+ * dropped until the next snapshot.
+ *
+ * @since 1.0.0
+ */
+export const resolveDeltas = (connection: LiveConnection): LiveConnection => {
+  const channels = new Map<string, ResolvedChannel>();
+
+  return {
+    listen: (event, listener) =>
+      Effect.acquireRelease(
+        Effect.gen(function* () {
+          const existing = channels.get(event);
+          if (existing !== undefined) {
+            existing.listeners.add(listener);
+            return;
+          }
+          const channel: ResolvedChannel = {
+            wire: Option.none(),
+            listeners: new Set([listener]),
+            scope: yield* Scope.make(),
+          };
+          channels.set(event, channel);
+          yield* connection
+            .listen(event, (name, data) => {
+              try {
+                channel.wire =
+                  name === event
+                    ? Option.some(data)
+                    : Option.map(channel.wire, (wire) => applyDelta(wire, data as LiveDelta));
+              } catch {
+                channel.wire = Option.none();
+              }
+              if (Option.isNone(channel.wire)) return;
+              for (const each of channel.listeners) each(event, channel.wire.value);
+            })
+            .pipe(Scope.extend(channel.scope));
+        }),
+        () =>
+          Effect.suspend(() => {
+            const channel = channels.get(event);
+            channel?.listeners.delete(listener);
+            if (channel === undefined || channel.listeners.size > 0) return Effect.void;
+            channels.delete(event);
+            return Scope.close(channel.scope, Exit.void);
+          }),
+      ),
+  };
+};
+
+// =============================================================================
+// SSE
+// =============================================================================
+
+/**
+ * Connect with an EventSource, which reconnects by itself.
+ *
+ * @since 1.0.0
+ */
+export const sseTransport: LiveTransport = {
+  connect: (url, { withCredentials }) =>
+    Effect.map(
+      Effect.acquireRelease(
+        Effect.sync(() => new EventSource(url, { withCredentials })),
+        (es) => Effect.sync(() => es.close()),
+      ),
+      (es): LiveConnection => ({
+        listen: (event, listener) => {
+          const handlers = [event, deltaEvent(event)].map((name) => {
+            const handler = (e: MessageEvent) => {
+              try {
+                listener(name, JSON.parse(e.data));
+              } catch {
+                // Malformed data is skipped, like values that don't decode
+              }
+            };
+            return [name, handler] as const;
+          });
+          return Effect.acquireRelease(
+            Effect.sync(() => {
+              for (const [name, handler] of handlers) es.addEventListener(name, handler);
+            }),
+            () =>
+              Effect.sync(() => {
+                for (const [name, handler] of handlers) es.removeEventListener(name, handler);
+              }),
+          );
+        },
+      }),
+    ),
+};
+
+// =============================================================================
+// WebSocket
+// =============================================================================
+
+/** A WebSocket URL for `url`, resolved against the page for relative ones. */
+const webSocketUrl = (url: string): string => {
+  const resolved = new URL(url, globalThis.location?.href);
+  if (resolved.protocol === "http:") resolved.protocol = "ws:";
+  if (resolved.protocol === "https:") resolved.protocol = "wss:";
+  return resolved.href;
+};
+
+/**
+ * Connect with a WebSocket carrying only the channels listened to. Reconnects
+ * every 2 seconds after a dropped connection, subscribing again to every
+ * channel; each subscription starts with a full snapshot, as on a new SSE
+ * connection.
+ *
+ * Cookies go with the upgrade request for the page's own host; the
+ * `withCredentials` option doesn't apply to WebSockets.
+ *
+ * @since 1.0.0
+ */
+export const webSocketTransport: LiveTransport = {
+  connect: (url) =>
+    Effect.gen(function* () {
+      const scope = yield* Effect.scope;
+      // Every close is an error here, so that it reconnects
+      const socket = yield* Socket.makeWebSocket(webSocketUrl(url), {
+        closeCodeIsError: () => true,
+      }).pipe(Effect.provide(Socket.layerWebSocketConstructorGlobal));
+      const write = yield* socket.writer;
+
+      // Sent in the background: a write waits for the socket to be open
+      const send = (message: LiveSocketMessage) =>
+        write(JSON.stringify(message)).pipe(Effect.ignore, Effect.forkIn(scope), Effect.asVoid);
+
+      // Listeners by channel event name; a channel is subscribed while it has any
+      const listeners = new Map<string, Set<LiveListener>>();
+      let open = false;
+
+      yield* socket
+        .runRaw(
+          (frame) => {
+            const message = parseSocketMessage(frame);
+            if (Option.isNone(message) || message.value.type !== "message") return;
+            const { channel, event, data } = message.value;
+            for (const listener of listeners.get(channel) ?? []) listener(event, data);
+          },
+          {
+            onOpen: Effect.suspend(() => {
+              open = true;
+              return Effect.forEach(
+                listeners.keys(),
+                (event) => send({ type: "subscribe", event }),
+                {
+                  discard: true,
+                },
+              );
+            }),
+          },
+        )
+        .pipe(
+          Effect.ensuring(Effect.sync(() => (open = false))),
+          Effect.retry(Schedule.spaced("2 seconds")),
+          Effect.ignore,
+          Effect.forkScoped,
+        );
+
+      return {
+        listen: (event, listener) =>
+          Effect.acquireRelease(
+            Effect.suspend(() => {
+              const existing = listeners.get(event);
+              if (existing !== undefined) {
+                existing.add(listener);
+                return Effect.void;
+              }
+              listeners.set(event, new Set([listener]));
+              // While closed, onOpen subscribes once the socket reconnects
+              return open ? send({ type: "subscribe", event }) : Effect.void;
+            }),
+            () =>
+              Effect.suspend(() => {
+                const existing = listeners.get(event);
+                existing?.delete(listener);
+                if (existing === undefined || existing.size > 0) return Effect.void;
+                listeners.delete(event);
+                return open ? send({ type: "unsubscribe", event }) : Effect.void;
+              }),
+          ),
+      } satisfies LiveConnection;
+    }),
+};
@@ -0,0 +1,161 @@
+/**
+ * @since 1.0.0
+ * Client writes to live atoms — optimistic locally, confirmed by the server.
+ *
+ * `write()` puts the value into the atom right away (as a waiting Success)
+ * and POSTs it, schema-encoded, to the LiveConfig write URL, where
+ * `serveWrites()` validates and applies it. The authoritative value then
+ * comes back over the atom's SSE channel like any other update. When the
+ * server rejects the write, the atom rolls back.
+ */
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Option from "effect/Option";
+import * as Schema from "effect/Schema";
+import { Registry as AtomRegistry, Result } from "@effect-atom/atom";
+import { LiveConfig } from "./config.js";
+import type { LiveAtom } from "./atom.js";
+
+/**
+ * A write the server rejected, or that never reached it (no `status`).
+ *
+ * @since 1.0.0
+ */
+export class LiveWriteError extends Schema.TaggedError<LiveWriteError>()("LiveWriteError", {
+  event: Schema.String,
+  status: Schema.optional(Schema.Number),
+  message: Schema.String,
+}) {}
+
+/**
+ * The body POSTed for a write: the atom's event name and the encoded value.
+ *
+ * @since 1.0.0
+ */
+export interface LiveWriteRequest {
+  readonly event: string;
+  readonly value: unknown;
+}
+
+/**
+ * An atom's writes awaiting the server, oldest first, and the value to fall
+ * back to when they are all rejected: the last one the server confirmed.
+ */
+interface Pending {
+  confirmed: Result.Result<any>;
+  readonly writes: Array<Result.Result<any>>;
+}
+
+// Pending writes by registry and atom
+const pendingWrites = new WeakMap<AtomRegistry.Registry, WeakMap<LiveAtom<any, any>, Pending>>();
+
+/**
+ * The atom's pending writes. When the atom shows none of them, a value came
+ * from the server since: it becomes the confirmed one.
+ */
+const pendingFor = (registry: AtomRegistry.Registry, atom: LiveAtom<any, any>): Pending => {
+  let atoms = pendingWrites.get(registry);
+  if (atoms === undefined) {
+    atoms = new WeakMap();
+    pendingWrites.set(registry, atoms);
+  }
+  const current = registry.get(atom);
+  const existing = atoms.get(atom);
+  if (existing !== undefined && existing.writes.includes(current)) return existing;
+  const created: Pending = { confirmed: current, writes: [] };
+  atoms.set(atom, created);
+  return created;
+};
+
+/**
+ * Write a value to a live atom.
+ *
+ * The atom shows the value immediately, waiting, until the server answers:
+ * accepted, it stays (until the SSE channel sends the authoritative value);
+ * rejected, the atom returns to the newest write still pending, or else to
+ * the last value the server confirmed, and the Effect fails with a
+ * LiveWriteError. Values that arrived over SSE in the meantime are kept.
+ * Over a transport without a write URL (see `LiveConfig.writeUrl`), it fails
+ * without touching the atom.
+ *
+ * @example
+ * ```tsx
+ * const Toggle = () =>
+ *   Effect.gen(function* () {
+ *     const on = yield* Atom.get(LampAtom);
+ *     const current = Result.getOrElse(on, () => false);
+ *     return <button onClick={() => LiveSync.write(LampAtom, !current)}>{current ? "On" : "Off"}</button>;
+ *   });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export const write = <A, I>(
+  atom: LiveAtom<A, I>,
+  value: A,
+): Effect.Effect<void, LiveWriteError, AtomRegistry.AtomRegistry | LiveConfig> =>
+  Effect.gen(function* () {
+    const registry = yield* AtomRegistry.AtomRegistry;
+    const config = yield* LiveConfig;
+    const { event, schema } = atom._live;
+
+    const url = yield* Option.match(LiveConfig.resolveWrite(config, event), {
+      onNone: () =>
+        Effect.fail(
+          new LiveWriteError({
+            event,
+            message: "LiveConfig.writeUrl is required for writes over this transport",
+          }),
+        ),
+      onSome: Effect.succeed,
+    });
+
+    const encoded = yield* Schema.encode(schema)(value).pipe(
+      Effect.mapError((error) => new LiveWriteError({ event, message: error.message })),
+    );
+
+    const pending = pendingFor(registry, atom);
+    const optimistic = Result.success<A>(value, { waiting: true });
+    pending.writes.push(optimistic);
+    registry.set(atom, optimistic);
+
+    // Replace only our own optimistic value: a newer write's stays, as does one from the server
+    const settle = (accepted: boolean) => {
+      pending.writes.splice(pending.writes.indexOf(optimistic), 1);
+      if (accepted) pending.confirmed = Result.success(value);
+      if (registry.get(atom) !== optimistic) return;
+      registry.set(
+        atom,
+        accepted ? pending.confirmed : (pending.writes.at(-1) ?? pending.confirmed),
+      );
+    };
+
+    const body: LiveWriteRequest = { event, value: encoded };
+    yield* Effect.tryPromise({
+      try: () =>
+        fetch(url, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(body),
+          credentials: config.withCredentials ? "include" : "same-origin",
+        }),
+      catch: (error) => new LiveWriteError({ event, message: String(error) }),
+    }).pipe(
+      Effect.flatMap((response) =>
+        response.ok
+          ? Effect.void
+          : Effect.promise(() => response.json().catch(() => ({}))).pipe(
+              Effect.flatMap((rejection: { readonly message?: unknown }) =>
+                Effect.fail(
+                  new LiveWriteError({
+                    event,
+                    status: response.status,
+                    message: String(rejection.message ?? response.statusText),
+                  }),
+                ),
+              ),
+            ),
+      ),
+      Effect.onExit((exit) => Effect.sync(() => settle(Exit.isSuccess(exit)))),
+    );
+  });
@@ -0,0 +1,80 @@
+/**
+ * Resumable streams — Stream components that continue on the client
+ * from the server's emission instead of restarting.
+ *
+ * During SSR only the first emission of a Stream component is rendered.
+ * A resumable stream records that emission as its cursor in a serializable
+ * atom, so it ships in the dehydrated state. On the client the stream
+ * re-emits the cursor first (matching the server HTML, no flash back to the
+ * initial value), then continues from it.
+ */
+import * as Effect from "effect/Effect";
+import * as Option from "effect/Option";
+import * as Schema from "effect/Schema";
+import * as Stream from "effect/Stream";
+import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
+
+/**
+ * Options for a resumable stream.
+ */
+export interface ResumableOptions<A, I, E, R> {
+  /**
+   * Schema for the emitted values. Each emission doubles as the cursor,
+   * so it must round-trip through the dehydrated state.
+   */
+  readonly schema: Schema.Schema<A, I>;
+  /**
+   * Build the stream, given the last recorded emission.
+   * None when starting fresh; Some when resuming (e.g. on the client after SSR).
+   * The cursor itself is re-emitted before this stream starts.
+   */
+  readonly stream: (cursor: Option.Option<A>) => Stream.Stream<A, E, R>;
+}
+
+/**
+ * Create a stream that records its latest emission under `key` and resumes
+ * from it when run again — on the client after SSR, or on remount.
+ *
+ * Map it to VElements inside a Stream component:
+ *
+ * @example
+ * ```tsx
+ * const ticks = resumable("clock", {
+ *   schema: Schema.Number,
+ *   stream: (cursor) =>
+ *     Stream.iterate(Option.getOrElse(cursor, () => 0) + 1, (n) => n + 1).pipe(
+ *       Stream.schedule(Schedule.spaced("1 second")),
+ *     ),
+ * });
+ *
+ * const Clock = () => ticks.pipe(Stream.map((n) => <span>Tick {n}</span>));
+ * ```
+ */
+export const resumable = <A, I, E, R>(
+  key: string,
+  options: ResumableOptions<A, I, E, R>,
+): Stream.Stream<A, E, R | AtomRegistry.AtomRegistry> => {
+  const cursorAtom = Atom.make<Option.Option<A>>(Option.none()).pipe(
+    Atom.serializable({ key: `@fibrae/resumable/${key}`, schema: Schema.Option(options.schema) }),
+    Atom.keepAlive,
+  );
+
+  return Stream.unwrap(
+    Effect.gen(function* () {
+      const registry = yield* AtomRegistry.AtomRegistry;
+
+      // Read via modify: inside a component the registry tracks `get` calls,
+      // and re-rendering on our own cursor writes would restart the stream.
+      const cursor = registry.modify(cursorAtom, (c) => [c, c]);
+
+      const values = Option.match(cursor, {
+        onNone: () => options.stream(Option.none()),
+        onSome: (c) => Stream.concat(Stream.succeed(c), options.stream(cursor)),
+      });
+
+      return values.pipe(
+        Stream.tap((a) => Effect.sync(() => registry.set(cursorAtom, Option.some(a)))),
+      );
+    }),
+  );
+};
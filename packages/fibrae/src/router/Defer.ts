@@ -0,0 +1,225 @@
+/**
+ * Defer - loader data that streams in after the page renders.
+ *
+ * A loader returns its critical data as usual and wraps slow parts with
+ * `defer`, which starts them right away without waiting for them. The route
+ * renders as soon as the critical data is in; `<Await>` renders a deferred
+ * value under the nearest Suspense once it resolves.
+ *
+ * During SSR the Suspense threshold decides: a value resolving within it is
+ * inlined, a slower one streams in after the shell (renderToStream). Resolved
+ * values ship in the dehydrated state, so hydration reuses them instead of
+ * fetching again. A value the server never resolved (e.g. renderToString past
+ * the threshold) is fetched again by revalidating the route's loaders.
+ *
+ * Usage:
+ * ```tsx
+ * handlers.handle("post", {
+ *   loader: ({ path }) =>
+ *     Effect.gen(function* () {
+ *       const post = yield* getPost(path.id);
+ *       const comments = yield* defer(getComments(path.id));
+ *       return { post, comments };
+ *     }),
+ *   component: ({ loaderData }) => (
+ *     <article>
+ *       <h1>{loaderData.post.title}</h1>
+ *       <Suspense fallback={<p>Loading comments...</p>}>
+ *         <Await resolve={loaderData.comments}>
+ *           {(comments) => <Comments comments={comments} />}
+ *         </Await>
+ *       </Suspense>
+ *     </article>
+ *   ),
+ * });
+ * ```
+ */
+
+import * as Effect from "effect/Effect";
+import * as Exit from "effect/Exit";
+import * as Fiber from "effect/Fiber";
+import * as Cause from "effect/Cause";
+import * as Option from "effect/Option";
+import * as Predicate from "effect/Predicate";
+import * as Schema from "effect/Schema";
+import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
+import { Navigator } from "./Navigator.js";
+import type { VElement } from "../shared.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+const TypeId: unique symbol = Symbol.for("fibrae/DeferredData");
+
+// What a deferred value serializes to in the dehydrated router state
+const markerKey = "~fibrae/deferred";
+
+/**
+ * A value a loader deferred with `defer`. Render it with `<Await>`.
+ */
+export interface DeferredData<A, E = never> {
+  readonly [TypeId]: {
+    readonly _A: (_: never) => A;
+    readonly _E: (_: never) => E;
+  };
+  /** Identifies the value in the dehydrated state */
+  readonly id: string;
+}
+
+/** The live form: the fiber computing the value. */
+interface PendingData<A, E> extends DeferredData<A, E> {
+  readonly fiber: Fiber.Fiber<A, E>;
+  readonly toJSON: () => { readonly [markerKey]: string };
+}
+
+/** A deferred value's outcome, as recorded for hydration (errors as tag and message). */
+type Settled =
+  | { readonly _tag: "Success"; readonly value: unknown }
+  | { readonly _tag: "Failure"; readonly error: unknown };
+
+/**
+ * Props for the Await component.
+ */
+export interface AwaitProps<A, E> {
+  /** The deferred value from the loader data */
+  readonly resolve: DeferredData<A, E>;
+  /** Render the resolved value */
+  readonly children: (value: A) => VElement;
+  /**
+   * Render a failure. Without one, the failure propagates to the nearest
+   * ErrorBoundary. After hydration the error is its `{ _tag, message }`.
+   */
+  readonly errorElement?: (error: E) => VElement;
+}
+
+// =============================================================================
+// Atoms
+// =============================================================================
+
+// Outcomes of the deferred values rendered so far, shipped with the dehydrated state
+const settledAtom = Atom.make<Record<string, Settled>>({}).pipe(
+  Atom.serializable({
+    key: "@fibrae/router/deferred",
+    schema: Schema.Record({
+      key: Schema.String,
+      value: Schema.Union(
+        Schema.TaggedStruct("Success", { value: Schema.Unknown }),
+        Schema.TaggedStruct("Failure", { error: Schema.Unknown }),
+      ),
+    }),
+  }),
+  Atom.keepAlive,
+);
+
+// =============================================================================
+// defer
+// =============================================================================
+
+/**
+ * Start an Effect without waiting for it, returning a value to hand to
+ * `<Await>`. Call it inside a loader: the Effect runs with the loader's
+ * services, in parallel with the rest of the loader and the route's render.
+ */
+export const defer = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+): Effect.Effect<DeferredData<A, E>, never, R> =>
+  Effect.map(Effect.forkDaemon(effect), (fiber): PendingData<A, E> => {
+    const id = Math.random().toString(36).slice(2, 10);
+    return {
+      [TypeId]: { _A: (_) => _, _E: (_) => _ },
+      id,
+      fiber,
+      toJSON: () => ({ [markerKey]: id }),
+    };
+  });
+
+const isPending = (value: unknown): value is PendingData<unknown, unknown> =>
+  Predicate.hasProperty(value, TypeId) && Predicate.hasProperty(value, "fiber");
+
+/** The id of a deferred value, live or dehydrated. */
+const deferredId = (value: unknown): Option.Option<string> =>
+  isPending(value)
+    ? Option.some(value.id)
+    : Predicate.hasProperty(value, markerKey)
+      ? Option.some(String(value[markerKey]))
+      : Option.none();
+
+/** Reduce an error to its tag and message, so it serializes. */
+const dehydrateError = (error: unknown) => ({
+  _tag: Predicate.hasProperty(error, "_tag") ? String(error._tag) : "Error",
+  message: Predicate.hasProperty(error, "message") ? String(error.message) : String(error),
+});
+
+// =============================================================================
+// Await
+// =============================================================================
+
+/**
+ * Render a deferred value once it resolves. Place it under a Suspense
+ * boundary, whose fallback shows while the value is pending.
+ */
+export function Await<A, E>(
+  props: AwaitProps<A, E>,
+): Effect.Effect<VElement, E, AtomRegistry.AtomRegistry> {
+  return Effect.gen(function* () {
+    const registry = yield* AtomRegistry.AtomRegistry;
+    // JSX normalizes children to an array; the render function is its only entry
+    const children = props.children as unknown;
+    const render = (Array.isArray(children) ? children[0] : children) as (value: A) => VElement;
+
+    const id = deferredId(props.resolve);
+    if (Option.isNone(id)) {
+      return yield* Effect.dieMessage("Await: resolve is not a deferred value");
+    }
+
+    // Read via modify: inside a component the registry tracks `get` calls,
+    // and re-rendering on our own writes below would await again.
+    const recorded = Option.fromNullable(
+      registry.modify(settledAtom, (all) => [all[id.value], all]),
+    );
+
+    const settled: Settled = yield* Option.match(recorded, {
+      onSome: Effect.succeed,
+      onNone: () =>
+        isPending(props.resolve)
+          ? Fiber.await(props.resolve.fiber).pipe(
+              Effect.map(
+                Exit.match({
+                  onSuccess: (value): Settled => ({ _tag: "Success", value }),
+                  onFailure: (cause): Settled => ({ _tag: "Failure", error: Cause.squash(cause) }),
+                }),
+              ),
+              Effect.tap((outcome) =>
+                Effect.sync(() =>
+                  registry.modify(settledAtom, (all): [void, Record<string, Settled>] => [
+                    undefined,
+                    {
+                      ...all,
+                      [id.value]:
+                        outcome._tag === "Success"
+                          ? outcome
+                          : { _tag: "Failure", error: dehydrateError(outcome.error) },
+                    },
+                  ]),
+                ),
+              ),
+            )
+          : // Dehydrated, but the server never resolved it: load the route again
+            Effect.serviceOption(Navigator).pipe(
+              Effect.flatMap(
+                Option.match({
+                  onNone: () => Effect.void,
+                  onSome: (navigator) => navigator.revalidate(),
+                }),
+              ),
+              Effect.provideService(AtomRegistry.AtomRegistry, registry),
+              Effect.zipRight(Effect.never),
+            ),
+    });
+
+    if (settled._tag === "Success") return render(settled.value as A);
+    if (props.errorElement) return props.errorElement(settled.error as E);
+    return yield* Effect.fail(settled.error as E);
+  });
+}
@@ -0,0 +1,311 @@
+/**
+ * Fetcher - keyed, reactive form submissions.
+ *
+ * Every submission, from a `<Form>` or a fetcher handle, is tracked under a
+ * key in a single registry atom:
+ * - fetcherAtom(key) re-renders its readers as the submission moves through
+ *   Idle → Pending → Success/Failure
+ * - while Pending, `formData` holds what was submitted, for optimistic UI
+ * - `actionData` holds the last successful action's result
+ * - pendingFetchersAtom lists every in-flight submission, for global spinners
+ *
+ * Fetchers with different keys run concurrently. Resubmitting a key
+ * supersedes its in-flight submission: the earlier one still runs, but only
+ * the latest settles the fetcher.
+ *
+ * Usage:
+ * ```tsx
+ * const LikeButton = ({ postId }: { postId: string }) =>
+ *   Effect.gen(function* () {
+ *     const like = yield* fetcher(`like-${postId}`);
+ *     const { state, formData } = yield* Atom.get(like.atom);
+ *     const liked = Option.exists(formData, (data) => data.get("liked") === "true");
+ *     return (
+ *       <Form fetcherKey={like.key} navigate={false}>
+ *         <button name="liked" value="true" disabled={state._tag === "Pending"}>
+ *           {liked ? "♥" : "♡"}
+ *         </button>
+ *       </Form>
+ *     );
+ *   });
+ *
+ * const GlobalSpinner = () =>
+ *   Effect.gen(function* () {
+ *     const pending = yield* Atom.get(pendingFetchersAtom);
+ *     return pending.length > 0 ? <Spinner /> : null;
+ *   });
+ * ```
+ */
+
+import * as Effect from "effect/Effect";
+import * as Option from "effect/Option";
+import * as Schema from "effect/Schema";
+import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
+import { formValidationError } from "./Form.js";
+import { Navigator } from "./Navigator.js";
+import {
+  RouterHandlers,
+  type RouteAction,
+  type SubmissionResult,
+  type SubmissionState,
+} from "./RouterBuilder.js";
+import { entriesToRecord } from "./utils.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A keyed submission's state, as read from fetcherAtom.
+ */
+export interface Fetcher {
+  readonly key: string;
+  readonly state: SubmissionState;
+  /** The submitted form data while Pending; None otherwise */
+  readonly formData: Option.Option<FormData>;
+  /** Result of the last successful submission; kept while the next one is pending */
+  readonly actionData: Option.Option<unknown>;
+}
+
+/**
+ * A fetcher bound to its key and action, returned by fetcher().
+ */
+export interface FetcherHandle {
+  readonly key: string;
+  /** The fetcher's state; read it to re-render on every transition */
+  readonly atom: Atom.Atom<Fetcher>;
+  /**
+   * Submit form data to the action, then revalidate the current route's
+   * loaders on success. Resolves with the outcome once it settles.
+   */
+  readonly submit: (formData: FormData) => Effect.Effect<SubmissionResult>;
+  /** Forget the fetcher's state, returning it to Idle */
+  readonly reset: Effect.Effect<void>;
+}
+
+// =============================================================================
+// Atoms
+// =============================================================================
+
+// Kept alive: settled fetchers must survive having no readers for a while
+const fetchersAtom = Atom.make<ReadonlyMap<string, Fetcher>>(new Map()).pipe(Atom.keepAlive);
+
+const idle = (key: string): Fetcher => ({
+  key,
+  state: { _tag: "Idle" },
+  formData: Option.none(),
+  actionData: Option.none(),
+});
+
+/**
+ * The state of the fetcher under a key; Idle until something is submitted.
+ */
+export const fetcherAtom = Atom.family((key: string) =>
+  Atom.make((get): Fetcher => get(fetchersAtom).get(key) ?? idle(key)),
+);
+
+/**
+ * Every fetcher with a submission in flight, in the order their keys were
+ * first submitted.
+ */
+export const pendingFetchersAtom: Atom.Atom<ReadonlyArray<Fetcher>> = Atom.make((get) =>
+  [...get(fetchersAtom).values()].filter((f) => f.state._tag === "Pending"),
+);
+
+const update = (
+  registry: AtomRegistry.AtomRegistry["Type"],
+  key: string,
+  f: (fetcher: Fetcher) => Fetcher,
+): void => {
+  const next = new Map(registry.get(fetchersAtom));
+  next.set(key, f(next.get(key) ?? idle(key)));
+  registry.set(fetchersAtom, next);
+};
+
+/** Whether a submission is still the one a fetcher tracks. */
+const isLatest = (
+  registry: AtomRegistry.AtomRegistry["Type"],
+  key: string,
+  formData: FormData,
+): boolean => {
+  const current = registry.get(fetchersAtom).get(key);
+  return current !== undefined && Option.exists(current.formData, (data) => data === formData);
+};
+
+const remove = (registry: AtomRegistry.AtomRegistry["Type"], key: string): void => {
+  const current = registry.get(fetchersAtom);
+  if (!current.has(key)) return;
+  const next = new Map(current);
+  next.delete(key);
+  registry.set(fetchersAtom, next);
+};
+
+// =============================================================================
+// Submissions
+// =============================================================================
+
+/**
+ * Run an action on submitted form data, tracking it under a fetcher key.
+ *
+ * Decode failures settle as a Failure with a FormValidationError, action
+ * errors as a Failure with the error. Resolves with the outcome even when a
+ * newer submission on the same key superseded this one.
+ */
+export const runSubmission = (
+  key: string,
+  action: RouteAction,
+  formData: FormData,
+): Effect.Effect<SubmissionResult, never, AtomRegistry.AtomRegistry> =>
+  trackSubmission(key, action, formData, entriesToRecord(formData));
+
+/**
+ * Run an action on a payload record (a route component's `formAction`),
+ * tracking it under a fetcher key like runSubmission. While Pending, the
+ * fetcher's `formData` holds the payload's fields.
+ */
+export const runPayloadSubmission = (
+  key: string,
+  action: RouteAction,
+  payload: Record<string, unknown>,
+): Effect.Effect<SubmissionResult, never, AtomRegistry.AtomRegistry> =>
+  trackSubmission(key, action, payloadFormData(payload), payload);
+
+/** A payload's fields as FormData: arrays as repeated entries, other values as strings. */
+const payloadFormData = (payload: Record<string, unknown>): FormData => {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(payload)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item === undefined || item === null) continue;
+      formData.append(name, item instanceof Blob ? item : String(item));
+    }
+  }
+  return formData;
+};
+
+/**
+ * Decode `payload` and run the action on it, with the fetcher under `key`
+ * Pending on `formData` until it settles.
+ */
+const trackSubmission = (
+  key: string,
+  action: RouteAction,
+  formData: FormData,
+  payload: unknown,
+): Effect.Effect<SubmissionResult, never, AtomRegistry.AtomRegistry> =>
+  Effect.gen(function* () {
+    const registry = yield* AtomRegistry.AtomRegistry;
+
+    update(registry, key, (current) => ({
+      ...current,
+      state: { _tag: "Pending" },
+      formData: Option.some(formData),
+    }));
+
+    const result = yield* (
+      Schema.decodeUnknown(action.schema)(payload, {
+        errors: "all",
+      }) as Effect.Effect<unknown, unknown>
+    ).pipe(
+      Effect.mapError(formValidationError),
+      Effect.flatMap((decoded) =>
+        action.handler({
+          payload: decoded,
+          reportProgress: (progress) => {
+            if (isLatest(registry, key, formData)) {
+              update(registry, key, (fetcher) => ({
+                ...fetcher,
+                state: { _tag: "Pending", progress },
+              }));
+            }
+          },
+        }),
+      ),
+      Effect.map((data): SubmissionResult => ({ _tag: "Success", data })),
+      Effect.catchAll((error) => Effect.succeed<SubmissionResult>({ _tag: "Failure", error })),
+    );
+
+    // Only the latest submission on a key settles it
+    if (isLatest(registry, key, formData)) {
+      update(registry, key, (fetcher) => ({
+        ...fetcher,
+        state: result,
+        formData: Option.none(),
+        actionData: result._tag === "Success" ? Option.some(result.data) : fetcher.actionData,
+      }));
+    }
+
+    return result;
+  });
+
+/**
+ * Settle a fetcher with an outcome that happened elsewhere, e.g. the
+ * server-side submission a hydrated page was rendered for.
+ */
+export const settleFetcher = (
+  key: string,
+  result: SubmissionResult,
+): Effect.Effect<void, never, AtomRegistry.AtomRegistry> =>
+  Effect.map(AtomRegistry.AtomRegistry, (registry) =>
+    update(registry, key, (fetcher) => ({
+      ...fetcher,
+      state: result,
+      formData: Option.none(),
+      actionData: result._tag === "Success" ? Option.some(result.data) : fetcher.actionData,
+    })),
+  );
+
+/**
+ * Forget a fetcher's state, returning it to Idle.
+ */
+export const resetFetcher = (key: string): Effect.Effect<void, never, AtomRegistry.AtomRegistry> =>
+  Effect.map(AtomRegistry.AtomRegistry, (registry) => remove(registry, key));
+
+/**
+ * Get a fetcher handle for a key. Submits to `action`, or to the current
+ * route's action when omitted.
+ *
+ * Dies when no action is given and the current route has none.
+ */
+export const fetcher = (
+  key: string,
+  action?: RouteAction,
+): Effect.Effect<FetcherHandle, never, Navigator | RouterHandlers | AtomRegistry.AtomRegistry> =>
+  Effect.gen(function* () {
+    const navigator = yield* Navigator;
+    const registry = yield* AtomRegistry.AtomRegistry;
+    const resolved = action ?? Option.getOrUndefined(yield* resolveRouteAction);
+    if (resolved === undefined) {
+      return yield* Effect.dieMessage(`fetcher "${key}": the current route has no action`);
+    }
+
+    return {
+      key,
+      atom: fetcherAtom(key),
+      submit: (formData) =>
+        runSubmission(key, resolved, formData).pipe(
+          Effect.tap((result) =>
+            result._tag === "Success"
+              ? navigator.revalidate({ actionResult: result.data })
+              : Effect.void,
+          ),
+          Effect.provideService(AtomRegistry.AtomRegistry, registry),
+        ),
+      reset: Effect.sync(() => remove(registry, key)),
+    };
+  });
+
+/**
+ * The current route's action, if it has one.
+ */
+export const resolveRouteAction: Effect.Effect<
+  Option.Option<RouteAction>,
+  never,
+  Navigator | RouterHandlers | AtomRegistry.AtomRegistry
+> = Effect.gen(function* () {
+  const navigator = yield* Navigator;
+  const routerHandlers = yield* RouterHandlers;
+  const registry = yield* AtomRegistry.AtomRegistry;
+  return Option.flatMap(registry.get(navigator.currentRoute), (route) =>
+    Option.flatMap(routerHandlers.getHandler(route.routeName), (handler) => handler.action),
+  );
+});
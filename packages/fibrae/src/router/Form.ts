@@ -7,10 +7,15 @@
  * Submission lifecycle:
  * 1. Serialize FormData → plain record
  * 2. Schema.decodeUnknown(PayloadSchema) → typed payload
- * 3. Decode failure → validation error (no action call)
+ * 3. Decode failure → validation error with per-field messages (no action call)
  * 4. Decode success → invoke action Effect
- * 5. State transitions: idle → pending → success/failure
- * 6. If navigate !== false: navigate after success
+ * 5. State transitions: idle → pending → success/failure, tracked as a fetcher
+ *    (see Fetcher.ts) under `fetcherKey`, or a key private to the form
+ * 6. If navigate !== false and navigateTo is set: navigate after success;
+ *    otherwise revalidate the current route's loaders
+ *
+ * Components rendered inside the Form, at any depth, read its state through
+ * FormState.
  *
  * Design: builds VElement directly (no JSX) — consistent with Link.ts pattern.
  */
@@ -19,40 +24,116 @@ import * as Effect from "effect/Effect";
 import * as Schema from "effect/Schema";
 import * as Option from "effect/Option";
 import * as Context from "effect/Context";
+import * as Scope from "effect/Scope";
+import * as ParseResult from "effect/ParseResult";
+import * as Predicate from "effect/Predicate";
 import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
 import { Navigator } from "./Navigator.js";
-import { RouterHandlers, type RouteAction, type SubmissionState } from "./RouterBuilder.js";
-import type { VElement, VChild } from "../shared.js";
+import {
+  RouterHandlers,
+  type RouteAction,
+  type SubmissionResult,
+  type SubmissionState,
+} from "./RouterBuilder.js";
+import { fetcherAtom, resetFetcher, resolveRouteAction, runSubmission } from "./Fetcher.js";
+import { formatFieldPath } from "./utils.js";
+import { ComponentScope, type VElement, type VChild } from "../shared.js";
+import { ContextProvider } from "../components.js";
 
 // =============================================================================
 // Errors
 // =============================================================================
 
+/**
+ * Messages for each invalid field, keyed by the field's name
+ * (e.g. `title`, `items[0].title`).
+ */
+export type FieldErrors = Readonly<Record<string, ReadonlyArray<string>>>;
+
 /**
  * Validation error from schema decode failure on form data.
+ * `fieldErrors` holds every failing field's messages; issues about the
+ * payload as a whole are keyed by "".
  */
 export class FormValidationError extends Schema.TaggedError<FormValidationError>()(
   "FormValidationError",
   {
     message: Schema.String,
+    fieldErrors: Schema.Record({ key: Schema.String, value: Schema.Array(Schema.String) }),
     cause: Schema.optional(Schema.Unknown),
   },
 ) {}
 
+/**
+ * Build the FormValidationError for a failed decode of a form payload.
+ * Decode with `{ errors: "all" }` to report every failing field.
+ */
+export const formValidationError = (cause: unknown): FormValidationError => {
+  const fieldErrors: Record<string, Array<string>> = {};
+  if (ParseResult.isParseError(cause)) {
+    for (const issue of ParseResult.ArrayFormatter.formatErrorSync(cause)) {
+      const name = formatFieldPath(issue.path);
+      (fieldErrors[name] ??= []).push(issue.message);
+    }
+  }
+  return new FormValidationError({ message: "Form validation failed", fieldErrors, cause });
+};
+
+/**
+ * The field errors of a settled submission: those of its FormValidationError,
+ * or none. Checked structurally, so dehydrated errors (plain objects) count.
+ */
+export const submissionFieldErrors = (submission: SubmissionState): FieldErrors =>
+  submission._tag === "Failure" &&
+  Predicate.isTagged(submission.error, "FormValidationError") &&
+  Predicate.hasProperty(submission.error, "fieldErrors") &&
+  Predicate.isRecord(submission.error.fieldErrors)
+    ? (submission.error.fieldErrors as FieldErrors)
+    : {};
+
+/**
+ * A route component's actionData for a submission's outcome: the action's
+ * result, or `{ fieldErrors }` when the payload failed validation.
+ */
+export const submissionActionData = (submission: SubmissionResult): Option.Option<unknown> =>
+  submission._tag === "Success"
+    ? Option.some(submission.data)
+    : Predicate.isTagged(submission.error, "FormValidationError")
+      ? Option.some({ fieldErrors: submissionFieldErrors(submission) })
+      : Option.none();
+
 // =============================================================================
 // Types
 // =============================================================================
 
+/**
+ * What FormState provides: the enclosing Form's submission state, and the
+ * field errors of its last failed validation.
+ */
+export interface FormStateService {
+  readonly state: Atom.Atom<SubmissionState>;
+  readonly fieldErrors: Atom.Atom<FieldErrors>;
+}
+
 /**
  * Service tag for the current form's submission state.
- * Components inside a Form can read this to show loading/error states.
+ * Components rendered inside a Form can read this to show loading/error states.
+ *
+ * ```tsx
+ * const TitleError = () =>
+ *   Effect.gen(function* () {
+ *     const { fieldErrors } = yield* FormState;
+ *     const errors = yield* Atom.get(fieldErrors);
+ *     return errors.title ? <p class="error">{errors.title[0]}</p> : null;
+ *   });
+ *
+ * <Form>
+ *   <input name="title" />
+ *   <TitleError />
+ * </Form>
+ * ```
  */
-export class FormState extends Context.Tag("fibrae/FormState")<
-  FormState,
-  {
-    readonly state: Atom.Writable<SubmissionState, SubmissionState>;
-  }
->() {}
+export class FormState extends Context.Tag("fibrae/FormState")<FormState, FormStateService>() {}
 
 /**
  * Props for the Form component.
@@ -64,6 +145,18 @@ export interface FormProps {
   readonly schema?: Schema.Schema.Any;
   /** HTTP method attribute (default: "post"). */
   readonly method?: string;
+  /**
+   * Encoding of the no-JavaScript POST. Set "multipart/form-data" for forms
+   * with file inputs, so the browser posts the files too.
+   */
+  readonly encType?: string;
+  /**
+   * Track submissions under this fetcher key, so fetcherAtom(key) can render
+   * pending and optimistic state. Without one, the form's state is private to
+   * it and kept across re-renders; a Form yielded through `h()` runs as part of
+   * its parent, so give each one in the same component a key.
+   */
+  readonly fetcherKey?: string;
   /** When false, skip navigation after success (fetcher-style). Default: true. */
   readonly navigate?: boolean;
   /** Route name to navigate to after success. If unset, stays on current route. */
@@ -81,35 +174,40 @@ export interface FormProps {
 }
 
 // =============================================================================
-// Helpers
+// Form Component
 // =============================================================================
 
-/**
- * Serialize FormData into a plain record.
- * Multiple values for the same key become arrays.
- */
-const formDataToRecord = (formData: FormData): Record<string, unknown> => {
-  const record: Record<string, unknown> = {};
-  formData.forEach((value, key) => {
-    const existing = record[key];
-    if (existing !== undefined) {
-      record[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
-    } else {
-      record[key] = value;
-    }
-  });
-  return record;
+let nextFormId = 0;
+
+// The fetcher keys of forms without a fetcherKey, by component instance
+const formKeys = new WeakMap<ComponentScope["Type"], string>();
+
+/** The fetcher key of a form's component instance; a new one outside components. */
+const instanceKey = (component: Option.Option<ComponentScope["Type"]>): string => {
+  const existing = Option.flatMapNullable(component, (c) => formKeys.get(c));
+  if (Option.isSome(existing)) return existing.value;
+  const key = `form-${nextFormId++}`;
+  if (Option.isSome(component)) formKeys.set(component.value, key);
+  return key;
 };
 
-// =============================================================================
-// Form Component
-// =============================================================================
+/** FormState for the fetcher a form submits through. */
+const formStateFor = Atom.family(
+  (key: string): FormStateService => ({
+    state: Atom.make((get) => get(fetcherAtom(key)).state),
+    fieldErrors: Atom.make((get) => submissionFieldErrors(get(fetcherAtom(key)).state)),
+  }),
+);
 
 /**
  * Create a Form component for the current route context.
  *
  * Wires to the route's action by default. Accepts explicit action for fetcher-style.
  *
+ * Renders a real `<form method="post">`: before hydration, or without JavaScript,
+ * the browser posts it to the page's URL, where actionHandler runs the route's
+ * action on the server. Explicit actions only run in the browser.
+ *
  * Usage:
  * ```typescript
  * // Route action form — uses route's action config
@@ -123,6 +221,11 @@ const formDataToRecord = (formData: FormData): Record<string, unknown> => {
  *   <input name="query" />
  *   <button type="submit">Search</button>
  * </Form>
+ *
+ * // Keyed fetcher — fetcherAtom("newsletter") renders its pending state elsewhere
+ * <Form fetcherKey="newsletter" navigate={false}>
+ *   <input name="email" />
+ * </Form>
  * ```
  */
 export function Form(
@@ -130,16 +233,30 @@ export function Form(
 ): Effect.Effect<VElement, never, Navigator | RouterHandlers | AtomRegistry.AtomRegistry> {
   return Effect.gen(function* () {
     const navigator = yield* Navigator;
-    const routerHandlers = yield* RouterHandlers;
     const registry = yield* AtomRegistry.AtomRegistry;
 
     // Resolve the action: explicit prop or from current route
     const resolvedAction: Option.Option<RouteAction> = props.action
       ? Option.some(props.action)
-      : yield* resolveRouteAction(navigator, routerHandlers, registry);
+      : yield* resolveRouteAction;
 
-    // Create submission state atom for this form instance
-    const stateAtom = Atom.make<SubmissionState>({ _tag: "Idle" });
+    // A form without a fetcherKey keeps one for its component instance, and
+    // forgets its submissions when it unmounts
+    const component = yield* Effect.serviceOption(ComponentScope);
+    const fetcherKey = props.fetcherKey ?? instanceKey(component);
+    if (props.fetcherKey === undefined && Option.isSome(component)) {
+      const service = component.value;
+      const { scope } = service;
+      // Only the current render's scope closes with the component
+      yield* Scope.addFinalizer(
+        scope,
+        Effect.suspend(() =>
+          service.scope === scope ? resetFetcher(fetcherKey) : Effect.void,
+        ).pipe(Effect.provideService(AtomRegistry.AtomRegistry, registry)),
+      );
+    }
+
+    const formState = formStateFor(fetcherKey);
 
     // Build the submit handler
     const handleSubmit = (e: Event) => {
@@ -147,7 +264,6 @@ export function Form(
 
       const form = e.target as HTMLFormElement;
       const formData = new FormData(form);
-      const rawPayload = formDataToRecord(formData);
 
       return Effect.gen(function* () {
         if (Option.isNone(resolvedAction)) {
@@ -155,43 +271,21 @@ export function Form(
           return;
         }
 
-        const routeAction = resolvedAction.value;
-
-        // Transition to pending
-        registry.set(stateAtom, { _tag: "Pending" });
-
-        // Decode payload via schema
-        const decoded = yield* (
-          Schema.decodeUnknown(routeAction.schema)(rawPayload) as Effect.Effect<unknown, unknown>
-        ).pipe(
-          Effect.mapError(
-            (cause) =>
-              new FormValidationError({
-                message: "Form validation failed",
-                cause,
-              }),
-          ),
-        );
-
-        // Invoke action
-        const result = yield* routeAction.handler({ payload: decoded });
+        const result = yield* runSubmission(fetcherKey, resolvedAction.value, formData);
+        if (result._tag === "Failure") {
+          if (props.onError) props.onError(result.error);
+          return;
+        }
 
-        // Success
-        registry.set(stateAtom, { _tag: "Success", data: result });
-        if (props.onSuccess) props.onSuccess(result);
+        if (props.onSuccess) props.onSuccess(result.data);
 
-        // Navigate after success (unless disabled)
+        // Navigate after success (unless disabled), or rerun the current route's loaders
         if (props.navigate !== false && props.navigateTo) {
           yield* navigator.go(props.navigateTo);
+        } else {
+          yield* navigator.revalidate({ actionResult: result.data });
         }
-      }).pipe(
-        Effect.catchAll((error) =>
-          Effect.sync(() => {
-            registry.set(stateAtom, { _tag: "Failure", error });
-            if (props.onError) props.onError(error);
-          }),
-        ),
-      );
+      }).pipe(Effect.provideService(AtomRegistry.AtomRegistry, registry));
     };
 
     // Normalize children
@@ -205,33 +299,24 @@ export function Form(
       type: "form",
       props: {
         method: props.method ?? "post",
+        enctype: props.encType,
         class: props.class || undefined,
         "data-cy": props["data-cy"],
         onSubmit: handleSubmit,
-        children: normalizedChildren.filter(
-          (child) => child !== null && child !== undefined && child !== false && child !== true,
-        ) as VElement[],
+        // Every component rendered inside the form yields its FormState
+        children: [
+          {
+            type: ContextProvider as VElement["type"],
+            props: {
+              context: Context.make(FormState, formState),
+              children: normalizedChildren.filter(
+                (child) =>
+                  child !== null && child !== undefined && child !== false && child !== true,
+              ) as VElement[],
+            },
+          },
+        ],
       },
     };
   });
 }
-
-/**
- * Resolve the action from the current route.
- * Reads Navigator.currentRoute to find the matched route's action.
- */
-function resolveRouteAction(
-  navigator: Navigator["Type"],
-  routerHandlers: RouterHandlers["Type"],
-  registry: AtomRegistry.AtomRegistry["Type"],
-): Effect.Effect<Option.Option<RouteAction>> {
-  return Effect.sync(() => {
-    const currentRoute = registry.get(navigator.currentRoute);
-    if (Option.isNone(currentRoute)) return Option.none();
-
-    const handler = routerHandlers.getHandler(currentRoute.value.routeName);
-    if (Option.isNone(handler)) return Option.none();
-
-    return handler.value.action;
-  });
-}
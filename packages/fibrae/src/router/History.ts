@@ -2,22 +2,28 @@
  * History service - track and manage browser navigation history.
  *
  * Features:
- * - Current location (pathname, search, hash, state)
+ * - Current location (pathname, search, hash, state) and its entry's key
  * - Navigation methods (push, replace, back, forward, go)
+ * - Blockers consulted before every navigation (unsaved-changes guards)
  * - BrowserHistoryLive - real browser history with popstate handling
- * - MemoryHistoryLive - in-memory history for testing/SSR
+ * - HashHistoryLive - browser history with the app path in the URL hash
+ * - MemoryHistoryLive - in-memory entries stack for testing/SSR/embeds
  * - Cleanly manages event listeners with Effect finalizers
  *
  * Design:
  * - Uses Atom for reactive location updates
- * - Browser history: listens to window.popstate for back/forward
+ * - Browser history: listens to window.popstate for back/forward, and keeps
+ *   each entry's index in history.state to undo blocked pops
  * - Memory history: in-memory stack, useful for SSR/testing
  * - All navigation returns Effects, integrates with Effect runtime
  */
 
 import * as Effect from "effect/Effect";
 import * as Context from "effect/Context";
+import * as Exit from "effect/Exit";
+import * as Option from "effect/Option";
 import * as Layer from "effect/Layer";
+import * as Scope from "effect/Scope";
 import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
 
 // =============================================================================
@@ -32,8 +38,29 @@ export interface HistoryLocation {
   readonly search: string;
   readonly hash: string;
   readonly state?: unknown;
+  /**
+   * Identifies the history entry: kept across back/forward and reloads, new for
+   * every push and replace. "default" for the entry a browser app started on.
+   */
+  readonly key: string;
+}
+
+/**
+ * A navigation about to happen, as seen by blockers.
+ */
+export interface HistoryTransition {
+  /** push / replace, a pop (back, forward, go) or a full-page exit */
+  readonly action: "push" | "replace" | "pop" | "unload";
+  readonly current: HistoryLocation;
+  /** Where the navigation leads; None when the page unloads */
+  readonly next: Option.Option<HistoryLocation>;
 }
 
+/**
+ * Decides whether a navigation is blocked: succeed with true to stay.
+ */
+export type Blocker = (transition: HistoryTransition) => Effect.Effect<boolean>;
+
 /**
  * History service interface.
  * Provides location access and navigation methods.
@@ -54,6 +81,12 @@ export interface HistoryService {
    */
   readonly replace: (path: string, state?: unknown) => Effect.Effect<void>;
 
+  /**
+   * The URL that shows a path ("/posts?page=2") in this history's mode, for
+   * anchors' href: the path itself, or "#/posts?page=2" for hash history.
+   */
+  readonly createHref: (path: string) => string;
+
   /**
    * Go back in history.
    */
@@ -70,9 +103,24 @@ export interface HistoryService {
   readonly go: (n: number) => Effect.Effect<void, never, never>;
 
   /**
-   * Check if can go back (optional, simplified version).
+   * Check if there is an entry to go back to.
    */
   readonly canGoBack: Effect.Effect<boolean, never, never>;
+
+  /**
+   * Check if there is an entry to go forward to. Browser histories only know
+   * the entries of the current page load: after a reload, forward entries
+   * left behind are not counted.
+   */
+  readonly canGoForward: Effect.Effect<boolean, never, never>;
+
+  /**
+   * Register a blocker for the lifetime of the scope. Every blocker is
+   * consulted before a push, replace or pop, and the navigation is dropped if
+   * any of them blocks. Browser history also asks them (synchronously) before
+   * the page unloads.
+   */
+  readonly block: (blocker: Blocker) => Effect.Effect<void, never, Scope.Scope>;
 }
 
 // =============================================================================
@@ -89,28 +137,81 @@ export class History extends Context.Tag("fibrae/History")<History, HistoryServi
 // =============================================================================
 
 /**
- * Get current browser location.
+ * The blockers registered with a history instance.
  */
-function getBrowserLocation(): HistoryLocation {
+function makeBlockers() {
+  const blockers = new Set<{ readonly blocker: Blocker }>();
   return {
-    pathname: window.location.pathname,
-    search: window.location.search,
-    hash: window.location.hash,
-    state: window.history.state,
+    get size() {
+      return blockers.size;
+    },
+    block: (blocker: Blocker): Effect.Effect<void, never, Scope.Scope> =>
+      Effect.acquireRelease(
+        Effect.sync(() => {
+          // Wrapped so the same function can be registered twice
+          const entry = { blocker };
+          blockers.add(entry);
+          return entry;
+        }),
+        (entry) => Effect.sync(() => blockers.delete(entry)),
+      ).pipe(Effect.asVoid),
+    isBlocked: (transition: HistoryTransition): Effect.Effect<boolean> =>
+      Effect.exists([...blockers], ({ blocker }) => blocker(transition)),
   };
 }
 
 /**
- * Parse path into location object.
+ * What browser history stores in history.state: the entry's index, to find
+ * how far a pop moved, its key, and the app's own state.
+ */
+interface BrowserEntry {
+  readonly fibraeIndex: number;
+  readonly fibraeKey: string;
+  readonly state: unknown;
+}
+
+const isBrowserEntry = (value: unknown): value is BrowserEntry =>
+  typeof value === "object" && value !== null && "fibraeIndex" in value;
+
+/**
+ * Where a window-backed history keeps the app's path in the URL.
+ */
+interface UrlMode {
+  /** The app path ("/posts?sort=date#intro") in the current URL */
+  readonly read: () => string;
+  /** The URL to show for an app path */
+  readonly href: (path: string) => string;
+}
+
+/** Pathname-based URLs: "/posts?sort=date#intro". */
+const pathMode: UrlMode = {
+  read: () => `${window.location.pathname}${window.location.search}${window.location.hash}`,
+  href: (path) => path,
+};
+
+/** URLs with the app path in the hash: "index.html#/posts?sort=date". */
+const hashMode: UrlMode = {
+  read: () => window.location.hash.slice(1) || "/",
+  href: (path) => `#${path}`,
+};
+
+/** A key for a new history entry. */
+const makeKey = (): string => Math.random().toString(36).slice(2, 10);
+
+/**
+ * Parse path into location object, keyed as a new entry unless a key is given.
  */
-function parseLocation(path: string, state?: unknown): HistoryLocation {
+function parseLocation(path: string, state?: unknown, key: string = makeKey()): HistoryLocation {
   try {
-    const url = new URL(path, window.location.origin);
+    // Any origin will do outside the browser (memory history on the server)
+    const origin = typeof window === "undefined" ? "http://localhost" : window.location.origin;
+    const url = new URL(path, origin);
     return {
       pathname: url.pathname,
       search: url.search,
       hash: url.hash,
       state,
+      key,
     };
   } catch {
     return {
@@ -118,95 +219,198 @@ function parseLocation(path: string, state?: unknown): HistoryLocation {
       search: "",
       hash: "",
       state,
+      key,
     };
   }
 }
 
 /**
- * Browser history layer - real browser history with popstate handling.
+ * History backed by window.history, shared by BrowserHistoryLive and HashHistoryLive.
  *
- * Features:
  * - Tracks current location in an Atom
  * - Listens to popstate for back/forward
  * - Provides push/replace/go navigation methods
- * - Cleanly removes event listener on scope close
+ * - Consults blockers before navigating; a blocked pop is undone by going
+ *   back to the entry it left, and a blocked unload prompts the user
+ * - Entries the app didn't create (e.g. a plain `<a href="#section">`) are
+ *   indexed and keyed when popstate reports them
  * - Properly cleans up event listeners on scope close
  */
-/* is-tree-shakable-suppress */
-export const BrowserHistoryLive: Layer.Layer<History, never, AtomRegistry.AtomRegistry> =
-  Layer.scoped(
-    History,
-    Effect.gen(function* () {
-      const registry = yield* AtomRegistry.AtomRegistry;
-
-      // Create location atom with initial browser location
-      const locationAtom = Atom.make(getBrowserLocation());
+const makeWindowHistory = (
+  mode: UrlMode,
+): Effect.Effect<HistoryService, never, AtomRegistry.AtomRegistry | Scope.Scope> =>
+  Effect.gen(function* () {
+    const registry = yield* AtomRegistry.AtomRegistry;
+    const blockers = makeBlockers();
+
+    // Index the entry the app started on; pops compare indexes to find their delta
+    const initialEntry: unknown = window.history.state;
+    let historyIndex = isBrowserEntry(initialEntry) ? initialEntry.fibraeIndex : 0;
+    // The last entry of the stack, as far as this page load has seen
+    let lastIndex = historyIndex;
+
+    // Stamp the current entry with its index and key, keeping the app's state
+    const stamp = (index: number, key: string): HistoryLocation => {
+      const entry: unknown = window.history.state;
+      const state = isBrowserEntry(entry) ? entry.state : entry;
+      window.history.replaceState(
+        { fibraeIndex: index, fibraeKey: key, state } satisfies BrowserEntry,
+        "",
+      );
+      return parseLocation(mode.read(), state, key);
+    };
 
-      // Subscribe to popstate for browser back/forward
-      const handlePopState = () => {
-        registry.set(locationAtom, getBrowserLocation());
+    // Create location atom with initial browser location
+    const locationAtom = Atom.make(
+      stamp(historyIndex, isBrowserEntry(initialEntry) ? initialEntry.fibraeKey : "default"),
+    );
+
+    // Set when going back to the entry a blocked pop left, to skip its popstate
+    let restoring = false;
+
+    // Subscribe to popstate for browser back/forward. The URL has already
+    // changed, so a blocked pop goes back the way it came.
+    const handlePopState = () => {
+      if (restoring) {
+        restoring = false;
+        return;
+      }
+      const entry: unknown = window.history.state;
+      const isNew = !isBrowserEntry(entry);
+      const nextIndex = isNew ? historyIndex + 1 : entry.fibraeIndex;
+      const next = isNew
+        ? stamp(nextIndex, makeKey())
+        : parseLocation(mode.read(), entry.state, entry.fibraeKey);
+      const apply = () => {
+        historyIndex = nextIndex;
+        lastIndex = isNew ? nextIndex : Math.max(lastIndex, nextIndex);
+        registry.set(locationAtom, next);
       };
+      if (blockers.size === 0) return apply();
 
-      window.addEventListener("popstate", handlePopState);
-
-      // Cleanup on scope close
-      yield* Effect.addFinalizer(() =>
-        Effect.sync(() => {
-          window.removeEventListener("popstate", handlePopState);
+      const transition: HistoryTransition = {
+        action: "pop",
+        current: registry.get(locationAtom),
+        next: Option.some(next),
+      };
+      Effect.runFork(
+        Effect.map(blockers.isBlocked(transition), (blocked) => {
+          if (!blocked) return apply();
+          restoring = true;
+          window.history.go(historyIndex - nextIndex);
         }),
       );
+    };
 
-      // Track history index for canGoBack (simplified approach)
-      let historyIndex = 0;
-
-      const service: HistoryService = {
-        location: locationAtom,
-
-        push: (path, state) =>
-          Effect.sync(() => {
-            const location = parseLocation(path, state);
-            const href = `${location.pathname}${location.search}${location.hash}`;
-            window.history.pushState(state, "", href);
-            historyIndex++;
-            registry.set(locationAtom, {
-              ...location,
-              state,
-            });
-          }),
-
-        replace: (path, state) =>
-          Effect.sync(() => {
-            const location = parseLocation(path, state);
-            const href = `${location.pathname}${location.search}${location.hash}`;
-            window.history.replaceState(state, "", href);
-            registry.set(locationAtom, {
-              ...location,
-              state,
-            });
-          }),
-
-        back: Effect.sync(() => {
-          window.history.back();
-          // Note: popstate handler will update location
+    // Blockers are asked synchronously; one that needs to wait blocks
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (blockers.size === 0) return;
+      const exit = Effect.runSyncExit(
+        blockers.isBlocked({
+          action: "unload",
+          current: registry.get(locationAtom),
+          next: Option.none(),
         }),
+      );
+      if (Exit.isFailure(exit) || exit.value) {
+        event.preventDefault();
+        // Legacy browsers prompt only when returnValue is set
+        event.returnValue = "";
+      }
+    };
 
-        forward: Effect.sync(() => {
-          window.history.forward();
+    window.addEventListener("popstate", handlePopState);
+    window.addEventListener("beforeunload", handleBeforeUnload);
+
+    // Cleanup on scope close
+    yield* Effect.addFinalizer(() =>
+      Effect.sync(() => {
+        window.removeEventListener("popstate", handlePopState);
+        window.removeEventListener("beforeunload", handleBeforeUnload);
+      }),
+    );
+
+    // Push or replace an entry unless a blocker stops it
+    const navigate = (action: "push" | "replace", path: string, state: unknown) =>
+      Effect.gen(function* () {
+        const location = parseLocation(path, state);
+        const blocked = yield* blockers.isBlocked({
+          action,
+          current: registry.get(locationAtom),
+          next: Option.some(location),
+        });
+        if (blocked) return;
+
+        const href = mode.href(`${location.pathname}${location.search}${location.hash}`);
+        if (action === "push") {
+          historyIndex++;
+          lastIndex = historyIndex;
+        }
+        const entry: BrowserEntry = { fibraeIndex: historyIndex, fibraeKey: location.key, state };
+        if (action === "push") {
+          window.history.pushState(entry, "", href);
+        } else {
+          window.history.replaceState(entry, "", href);
+        }
+        registry.set(locationAtom, location);
+      });
+
+    const service: HistoryService = {
+      location: locationAtom,
+
+      push: (path, state) => navigate("push", path, state),
+
+      replace: (path, state) => navigate("replace", path, state),
+
+      createHref: mode.href,
+
+      back: Effect.sync(() => {
+        window.history.back();
+        // Note: popstate handler will update location
+      }),
+
+      forward: Effect.sync(() => {
+        window.history.forward();
+        // Note: popstate handler will update location
+      }),
+
+      go: (n) =>
+        Effect.sync(() => {
+          window.history.go(n);
           // Note: popstate handler will update location
         }),
 
-        go: (n) =>
-          Effect.sync(() => {
-            window.history.go(n);
-            // Note: popstate handler will update location
-          }),
+      canGoBack: Effect.sync(() => historyIndex > 0),
 
-        canGoBack: Effect.sync(() => historyIndex > 0),
-      };
+      canGoForward: Effect.sync(() => historyIndex < lastIndex),
 
-      return service;
-    }),
-  );
+      block: blockers.block,
+    };
+
+    return service;
+  });
+
+/**
+ * Browser history layer - real browser history with pathname-based URLs
+ * ("/posts/42?sort=date"). The server must answer every app path with the app.
+ */
+/* is-tree-shakable-suppress */
+export const BrowserHistoryLive: Layer.Layer<History, never, AtomRegistry.AtomRegistry> =
+  Layer.scoped(History, makeWindowHistory(pathMode));
+
+/**
+ * Hash history layer - real browser history with the app path in the URL's
+ * hash ("index.html#/posts/42?sort=date").
+ *
+ * For static hosts without rewrite rules, iframes and file:// pages: the
+ * document URL never changes, so the server only ever serves one file.
+ * An in-page anchor is part of the app path ("#/docs#install").
+ */
+/* is-tree-shakable-suppress */
+export const HashHistoryLive: Layer.Layer<History, never, AtomRegistry.AtomRegistry> = Layer.scoped(
+  History,
+  makeWindowHistory(hashMode),
+);
 
 // =============================================================================
 // Memory History Implementation
@@ -224,17 +428,26 @@ export interface MemoryHistoryOptions {
   readonly initialHash?: string;
   /** Initial state (defaults to undefined) */
   readonly initialState?: unknown;
+  /**
+   * Start with a stack of entries instead of one ("/posts?page=2#top" paths),
+   * oldest first. The initial* location options are ignored.
+   */
+  readonly initialEntries?: ReadonlyArray<string>;
+  /** Index of the current entry in initialEntries (defaults to the last one) */
+  readonly initialIndex?: number;
 }
 
 /**
- * Create a memory history layer - useful for testing/SSR.
+ * Create a memory history layer - useful for testing/SSR and embedded widgets.
  *
  * Features:
- * - In-memory navigation stack
+ * - In-memory entries stack with a current index
  * - Tracks current location in an Atom
  * - No browser API usage (safe for SSR/testing)
- * - Supports push/replace/back/forward/go navigation
- * - Optional initial location/state configuration
+ * - Supports push/replace/back/forward/go navigation; going past either end
+ *   of the stack does nothing, like the browser
+ * - Consults blockers before every navigation
+ * - Optional initial location/state or entries stack configuration
  */
 export function MemoryHistoryLive(
   options: MemoryHistoryOptions = {},
@@ -244,25 +457,51 @@ export function MemoryHistoryLive(
     Effect.gen(function* () {
       const registry = yield* AtomRegistry.AtomRegistry;
 
-      // Create location atom with initial location
-      const initialLocation: HistoryLocation = {
-        pathname: options.initialPathname ?? "/",
-        search: options.initialSearch ?? "",
-        hash: options.initialHash ?? "",
-        state: options.initialState,
-      };
-      const locationAtom = Atom.make(initialLocation);
-
       // Track history stack for back/forward
-      const historyStack: HistoryLocation[] = [initialLocation];
-      let historyIndex = 0;
+      const historyStack: HistoryLocation[] =
+        options.initialEntries && options.initialEntries.length > 0
+          ? options.initialEntries.map((path) => parseLocation(path))
+          : [
+              {
+                pathname: options.initialPathname ?? "/",
+                search: options.initialSearch ?? "",
+                hash: options.initialHash ?? "",
+                state: options.initialState,
+                key: "default",
+              },
+            ];
+      let historyIndex = Math.min(
+        Math.max(options.initialIndex ?? historyStack.length - 1, 0),
+        historyStack.length - 1,
+      );
+      const blockers = makeBlockers();
+
+      // Create location atom with initial location
+      const locationAtom = Atom.make(historyStack[historyIndex]);
+
+      const isBlocked = (action: HistoryTransition["action"], next: HistoryLocation) =>
+        blockers.isBlocked({
+          action,
+          current: historyStack[historyIndex],
+          next: Option.some(next),
+        });
+
+      // Move to another entry unless out of range or blocked
+      const goTo = (newIndex: number) =>
+        Effect.gen(function* () {
+          if (newIndex < 0 || newIndex >= historyStack.length) return;
+          if (yield* isBlocked("pop", historyStack[newIndex])) return;
+          historyIndex = newIndex;
+          registry.set(locationAtom, historyStack[historyIndex]);
+        });
 
       const service: HistoryService = {
         location: locationAtom,
 
         push: (path, state) =>
-          Effect.sync(() => {
+          Effect.gen(function* () {
             const location = parseLocation(path, state);
+            if (yield* isBlocked("push", location)) return;
             // Remove entries after current index
             historyStack.splice(historyIndex + 1);
             // Add new entry
@@ -272,37 +511,27 @@ export function MemoryHistoryLive(
           }),
 
         replace: (path, state) =>
-          Effect.sync(() => {
+          Effect.gen(function* () {
             const location = parseLocation(path, state);
+            if (yield* isBlocked("replace", location)) return;
             // Replace current entry
             historyStack[historyIndex] = location;
             registry.set(locationAtom, location);
           }),
 
-        back: Effect.sync(() => {
-          if (historyIndex > 0) {
-            historyIndex--;
-            registry.set(locationAtom, historyStack[historyIndex]);
-          }
-        }),
+        createHref: (path) => path,
 
-        forward: Effect.sync(() => {
-          if (historyIndex < historyStack.length - 1) {
-            historyIndex++;
-            registry.set(locationAtom, historyStack[historyIndex]);
-          }
-        }),
+        back: Effect.suspend(() => goTo(historyIndex - 1)),
 
-        go: (n) =>
-          Effect.sync(() => {
-            const newIndex = historyIndex + n;
-            if (newIndex >= 0 && newIndex < historyStack.length) {
-              historyIndex = newIndex;
-              registry.set(locationAtom, historyStack[historyIndex]);
-            }
-          }),
+        forward: Effect.suspend(() => goTo(historyIndex + 1)),
+
+        go: (n) => Effect.suspend(() => goTo(historyIndex + n)),
 
         canGoBack: Effect.sync(() => historyIndex > 0),
+
+        canGoForward: Effect.sync(() => historyIndex < historyStack.length - 1),
+
+        block: blockers.block,
       };
 
       return service;
@@ -6,48 +6,79 @@
  * - <Link href={`/posts/${id}`}>text</Link>
  * - <Link href="/search" search={{ q: "effect" }}>text</Link>
  * - <Link href="/posts" replace>text</Link>
+ * - <Link href="/settings/billing" preventScrollReset>text</Link>
+ * - <Link href="/posts" preload="intent">text</Link>
+ * - <Link to="post" params={{ id: 42 }}>text</Link>
  *
- * Design: href is passed through directly (works with SSR). onClick prevents
- * default and uses Navigator for SPA navigation.
+ * Design: href is passed through directly (works with SSR); a route target
+ * (`to`/`params`) is built into one the way Navigator.navigate does. onClick
+ * prevents default and uses Navigator for SPA navigation. Preloading fills the
+ * LoaderCache, so it does nothing unless one is provided.
  */
 
 // eslint-disable-next-line no-unused-vars -- jsx is used by the JSX transform (jsxFactory)
 import { jsx } from "../jsx-runtime/index.js";
 import * as Effect from "effect/Effect";
+import * as Runtime from "effect/Runtime";
 import { Registry as AtomRegistry } from "@effect-atom/atom";
 import { Navigator } from "./Navigator.js";
+import { preloadRoute } from "./LoaderCache.js";
+import { setRef } from "../fiber-commit.js";
 import type { VElement, VChild } from "../shared.js";
-import { buildSearchString } from "./utils.js";
-import type { ValidHref } from "./register.js";
+import { buildSearchString, resolveNavigateTarget } from "./utils.js";
+import type { RouteError } from "./Route.js";
+import type { NavigateTarget, ValidHref } from "./register.js";
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/**
+ * When Link preloads its target route's loaders:
+ * - "intent": on hover or focus
+ * - "viewport": when the link scrolls into view
+ * - "render": as soon as the link renders
+ */
+export type LinkPreload = "intent" | "viewport" | "render";
+
 /**
  * Props for the Link component.
- * `href` is validated against registered route paths via RegisteredRouter.
+ * `href` is validated against registered route paths via RegisteredRouter;
+ * `to` / `params` / `search` against the named route's types.
  */
 /** Props handled by Link — omitted from the passthrough anchor attributes. */
 type LinkOwnProps = {
-  /** Path to navigate to — validated against registered route patterns */
-  readonly href: ValidHref;
-  /** Search/query parameters */
-  readonly search?: Record<string, unknown>;
   /** Use history.replace instead of push */
   readonly replace?: boolean;
   /** Enable View Transitions API for this navigation (CSS-driven animations) */
   readonly viewTransition?: boolean;
+  /** Keep the scroll position instead of scrolling to the top or `#hash` target */
+  readonly preventScrollReset?: boolean;
+  /** Preload the target route's loaders into the LoaderCache ahead of navigation */
+  readonly preload?: LinkPreload;
   /** Active class name (default: "active") */
   readonly activeClass?: string;
   /** Children to render inside the anchor (already normalized by JSX runtime) */
   readonly children?: VChild;
 };
 
+/** Link to a path. */
+type HrefTarget = {
+  /** Path to navigate to — validated against registered route patterns */
+  readonly href: ValidHref;
+  /** Search/query parameters */
+  readonly search?: Record<string, unknown>;
+  readonly to?: never;
+  readonly params?: never;
+};
+
+/** Link to a route by name, with its params and search params. */
+type RouteTarget = NavigateTarget & { readonly href?: never };
+
 /** Anchor attributes that Link doesn't override — class, data-*, aria-*, etc. */
 type AnchorPassthroughProps = Omit<JSX.IntrinsicElements["a"], "href" | "onClick" | "children">;
 
-export type LinkProps = LinkOwnProps & AnchorPassthroughProps;
+export type LinkProps = (HrefTarget | RouteTarget) & LinkOwnProps & AnchorPassthroughProps;
 
 // =============================================================================
 // Link Component
@@ -61,20 +92,31 @@ export type LinkProps = LinkOwnProps & AnchorPassthroughProps;
  * <Link href="/posts">Posts</Link>
  * <Link href={`/posts/${id}`}>View Post</Link>
  * // <Link href="/typo" /> — compile-time error (with RegisteredRouter)
+ * <Link href="/posts" preload="intent">Posts</Link>
+ * <Link to="post" params={{ id }}>View Post</Link>
+ * // <Link to="post" /> — compile-time error: missing params (with RegisteredRouter)
  * ```
+ *
+ * Fails with RouteError when a route target can't be built.
  */
 export function Link(
   props: LinkProps,
-): Effect.Effect<VElement, never, Navigator | AtomRegistry.AtomRegistry> {
+): Effect.Effect<VElement, RouteError, Navigator | AtomRegistry.AtomRegistry> {
   return Effect.gen(function* () {
     const navigator = yield* Navigator;
+    const runtime = yield* Effect.runtime<never>();
 
-    // Build full href with basePath and search params
-    const searchString = props.search ? buildSearchString(props.search) : "";
-    const fullHref = `${navigator.basePath}${props.href}${searchString}`;
+    // Resolve a route target to its path and encoded search params
+    const { href, search } =
+      props.to === undefined
+        ? { href: props.href, search: props.search ?? {} }
+        : yield* resolveNavigateTarget(navigator.router, props);
+
+    // Build full href with basePath and search params, as History shows it
+    const fullHref = navigator.createHref(`${href}${buildSearchString(search)}`);
 
     // Active state: currentPathname is already basePath-stripped by Navigator
-    const isActive = navigator.currentPathname === props.href;
+    const isActive = navigator.currentPathname === href;
 
     // Build class string
     const activeClass = props.activeClass ?? "active";
@@ -95,12 +137,56 @@ export function Link(
       if (typeof userOnClick === "function") {
         userOnClick(e);
       }
-      return navigator.go(props.href, {
-        search: props.search,
+      return navigator.go(href, {
+        search,
         replace: props.replace,
         viewTransition: props.viewTransition,
+        preventScrollReset: props.preventScrollReset,
+      });
+    };
+
+    // Preload the target route's loaders (no-op without a LoaderCache)
+    const preload = preloadRoute(href, search).pipe(Effect.provideService(Navigator, navigator));
+
+    if (props.preload === "render") {
+      yield* Effect.forkDaemon(preload);
+    }
+
+    // Run a user event handler, then preload — keeping the user's Effect if it returned one
+    const withPreload =
+      (userHandler: unknown) =>
+      (e: Event): Effect.Effect<unknown, unknown> => {
+        const result = typeof userHandler === "function" ? userHandler(e) : undefined;
+        return Effect.isEffect(result)
+          ? Effect.zipRight(result as Effect.Effect<unknown, unknown>, preload)
+          : preload;
+      };
+
+    const userProps = props as Record<string, unknown>;
+    const intentHandlers =
+      props.preload === "intent"
+        ? {
+            onMouseEnter: withPreload(userProps.onmouseenter ?? userProps.onMouseEnter),
+            onFocus: withPreload(userProps.onfocus ?? userProps.onFocus),
+          }
+        : {};
+
+    // Observe the anchor and preload once it enters the viewport
+    let observer: IntersectionObserver | undefined;
+    const viewportRef = (node: Node | null) => {
+      setRef(userProps.ref, node);
+      observer?.disconnect();
+      observer = undefined;
+      if (!node || typeof IntersectionObserver === "undefined") return;
+      observer = new IntersectionObserver((entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer?.disconnect();
+          Runtime.runFork(runtime)(preload);
+        }
       });
+      observer.observe(node as Element);
     };
+    const viewportProps = props.preload === "viewport" ? { ref: viewportRef } : {};
 
     const normalizedChildren = props.children
       ? Array.isArray(props.children)
@@ -112,8 +198,12 @@ export function Link(
     const {
       href: _href,
       search: _search,
+      to: _to,
+      params: _params,
       replace: _replace,
       viewTransition: _viewTransition,
+      preventScrollReset: _preventScrollReset,
+      preload: _preload,
       activeClass: _activeClass,
       class: _className,
       children: _children,
@@ -123,7 +213,14 @@ export function Link(
     } = props as LinkProps & { onclick?: unknown; onClick?: unknown };
 
     return (
-      <a {...anchorProps} href={fullHref} class={classes || undefined} onClick={handleClick}>
+      <a
+        {...anchorProps}
+        {...intentHandlers}
+        {...viewportProps}
+        href={fullHref}
+        class={classes || undefined}
+        onClick={handleClick}
+      >
         {normalizedChildren}
       </a>
     );
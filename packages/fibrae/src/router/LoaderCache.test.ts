@@ -0,0 +1,114 @@
+import { describe, test, expect } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Fiber from "effect/Fiber";
+import * as Option from "effect/Option";
+import * as TestClock from "effect/TestClock";
+import * as TestContext from "effect/TestContext";
+import { LoaderCache, LoaderCacheLive, loaderKey } from "./LoaderCache.js";
+
+const runCache = <A, E>(
+  effect: Effect.Effect<A, E, LoaderCache>,
+  options: Parameters<typeof LoaderCacheLive>[0] = {},
+) =>
+  Effect.runPromise(
+    effect.pipe(Effect.provide(LoaderCacheLive(options)), Effect.provide(TestContext.TestContext)),
+  );
+
+/** A loader returning how many times it has run. */
+const counter = () => {
+  let runs = 0;
+  return {
+    loader: Effect.sync(() => ++runs),
+    runs: () => runs,
+  };
+};
+
+describe("LoaderCache", () => {
+  test("loaderKey ignores param order", () => {
+    expect(loaderKey("post", { id: 1, slug: "a" }, { q: "x" })).toBe(
+      loaderKey("post", { slug: "a", id: 1 }, { q: "x" }),
+    );
+    expect(loaderKey("post", { id: 1 }, {})).not.toBe(loaderKey("post", { id: 2 }, {}));
+  });
+
+  test("fresh data is reused without running the loader again", async () => {
+    const { loader, runs } = counter();
+    const values = await runCache(
+      Effect.gen(function* () {
+        const cache = yield* LoaderCache;
+        const first = yield* cache
+          .read("k", loader)
+          .pipe(Effect.flatMap((r) => Fiber.join(r.data)));
+        yield* TestClock.adjust("10 seconds");
+        const second = yield* cache.read("k", loader);
+        return [first, yield* Fiber.join(second.data), Option.isNone(second.revalidation)];
+      }),
+      { staleTime: "1 minute" },
+    );
+    expect(values).toEqual([1, 1, true]);
+    expect(runs()).toBe(1);
+  });
+
+  test("stale data is served with a background revalidation", async () => {
+    const { loader } = counter();
+    const values = await runCache(
+      Effect.gen(function* () {
+        const cache = yield* LoaderCache;
+        yield* cache.read("k", loader).pipe(Effect.flatMap((r) => Fiber.join(r.data)));
+        yield* TestClock.adjust("2 minutes");
+        const stale = yield* cache.read("k", loader);
+        const revalidated = yield* Fiber.join(Option.getOrThrow(stale.revalidation));
+        yield* Effect.yieldNow();
+        const next = yield* cache.read("k", loader);
+        return [yield* Fiber.join(stale.data), revalidated, yield* Fiber.join(next.data)];
+      }),
+      { staleTime: "1 minute" },
+    );
+    expect(values).toEqual([1, 2, 2]);
+  });
+
+  test("a preload in flight is shared with the next read", async () => {
+    const { loader, runs } = counter();
+    const value = await runCache(
+      Effect.gen(function* () {
+        const cache = yield* LoaderCache;
+        yield* cache.preload("k", loader);
+        return yield* cache.read("k", loader).pipe(Effect.flatMap((r) => Fiber.join(r.data)));
+      }),
+    );
+    expect(value).toBe(1);
+    expect(runs()).toBe(1);
+  });
+
+  test("failed loads are not cached", async () => {
+    let runs = 0;
+    const loader = Effect.suspend(() =>
+      ++runs === 1 ? Effect.fail("boom") : Effect.succeed(runs),
+    );
+    const value = await runCache(
+      Effect.gen(function* () {
+        const cache = yield* LoaderCache;
+        yield* cache.read("k", loader).pipe(Effect.flatMap((r) => Fiber.await(r.data)));
+        yield* Effect.yieldNow();
+        return yield* cache.read("k", loader).pipe(Effect.flatMap((r) => Fiber.join(r.data)));
+      }),
+    );
+    expect(value).toBe(2);
+  });
+
+  test("data unread for gcTime is dropped", async () => {
+    const { loader, runs } = counter();
+    await runCache(
+      Effect.gen(function* () {
+        const cache = yield* LoaderCache;
+        yield* cache.set("k", 0);
+        yield* TestClock.adjust("2 minutes");
+        const read = yield* cache.read("k", loader);
+        yield* Fiber.join(read.data);
+        expect(Option.isNone(read.revalidation)).toBe(true);
+      }),
+      { staleTime: "1 hour", gcTime: "1 minute" },
+    );
+    expect(runs()).toBe(1);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * LoaderCache - shared route loader results with stale-while-revalidate.
+ *
+ * Loader results are cached per loader (route or layout name), path params and
+ * search params. Link preloads fill the cache ahead of navigation; RouterOutlet
+ * reads through it:
+ * - fresh data (younger than `staleTime`) is used as-is
+ * - stale data is used instantly while the loader reruns in the background
+ * - missing data is loaded, sharing any preload already in flight
+ *
+ * Data nobody has read for `gcTime` is dropped. Failed loads are never cached.
+ *
+ * Usage:
+ * ```typescript
+ * const routerLayer = pipe(
+ *   NavigatorLive(appRouter),
+ *   Layer.provideMerge(BrowserHistoryLive),
+ *   Layer.provideMerge(LoaderCacheLive({ staleTime: "30 seconds" })),
+ * );
+ * ```
+ */
+
+import * as Effect from "effect/Effect";
+import * as Context from "effect/Context";
+import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
+import * as Fiber from "effect/Fiber";
+import * as Exit from "effect/Exit";
+import * as Clock from "effect/Clock";
+import * as Duration from "effect/Duration";
+import { Navigator } from "./Navigator.js";
+import {
+  RouterHandlers,
+  runBeforeLoads,
+  type LayoutHandler,
+  type ShouldRevalidateContext,
+} from "./RouterBuilder.js";
+import type { SearchParamsError } from "./Route.js";
+import { buildSearchString, decodeSearchParams } from "./utils.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for LoaderCacheLive.
+ */
+export interface LoaderCacheOptions {
+  /** How long loaded data counts as fresh (default: 0, always revalidate in the background) */
+  readonly staleTime?: Duration.DurationInput;
+  /** How long data nobody reads is kept (default: 5 minutes) */
+  readonly gcTime?: Duration.DurationInput;
+}
+
+/**
+ * A cache read: the data to use now, plus a background reload when it was stale.
+ */
+export interface CachedLoad {
+  /** Settled data, or the load in flight */
+  readonly data: Fiber.Fiber<unknown, unknown>;
+  /** Reload started because `data` was stale */
+  readonly revalidation: Option.Option<Fiber.Fiber<unknown, unknown>>;
+}
+
+/**
+ * A loader for one level of a matched route (a layout or the route itself).
+ */
+export interface RouteLevel {
+  /** Layout or route name */
+  readonly name: string;
+  readonly key: string;
+  readonly loader: Effect.Effect<unknown, unknown>;
+  readonly shouldRevalidate: (ctx: ShouldRevalidateContext) => boolean;
+}
+
+/**
+ * LoaderCache service interface.
+ */
+export interface LoaderCacheService {
+  /** Serve fresh data as-is, stale data with a background revalidation, or start loading */
+  readonly read: (
+    key: string,
+    loader: Effect.Effect<unknown, unknown>,
+  ) => Effect.Effect<CachedLoad>;
+  /** Start loading ahead of navigation, unless fresh data or a load is already there */
+  readonly preload: (key: string, loader: Effect.Effect<unknown, unknown>) => Effect.Effect<void>;
+  /** Record data loaded elsewhere, e.g. SSR-hydrated loader data */
+  readonly set: (key: string, data: unknown) => Effect.Effect<void>;
+  /** Drop the data of one loader (route or layout name) for every param set, or of all loaders */
+  readonly invalidate: (name?: string) => Effect.Effect<void>;
+}
+
+interface CacheEntry {
+  readonly data: Fiber.Fiber<unknown, unknown>;
+  /** When `data` settled; None while its first load is in flight */
+  readonly loadedAt: Option.Option<number>;
+  readonly revalidation: Option.Option<Fiber.Fiber<unknown, unknown>>;
+  readonly accessedAt: number;
+}
+
+// =============================================================================
+// Service Tag
+// =============================================================================
+
+/**
+ * Context tag for the LoaderCache service.
+ * When provided, RouterOutlet reads loader data through it and Link can preload.
+ */
+export class LoaderCache extends Context.Tag("fibrae/LoaderCache")<
+  LoaderCache,
+  LoaderCacheService
+>() {}
+
+// =============================================================================
+// Keys
+// =============================================================================
+
+const sortedEntries = (record: Record<string, unknown>) =>
+  Object.entries(record).toSorted(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+/**
+ * Cache key for a loader: its route or layout name, path params and search params.
+ * Independent of key order in the params objects.
+ */
+export const loaderKey = (
+  name: string,
+  path: Record<string, unknown>,
+  searchParams: Record<string, unknown>,
+): string => JSON.stringify([name, sortedEntries(path), sortedEntries(searchParams)]);
+
+/** Whether a cache key belongs to the named loader. */
+const isKeyOf = (key: string, name: string): boolean =>
+  key.startsWith(`${JSON.stringify([name]).slice(0, -1)},`);
+
+/**
+ * The loaders for a matched route, outermost layout first and the route last.
+ * Levels without a handler load `null`. When the search params didn't decode,
+ * the route's loader fails with the SearchParamsError (layouts still load).
+ *
+ * `contexts` are the per-level outcomes of runBeforeLoads: loaders run with
+ * the services their level provided, and levels whose guard failed fail with it.
+ */
+export const routeLevels = (
+  routerHandlers: RouterHandlers["Type"],
+  match: {
+    readonly routeName: string;
+    readonly params: Record<string, unknown>;
+    readonly searchParams: Record<string, unknown>;
+    readonly searchError?: SearchParamsError;
+    readonly layouts: readonly string[];
+  },
+  contexts: ReadonlyArray<Exit.Exit<Context.Context<never>, unknown>> = [],
+): ReadonlyArray<RouteLevel> => {
+  const ctx = { path: match.params, searchParams: match.searchParams };
+  const level = (
+    name: string,
+    handler: Option.Option<Pick<LayoutHandler, "loader" | "shouldRevalidate">>,
+    context: Exit.Exit<Context.Context<never>, unknown> = Exit.succeed(Context.empty()),
+  ): RouteLevel => ({
+    name,
+    key: loaderKey(name, match.params, match.searchParams),
+    loader: Exit.match(context, {
+      onFailure: Effect.failCause,
+      onSuccess: (services) =>
+        Option.match(handler, {
+          onNone: () => Effect.succeed(null),
+          // Deferred: plain-value loaders run when their Effect is constructed
+          onSome: (h) => Effect.suspend(() => h.loader(ctx)).pipe(Effect.provide(services)),
+        }),
+    }),
+    shouldRevalidate: Option.match(handler, {
+      onNone: () => () => false,
+      onSome: (h) => h.shouldRevalidate,
+    }),
+  });
+  const routeLevel = level(
+    match.routeName,
+    routerHandlers.getHandler(match.routeName),
+    contexts[match.layouts.length],
+  );
+  return [
+    ...match.layouts.map((name, i) =>
+      level(name, routerHandlers.getLayoutHandler(name), contexts[i]),
+    ),
+    match.searchError ? { ...routeLevel, loader: Effect.fail(match.searchError) } : routeLevel,
+  ];
+};
+
+/**
+ * Load a path's layout and route loaders into the cache ahead of navigation,
+ * and import its route module if the handler is lazy. Does nothing for unmatched paths or search params that don't decode, or
+ * without a LoaderCache or RouterHandlers (e.g. during SSR). Levels whose
+ * beforeLoad guard fails are skipped.
+ */
+export const preloadRoute = (
+  href: string,
+  search: Record<string, unknown> = {},
+): Effect.Effect<void, never, Navigator> =>
+  Effect.gen(function* () {
+    const navigator = yield* Navigator;
+    const cacheOpt = yield* Effect.serviceOption(LoaderCache);
+    const handlersOpt = yield* Effect.serviceOption(RouterHandlers);
+    if (Option.isNone(cacheOpt) || Option.isNone(handlersOpt)) return;
+
+    const matched = yield* navigator.router.matchRoute(href);
+    if (Option.isNone(matched)) return;
+
+    const { groupName, route, params, layouts } = matched.value;
+    // Round-trip through the URL so keys match the ones navigation reads
+    const searchParams = yield* Effect.option(decodeSearchParams(route, buildSearchString(search)));
+    if (Option.isNone(searchParams)) return;
+
+    const match = {
+      routeName: route.name,
+      groupName,
+      params,
+      searchParams: searchParams.value,
+      layouts: layouts.map((l) => l.name),
+    };
+    const contexts = yield* runBeforeLoads(handlersOpt.value, match, {
+      path: params,
+      searchParams: searchParams.value,
+    });
+    const levels = routeLevels(handlersOpt.value, match, contexts);
+    // A lazy route's module too, even when its loader data is already cached
+    const module = Option.match(
+      Option.flatMap(handlersOpt.value.getHandler(route.name), (handler) => handler.lazy),
+      { onNone: () => Effect.void, onSome: (lazy) => Effect.ignore(lazy.load) },
+    );
+    yield* Effect.zip(
+      module,
+      Effect.forEach(
+        levels,
+        (level, i) =>
+          Exit.isSuccess(contexts[i])
+            ? cacheOpt.value.preload(level.key, level.loader)
+            : Effect.void,
+        { discard: true },
+      ),
+      { concurrent: true },
+    );
+  });
+
+// =============================================================================
+// Layer
+// =============================================================================
+
+/**
+ * Live layer for the LoaderCache service.
+ */
+export const LoaderCacheLive = (options: LoaderCacheOptions = {}): Layer.Layer<LoaderCache> =>
+  Layer.sync(LoaderCache, () => {
+    const staleTime = Duration.toMillis(options.staleTime ?? 0);
+    const gcTime = Duration.toMillis(options.gcTime ?? "5 minutes");
+    const entries = new Map<string, CacheEntry>();
+
+    // Drop settled entries nobody has read for gcTime
+    const sweep = (now: number) => {
+      for (const [key, entry] of entries) {
+        if (
+          Option.isSome(entry.loadedAt) &&
+          Option.isNone(entry.revalidation) &&
+          now - entry.accessedAt > gcTime
+        ) {
+          entries.delete(key);
+        }
+      }
+    };
+
+    // Record a load's outcome: failed first loads are dropped, failed
+    // revalidations keep serving the previous data
+    const settle = (
+      key: string,
+      fiber: Fiber.Fiber<unknown, unknown>,
+      exit: Exit.Exit<unknown, unknown>,
+      now: number,
+    ) => {
+      const entry = entries.get(key);
+      if (!entry) return;
+      if (entry.data === fiber) {
+        if (Exit.isSuccess(exit)) {
+          entries.set(key, { ...entry, loadedAt: Option.some(now) });
+        } else {
+          entries.delete(key);
+        }
+      } else if (Option.contains(entry.revalidation, fiber)) {
+        entries.set(
+          key,
+          Exit.isSuccess(exit)
+            ? { ...entry, data: fiber, loadedAt: Option.some(now), revalidation: Option.none() }
+            : { ...entry, revalidation: Option.none() },
+        );
+      }
+    };
+
+    // Run a loader detached from the reader, so navigation and preloads can share it
+    const run = (key: string, loader: Effect.Effect<unknown, unknown>) =>
+      Effect.gen(function* () {
+        const fiber = yield* Effect.forkDaemon(loader);
+        yield* Effect.forkDaemon(
+          Fiber.await(fiber).pipe(
+            Effect.flatMap((exit) =>
+              Clock.currentTimeMillis.pipe(Effect.map((now) => settle(key, fiber, exit, now))),
+            ),
+          ),
+        );
+        return fiber;
+      });
+
+    const read = (key: string, loader: Effect.Effect<unknown, unknown>) =>
+      Effect.gen(function* () {
+        const now = yield* Clock.currentTimeMillis;
+        sweep(now);
+
+        const entry = entries.get(key);
+        if (!entry) {
+          const data = yield* run(key, loader);
+          entries.set(key, {
+            data,
+            loadedAt: Option.none(),
+            revalidation: Option.none(),
+            accessedAt: now,
+          });
+          return { data, revalidation: Option.none() };
+        }
+
+        const isStale = Option.exists(entry.loadedAt, (loadedAt) => now - loadedAt >= staleTime);
+        const revalidation =
+          isStale && Option.isNone(entry.revalidation)
+            ? Option.some(yield* run(key, loader))
+            : entry.revalidation;
+        entries.set(key, { ...entry, revalidation, accessedAt: now });
+        return { data: entry.data, revalidation: isStale ? revalidation : Option.none() };
+      });
+
+    return {
+      read,
+      invalidate: (name) =>
+        Effect.sync(() => {
+          for (const key of entries.keys()) {
+            if (name === undefined || isKeyOf(key, name)) entries.delete(key);
+          }
+        }),
+      preload: (key, loader) => Effect.asVoid(read(key, loader)),
+      set: (key, data) =>
+        Clock.currentTimeMillis.pipe(
+          Effect.map((now) => {
+            entries.set(key, {
+              data: Fiber.succeed(data),
+              loadedAt: Option.some(now),
+              revalidation: Option.none(),
+              accessedAt: now,
+            });
+          }),
+        ),
+    };
+  });
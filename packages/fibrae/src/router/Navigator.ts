@@ -4,8 +4,12 @@
  * Provides navigation on top of History:
  * - nav.go("/posts/42") — push to history
  * - nav.go("/posts/42", { replace: true, search: { sort: "date" } })
+ * - nav.navigate({ to: "post", params: { id: 42 } }) — by route name, type-checked
  * - nav.back, nav.forward
- * - currentRoute Atom reflects matched route info
+ * - nav.revalidate(), nav.invalidate("posts") — rerun the current route's loaders
+ * - nav.block(blocker) — guard unsaved changes while a component is mounted
+ * - currentRoute Atom reflects matched route info, search params decoded
+ * - searchAtom(route) reads and writes the current route's search params
  * - currentPathname for active link detection
  *
  * Design: Navigator uses History internally but provides a higher-level API.
@@ -14,13 +18,28 @@
 
 import * as Effect from "effect/Effect";
 import * as Context from "effect/Context";
+import * as Either from "effect/Either";
 import * as Layer from "effect/Layer";
 import * as Option from "effect/Option";
+import * as Runtime from "effect/Runtime";
 import * as Schema from "effect/Schema";
+import * as Scope from "effect/Scope";
 import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
-import { History, type HistoryLocation } from "./History.js";
+import { ComponentScope } from "../shared.js";
+import { History, type Blocker, type HistoryLocation } from "./History.js";
+import { LoaderCache } from "./LoaderCache.js";
+import { ScrollRestoration } from "./ScrollRestoration.js";
+import type { Route, RouteError, SearchParamsError } from "./Route.js";
 import type { Router } from "./Router.js";
-import { parseSearchParams, buildSearchString, stripBasePath } from "./utils.js";
+import type { NavigateTarget } from "./register.js";
+import {
+  parseSearchParams,
+  buildSearchString,
+  decodeSearchParams,
+  encodeSearchParams,
+  stripBasePath,
+  resolveNavigateTarget,
+} from "./utils.js";
 
 // =============================================================================
 // Redirect
@@ -55,10 +74,35 @@ export class Redirect extends Schema.TaggedError<Redirect>()("Redirect", {
  */
 export interface CurrentRoute {
   readonly routeName: string;
+  /** The group (or layout group) that declares the route */
+  readonly groupName: string;
   readonly params: Record<string, unknown>;
-  readonly searchParams: Record<string, string>;
+  /** Decoded with the route's search schema; the raw strings when it has none */
+  readonly searchParams: Record<string, unknown>;
+  /** Set when the query string doesn't decode; the route's loader fails with it */
+  readonly searchError?: SearchParamsError;
   /** Layout names wrapping this route, from outermost to innermost */
   readonly layouts: readonly string[];
+  /** Set when this entry reruns the loaders of the same location instead of navigating */
+  readonly revalidation?: Revalidation;
+}
+
+/**
+ * Why the current location's loaders rerun.
+ */
+export interface Revalidation {
+  /** Result of the action that triggered it; None for revalidate()/invalidate() */
+  readonly actionResult: Option.Option<unknown>;
+  /** Loader name passed to invalidate(); None reruns every level by default */
+  readonly invalidated: Option.Option<string>;
+}
+
+/**
+ * Options for revalidate().
+ */
+export interface RevalidateOptions {
+  /** Result of the action that triggered revalidation, passed to shouldRevalidate hooks */
+  readonly actionResult: unknown;
 }
 
 /**
@@ -69,6 +113,8 @@ export interface NavigateOptions {
   readonly replace?: boolean;
   /** Enable View Transitions API for this navigation (CSS-driven animations) */
   readonly viewTransition?: boolean;
+  /** Keep the scroll position instead of scrolling to the top or `#hash` target */
+  readonly preventScrollReset?: boolean;
 }
 
 /**
@@ -87,6 +133,12 @@ export interface NavigatorService {
    */
   readonly basePath: string;
 
+  /**
+   * The URL for a path (without basePath) as History shows it: basePath
+   * prepended, in the hash for hash history. Link renders it as its href.
+   */
+  readonly createHref: (path: string) => string;
+
   /**
    * Current pathname (without basePath). Updated on navigation.
    */
@@ -105,6 +157,18 @@ export interface NavigatorService {
     options?: NavigateOptions,
   ) => Effect.Effect<void, never, AtomRegistry.AtomRegistry>;
 
+  /**
+   * Navigate to a route by name. With a RegisteredRouter, `params` and `search`
+   * are checked against the route's types. The path is built with
+   * Route.interpolate and search params are encoded with the route's search
+   * schema, so renaming a path updates every navigation to it.
+   * Fails with RouteError for an unknown route or params that don't encode.
+   */
+  readonly navigate: (
+    target: NavigateTarget,
+    options?: Omit<NavigateOptions, "search">,
+  ) => Effect.Effect<void, RouteError, AtomRegistry.AtomRegistry>;
+
   /**
    * Go back in history.
    */
@@ -115,10 +179,32 @@ export interface NavigatorService {
    */
   readonly forward: Effect.Effect<void, never, AtomRegistry.AtomRegistry>;
 
+  /**
+   * Rerun the loaders of the current route and its layouts, keeping the location.
+   * Handlers' shouldRevalidate hooks can opt out. Runs after every route action.
+   */
+  readonly revalidate: (
+    options?: RevalidateOptions,
+  ) => Effect.Effect<void, never, AtomRegistry.AtomRegistry>;
+
+  /**
+   * Drop the cached data of a route or layout loader (every loader when omitted)
+   * and rerun it if it's part of the current route.
+   */
+  readonly invalidate: (name?: string) => Effect.Effect<void, never, AtomRegistry.AtomRegistry>;
+
   /**
    * Check if a path is currently active.
    */
   readonly isActive: (href: string) => Effect.Effect<boolean, never, AtomRegistry.AtomRegistry>;
+
+  /**
+   * Block navigation while the current component is mounted, e.g. to keep a
+   * draft from being lost. The blocker is asked before every push, replace and
+   * pop (Links, go, back/forward, the browser's buttons) and before the page
+   * unloads; it succeeds with true to stay. A blocked pop restores the URL.
+   */
+  readonly block: (blocker: Blocker) => Effect.Effect<void, never, ComponentScope>;
 }
 
 // =============================================================================
@@ -136,7 +222,8 @@ export class Navigator extends Context.Tag("fibrae/Navigator")<Navigator, Naviga
 
 /**
  * Match current location against router and return CurrentRoute.
- * Returns Effect since route matching uses Schema.decodeUnknown.
+ * Returns Effect since route matching and search decoding use Schema.decodeUnknown.
+ * Search params that don't decode are kept as raw strings, with the searchError set.
  */
 function matchLocation(
   router: Router,
@@ -144,13 +231,21 @@ function matchLocation(
   basePath: string = "",
 ): Effect.Effect<Option.Option<CurrentRoute>> {
   return router.matchRoute(stripBasePath(location.pathname, basePath)).pipe(
-    Effect.map((matchResult) =>
-      Option.map(matchResult, ({ route, params, layouts }) => ({
-        routeName: route.name,
-        params,
-        searchParams: parseSearchParams(location.search),
-        layouts: layouts.map((l) => l.name),
-      })),
+    Effect.flatMap((matchResult) =>
+      Effect.transposeMapOption(matchResult, ({ groupName, route, params, layouts }) =>
+        Effect.either(decodeSearchParams(route, location.search)).pipe(
+          Effect.map(
+            (decoded): CurrentRoute => ({
+              routeName: route.name,
+              groupName,
+              params,
+              searchParams: Either.getOrElse(decoded, () => parseSearchParams(location.search)),
+              ...(Either.isLeft(decoded) ? { searchError: decoded.left } : {}),
+              layouts: layouts.map((l) => l.name),
+            }),
+          ),
+        ),
+      ),
     ),
   );
 }
@@ -204,13 +299,21 @@ export function NavigatorLive(
       // Effect.runSync is safe here: matchPath is pure computation with no requirements.
       const unsubscribe = registry.subscribe(history.location, (location) => {
         const matched = Effect.runSync(matchLocation(router, location, basePath));
-        registry.set(currentRouteAtom, matched);
         currentPathname = stripBasePath(location.pathname, basePath);
+        registry.set(currentRouteAtom, matched);
       });
 
       // Cleanup subscription when scope closes
       yield* Effect.addFinalizer(() => Effect.sync(unsubscribe));
 
+      // Re-emit the current route so RouterOutlet reruns its loaders in place
+      const rerun = (revalidation: Revalidation) =>
+        Effect.sync(() => {
+          const current = registry.get(currentRouteAtom);
+          if (Option.isNone(current)) return;
+          registry.set(currentRouteAtom, Option.some({ ...current.value, revalidation }));
+        });
+
       const service: NavigatorService = {
         router,
         basePath,
@@ -219,6 +322,8 @@ export function NavigatorLive(
         },
         currentRoute: currentRouteAtom,
 
+        createHref: (path) => history.createHref(`${basePath}${path}`),
+
         go: (href, options = {}) =>
           Effect.gen(function* () {
             // Validate route exists before navigating
@@ -229,7 +334,12 @@ export function NavigatorLive(
 
             const searchString = options.search ? buildSearchString(options.search) : "";
             const url = `${basePath}${href}${searchString}`;
-            const nav = options.replace ? history.replace(url) : history.push(url);
+            const entry = options.replace ? history.replace(url) : history.push(url);
+            const scroll = yield* Effect.serviceOption(ScrollRestoration);
+            const nav =
+              options.preventScrollReset && Option.isSome(scroll)
+                ? scroll.value.withoutScrollReset(entry)
+                : entry;
 
             if (options.viewTransition && typeof document.startViewTransition === "function") {
               yield* nav;
@@ -243,16 +353,122 @@ export function NavigatorLive(
             }
           }),
 
+        navigate: (target, options = {}) =>
+          resolveNavigateTarget(router, target).pipe(
+            Effect.flatMap(({ href, search }) => service.go(href, { ...options, search })),
+          ),
+
         // Back/forward - currentRoute updates automatically when history.location
         // changes (popstate handler updates locationAtom, subscription recomputes)
         back: history.back,
 
         forward: history.forward,
 
+        revalidate: (options) =>
+          rerun({
+            actionResult: options ? Option.some(options.actionResult) : Option.none(),
+            invalidated: Option.none(),
+          }),
+
+        invalidate: (name) =>
+          Effect.gen(function* () {
+            const cache = yield* Effect.serviceOption(LoaderCache);
+            if (Option.isSome(cache)) {
+              yield* cache.value.invalidate(name);
+            }
+            const current = registry.get(currentRouteAtom);
+            const isCurrent = Option.exists(
+              current,
+              (route) =>
+                name === undefined || route.routeName === name || route.layouts.includes(name),
+            );
+            if (isCurrent) {
+              yield* rerun({ actionResult: Option.none(), invalidated: Option.fromNullable(name) });
+            }
+          }),
+
         isActive: (href) => Effect.succeed(currentPathname === href),
+
+        block: (blocker) =>
+          Effect.gen(function* () {
+            const { scope } = yield* ComponentScope;
+            yield* history.block(blocker).pipe(Scope.extend(scope));
+          }),
       };
 
       return service;
     }),
   );
 }
+
+// =============================================================================
+// Search Params
+// =============================================================================
+
+/**
+ * A writable atom of a route's decoded search params.
+ *
+ * Reads the current route's search params (empty while another route is
+ * current). Writing merges the update into them, encodes the result with the
+ * route's search schema and replaces the history entry's query string, keeping
+ * the path and the scroll position. The replace runs in the background, after
+ * any blockers (which may be asynchronous) let it through. Updates that don't
+ * encode are dropped with a warning.
+ *
+ * @example
+ * ```tsx
+ * const posts = Route.get("posts", "/posts").setSearchParams(
+ *   Schema.Struct({ page: Schema.optionalWith(Schema.NumberFromString, { default: () => 1 }) }),
+ * );
+ *
+ * const Pager = () =>
+ *   Effect.gen(function* () {
+ *     const search = yield* searchAtom(posts);
+ *     const { page } = yield* Atom.get(search);
+ *     return <button onClick={() => Atom.set(search, { page: page + 1 })}>Next</button>;
+ *   });
+ * ```
+ */
+export const searchAtom = <S extends Record<string, unknown>>(
+  route: Route<string, any, any, S>,
+): Effect.Effect<Atom.Writable<S, Partial<S>>, never, Navigator | History> =>
+  Effect.gen(function* () {
+    const navigator = yield* Navigator;
+    const history = yield* History;
+    const scroll = yield* Effect.serviceOption(ScrollRestoration);
+    const runFork = Runtime.runFork(yield* Effect.runtime<never>());
+    // Type-erasure boundary: the route's search type is only known here
+    const erased = route as unknown as Route;
+
+    const read = (current: Option.Option<CurrentRoute>): S =>
+      Option.match(
+        Option.filter(current, (r) => r.routeName === route.name),
+        {
+          onNone: () => ({}),
+          onSome: (r) => r.searchParams,
+        },
+      ) as S;
+
+    return Atom.writable(
+      (get) => read(get(navigator.currentRoute)),
+      (ctx, update: Partial<S>) => {
+        const location = ctx.get(history.location);
+        const next = { ...read(ctx.get(navigator.currentRoute)), ...update };
+        runFork(
+          encodeSearchParams(erased, next).pipe(
+            Effect.flatMap((encoded) => {
+              const replace = history.replace(
+                `${location.pathname}${buildSearchString(encoded)}${location.hash}`,
+                location.state,
+              );
+              return Option.match(scroll, {
+                onNone: () => replace,
+                onSome: (s) => s.withoutScrollReset(replace),
+              });
+            }),
+            Effect.catchAll((error) => Effect.logWarning(error.message)),
+          ),
+        );
+      },
+    );
+  });
@@ -69,6 +69,65 @@ describe("Route module", () => {
     });
   });
 
+  describe("optional segments and splats", () => {
+    test("should match optional segment when present or absent", () => {
+      const docs = Route.get("docs", "/:lang?/docs");
+      const withLang = runMatch(docs, "/fr/docs");
+      expect(Option.isSome(withLang)).toBe(true);
+      if (Option.isSome(withLang)) {
+        expect(withLang.value).toEqual({ lang: "fr" });
+      }
+
+      const withoutLang = runMatch(docs, "/docs");
+      expect(Option.isSome(withoutLang)).toBe(true);
+      if (Option.isSome(withoutLang)) {
+        expect(withoutLang.value).toEqual({});
+      }
+    });
+
+    test("should capture the rest of the path in a splat", () => {
+      const files = Route.get("files", "/files/*rest");
+      const match = runMatch(files, "/files/docs/guide.md");
+      expect(Option.isSome(match)).toBe(true);
+      if (Option.isSome(match)) {
+        expect(match.value.rest).toBe("docs/guide.md");
+      }
+    });
+
+    test("should match an empty splat", () => {
+      const files = Route.get("files", "/files/*rest");
+      const match = runMatch(files, "/files");
+      expect(Option.isSome(match)).toBe(true);
+      if (Option.isSome(match)) {
+        expect(match.value.rest).toBe("");
+      }
+      expect(Option.isNone(runMatch(files, "/filesystem"))).toBe(true);
+    });
+
+    test("should interpolate optional segments and splats", () => {
+      const docs = Route.get("docs", "/:lang?/docs/*rest");
+      expect(runInterpolate(docs, { lang: "fr", rest: "a/b" })).toBe("/fr/docs/a/b");
+      expect(runInterpolate(docs, { rest: "" })).toBe("/docs");
+    });
+  });
+
+  describe("specificity", () => {
+    test("static beats param beats optional beats splat", () => {
+      const patterns = ["/posts/*rest", "/posts/:id?", "/posts/:id", "/posts/new"];
+      expect(patterns.toSorted(Route.compareSpecificity)).toEqual([
+        "/posts/new",
+        "/posts/:id",
+        "/posts/:id?",
+        "/posts/*rest",
+      ]);
+    });
+
+    test("an exact pattern beats one extending it with optional segments", () => {
+      expect(Route.compareSpecificity("/files", "/files/*rest")).toBeLessThan(0);
+      expect(Route.compareSpecificity("/:lang?/docs", "/docs")).toBeGreaterThan(0);
+    });
+  });
+
   describe("interpolation", () => {
     test("should interpolate static paths", () => {
       const home = Route.get("home", "/");
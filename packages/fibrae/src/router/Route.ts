@@ -5,7 +5,12 @@
  * - Route.get("name", "/path") for static routes
  * - Route.get("name")`/path/${param}` for dynamic routes with template literals
  * - Route.param for schema-validated path parameters
- * - .setSearchParams for query string validation
+ * - .setSearchParams for typed query strings (decoded and encoded with a schema)
+ *
+ * Path patterns support static segments, `:param`, optional `:param?`
+ * and a trailing catch-all splat `*rest`. When several routes match a path,
+ * the most specific wins: static segments beat params, params beat optional
+ * params, and optional params beat splats (see compareSpecificity).
  */
 
 import * as Schema from "effect/Schema";
@@ -25,6 +30,64 @@ export class RouteError extends Schema.TaggedError<RouteError>()("RouteError", {
   message: Schema.String,
 }) {}
 
+/**
+ * Typed error for a query string that doesn't decode with a route's search schema.
+ */
+export class SearchParamsError extends Schema.TaggedError<SearchParamsError>()(
+  "SearchParamsError",
+  {
+    message: Schema.String,
+    cause: Schema.optional(Schema.Unknown),
+  },
+) {}
+
+/**
+ * The URL shape of search params: a string per key, or several for keys
+ * that repeat ("?tag=a&tag=b").
+ */
+export type SearchEncoded = {
+  readonly [key: string]: string | ReadonlyArray<string> | undefined;
+};
+
+/**
+ * Options for Route.setSearchParams.
+ */
+export interface SearchParamsOptions<SearchParams> {
+  /**
+   * Search params to use when the query string doesn't decode.
+   * Without a fallback the route's loader fails with the SearchParamsError.
+   */
+  readonly fallback?: (error: SearchParamsError) => SearchParams;
+}
+
+/**
+ * Path parameters declared by a path pattern.
+ * "/posts/:id" → { id: string }
+ * "/:lang?/docs" → { lang?: string }
+ * "/files/*rest" → { rest: string }
+ */
+export type ParamsOf<Path extends string> = Simplify<
+  { readonly [K in RequiredParamName<PathSegment<Path>>]: string } & {
+    readonly [K in OptionalParamName<PathSegment<Path>>]?: string;
+  }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type PathSegment<Path extends string> = Path extends `${infer Head}/${infer Tail}`
+  ? Head | PathSegment<Tail>
+  : Path;
+
+type RequiredParamName<Segment extends string> = Segment extends `:${string}?`
+  ? never
+  : Segment extends `:${infer Name}`
+    ? Name
+    : Segment extends `*${infer Name}`
+      ? Name
+      : never;
+
+type OptionalParamName<Segment extends string> = Segment extends `:${infer Name}?` ? Name : never;
+
 /**
  * Represents a single route with path and optional search params validation.
  * This is immutable data that describes a route.
@@ -38,7 +101,8 @@ export interface Route<
   readonly name: Name;
   readonly path: string;
   readonly pathSchema: Option.Option<Schema.Schema<PathParams>>;
-  readonly searchSchema: Option.Option<Schema.Schema<SearchParams>>;
+  readonly searchSchema: Option.Option<Schema.Schema<SearchParams, SearchEncoded>>;
+  readonly searchFallback: Option.Option<(error: SearchParamsError) => SearchParams>;
 
   /**
    * Match a pathname against this route.
@@ -51,16 +115,25 @@ export interface Route<
    * Build a URL from path parameters.
    * Fails with RouteError if required params are missing.
    */
-  readonly interpolate: (params: PathParams) => Effect.Effect<string, RouteError>;
+  interpolate(params: PathParams): Effect.Effect<string, RouteError>;
 
   /**
-   * Set search parameter schema for this route.
+   * Set search parameter schema for this route. The schema decodes the query
+   * string (see decodeSearchParams) before it reaches loaders and components,
+   * and encodes search params when navigating. Its encoded side must be
+   * URL-shaped: strings, or arrays of strings for repeated keys.
    */
-  readonly setSearchParams: <NewSearch extends Record<string, unknown>>(
-    schema: Schema.Schema<NewSearch>,
+  readonly setSearchParams: <NewSearch extends Record<string, unknown>, I extends SearchEncoded>(
+    schema: Schema.Schema<NewSearch, I>,
+    options?: SearchParamsOptions<NewSearch>,
   ) => Route<Name, Path, PathParams, NewSearch>;
 }
 
+/**
+ * Any route, whatever its name, path and params.
+ */
+export type AnyRoute = Route<string, any, any, any>;
+
 /**
  * Parse path template to extract param names and build a URL pattern.
  *
@@ -99,12 +172,93 @@ function getParamName(schema: Schema.Schema.Any): string | undefined {
   return paramAnnotation?.name;
 }
 
+/**
+ * A parsed path pattern segment.
+ * Kinds are ordered by specificity, least specific first.
+ */
+type PatternSegment =
+  | { readonly _tag: "Splat"; readonly name: string }
+  | { readonly _tag: "Optional"; readonly name: string }
+  | { readonly _tag: "Param"; readonly name: string }
+  | { readonly _tag: "Static"; readonly value: string };
+
+const segmentRank: Record<PatternSegment["_tag"], number> = {
+  Splat: 0,
+  Optional: 1,
+  Param: 2,
+  Static: 3,
+};
+
+/**
+ * Split a path pattern into segments.
+ * "/:lang?/docs/*rest" → [Optional lang, Static docs, Splat rest]
+ */
+function parsePattern(pattern: string): ReadonlyArray<PatternSegment> {
+  return pattern
+    .split("/")
+    .filter((segment) => segment !== "")
+    .map((segment): PatternSegment => {
+      if (segment.startsWith("*")) return { _tag: "Splat", name: segment.slice(1) };
+      if (segment.startsWith(":") && segment.endsWith("?")) {
+        return { _tag: "Optional", name: segment.slice(1, -1) };
+      }
+      if (segment.startsWith(":")) return { _tag: "Param", name: segment.slice(1) };
+      return { _tag: "Static", value: segment };
+    });
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Build the regex for a path pattern. Optional segments and the splat may be
+ * absent; a splat captures the rest of the path, slashes included.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const source = parsePattern(pattern)
+    .map((segment) => {
+      switch (segment._tag) {
+        case "Static":
+          return `/${escapeRegExp(segment.value)}`;
+        case "Param":
+          return `/(?<${segment.name}>[^/]+)`;
+        case "Optional":
+          return `(?:/(?<${segment.name}>[^/]+))?`;
+        case "Splat":
+          return `(?:/(?<${segment.name}>.*))?`;
+      }
+    })
+    .join("");
+  return new RegExp(`^${source}/?$`);
+}
+
+/**
+ * Order two path patterns by specificity, most specific first.
+ * Segments are compared left to right: static beats param, param beats
+ * optional param, optional param beats splat. When one pattern is a prefix
+ * of the other, the shorter one wins ("/files" before "/files/*rest").
+ *
+ * Use as a sort comparator: `patterns.sort(compareSpecificity)`.
+ */
+export function compareSpecificity(a: string, b: string): number {
+  const segmentsA = parsePattern(a);
+  const segmentsB = parsePattern(b);
+  const length = Math.max(segmentsA.length, segmentsB.length);
+  for (let i = 0; i < length; i++) {
+    // A missing segment outranks any segment: the pattern ended, so it is exact
+    const rankA = i < segmentsA.length ? segmentRank[segmentsA[i]._tag] : 4;
+    const rankB = i < segmentsB.length ? segmentRank[segmentsB[i]._tag] : 4;
+    if (rankA !== rankB) return rankB - rankA;
+  }
+  return 0;
+}
+
 /**
  * Match a pathname against a route pattern.
  * Pattern: "/posts/:id/comments/:commentId"
  * Pathname: "/posts/123/comments/456"
  * Returns: { id: "123", commentId: "456" }
  *
+ * Absent optional params are omitted; an absent splat matches as "".
  * Uses Schema.decodeUnknown (Effect-returning) for path param validation.
  */
 function matchPath(
@@ -112,16 +266,21 @@ function matchPath(
   pathname: string,
   pathSchema: Option.Option<Schema.Schema.Any>,
 ): Effect.Effect<Option.Option<Record<string, unknown>>> {
-  // Convert pattern with :params to regex
-  const regexPattern = pattern.replace(/:(\w+)/g, "(?<$1>[^/]+)");
-  const regex = new RegExp(`^${regexPattern}/?$`);
-  const match = pathname.match(regex);
+  const match = pathname.match(patternToRegExp(pattern));
 
   if (!match) {
     return Effect.succeed(Option.none());
   }
 
-  const params = match.groups ?? {};
+  const splats = parsePattern(pattern).flatMap((segment) =>
+    segment._tag === "Splat" ? [[segment.name, ""] as const] : [],
+  );
+  const params: Record<string, string> = {
+    ...Object.fromEntries(splats),
+    ...Object.fromEntries(
+      Object.entries(match.groups ?? {}).filter(([, value]) => value !== undefined),
+    ),
+  };
 
   // Decode and validate with schema if present.
   // Cast to Effect<unknown, unknown> to erase the Schema.Any's `any` R parameter,
@@ -141,29 +300,33 @@ function matchPath(
  * Pattern: "/posts/:id/comments/:commentId"
  * Params: { id: 123, commentId: 456 }
  * Returns: "/posts/123/comments/456"
+ *
+ * Optional params and splats are dropped when absent (or empty).
  */
 function interpolatePath(
   pattern: string,
   params: Record<string, unknown>,
 ): Effect.Effect<string, RouteError> {
   const segments: string[] = [];
-  const paramPattern = /:(\w+)/g;
-  let lastIndex = 0;
-  let match: RegExpExecArray | null;
-
-  while ((match = paramPattern.exec(pattern)) !== null) {
-    segments.push(pattern.slice(lastIndex, match.index));
-    const key = match[1];
-    const value = params[key];
-    if (value === undefined) {
-      return Effect.fail(new RouteError({ message: `Missing required parameter: ${key}` }));
+
+  for (const segment of parsePattern(pattern)) {
+    if (segment._tag === "Static") {
+      segments.push(segment.value);
+      continue;
+    }
+    const value = params[segment.name];
+    if (value === undefined || value === null || value === "") {
+      if (segment._tag === "Param") {
+        return Effect.fail(
+          new RouteError({ message: `Missing required parameter: ${segment.name}` }),
+        );
+      }
+      continue;
     }
     segments.push(String(value));
-    lastIndex = paramPattern.lastIndex;
   }
-  segments.push(pattern.slice(lastIndex));
 
-  return Effect.succeed(segments.join(""));
+  return Effect.succeed(`/${segments.join("/")}`);
 }
 
 /**
@@ -171,18 +334,22 @@ function interpolatePath(
  * Supports both static paths and template literal syntax.
  */
 export interface RouteConstructor {
-  /** Static path — captures Path as literal type. */
+  /** Static path — captures Path as literal type; params are typed from the pattern. */
   <const Name extends string, const Path extends string>(
     name: Name,
     path: Path,
-  ): Route<Name, Path, {}, {}>;
+  ): Route<Name, Path, ParamsOf<Path>, {}>;
 
-  /** Static path with param schemas — captures Path + validates params. */
-  <const Name extends string, const Path extends string>(
+  /** Static path with param schemas — captures Path; params are typed from the schemas. */
+  <
+    const Name extends string,
+    const Path extends string,
+    const Params extends Record<string, Schema.Schema.Any>,
+  >(
     name: Name,
     path: Path,
-    params: Record<string, Schema.Schema.Any>,
-  ): Route<Name, Path, Record<string, unknown>, {}>;
+    params: Params,
+  ): Route<Name, Path, Simplify<Schema.Struct.Type<Params>>, {}>;
 
   /** Template literal syntax — Path is not tracked at the type level. */
   <const Name extends string>(
@@ -205,19 +372,32 @@ function makeRoute<
   _name: Name,
   path: string,
   pathSchema: Option.Option<Schema.Schema<PathParams>> = Option.none(),
-  searchSchema: Option.Option<Schema.Schema<SearchParams>> = Option.none(),
+  searchSchema: Option.Option<Schema.Schema<SearchParams, SearchEncoded>> = Option.none(),
+  searchFallback: Option.Option<(error: SearchParamsError) => SearchParams> = Option.none(),
 ): Route<Name, Path, PathParams, SearchParams> {
   return {
     name: _name,
     path,
     pathSchema,
     searchSchema,
+    searchFallback,
     match: (pathname) =>
       matchPath(path, pathname, pathSchema as Option.Option<Schema.Schema.Any>) as Effect.Effect<
         Option.Option<PathParams>
       >,
     interpolate: (params) => interpolatePath(path, params) as Effect.Effect<string, RouteError>,
-    setSearchParams: (schema) => makeRoute(_name, path, pathSchema, Option.some(schema)),
+    setSearchParams: (schema, options = {}) =>
+      makeRoute(
+        _name,
+        path,
+        pathSchema,
+        // Type-erasure boundary: the encoded type only needs to be URL-shaped,
+        // which setSearchParams' constraint already checked.
+        Option.some(
+          schema as unknown as Schema.Schema<Schema.Schema.Type<typeof schema>, SearchEncoded>,
+        ),
+        Option.fromNullable(options.fallback),
+      ),
   };
 }
 
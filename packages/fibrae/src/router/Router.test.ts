@@ -1,12 +1,40 @@
 import { describe, test, expect } from "bun:test";
 import * as Effect from "effect/Effect";
 import * as Option from "effect/Option";
+import * as Layer from "effect/Layer";
+import * as Deferred from "effect/Deferred";
+import * as Fiber from "effect/Fiber";
+import * as Stream from "effect/Stream";
+import * as Schema from "effect/Schema";
+import * as Scope from "effect/Scope";
+import * as Exit from "effect/Exit";
+import * as Context from "effect/Context";
+import * as Either from "effect/Either";
+import { Atom, Hydration, Registry as AtomRegistry } from "@effect-atom/atom";
 import * as Route from "./Route.js";
 import * as Router from "./Router.js";
+import * as RouterBuilder from "./RouterBuilder.js";
+import { RouterOutlet } from "./RouterOutlet.js";
+import { Navigator, NavigatorLive, Redirect, searchAtom } from "./Navigator.js";
+import { History, MemoryHistoryLive } from "./History.js";
+import { Link } from "./Link.js";
+import { fetcher, fetcherAtom, pendingFetchersAtom } from "./Fetcher.js";
+import { Form, FormState } from "./Form.js";
+import { Await, defer } from "./Defer.js";
+import { Suspense } from "../components.js";
+import { h } from "../jsx-runtime/index.js";
+import { renderToStringWith } from "../server.js";
+import { ComponentScope, type VElement } from "../shared.js";
 
 const runMatch = (router: Router.Router, pathname: string) =>
   Effect.runSync(router.matchRoute(pathname));
 
+const form = (entries: Record<string, string>) => {
+  const data = new FormData();
+  for (const [name, value] of Object.entries(entries)) data.set(name, value);
+  return data;
+};
+
 describe("Router module", () => {
   describe("route groups", () => {
     test("Router.group creates a group", () => {
@@ -125,6 +153,52 @@ describe("Router module", () => {
     });
   });
 
+  describe("ranked matching", () => {
+    test("static routes win over params regardless of declaration order", () => {
+      const post = Route.get("post", "/posts/:id");
+      const newPost = Route.get("newPost", "/posts/new");
+      const router = Router.make("root").add(Router.group("app").add(post).add(newPost));
+
+      const match = runMatch(router, "/posts/new");
+      expect(Option.isSome(match)).toBe(true);
+      if (Option.isSome(match)) {
+        expect(match.value.route.name).toBe("newPost");
+      }
+
+      const byId = runMatch(router, "/posts/42");
+      expect(Option.isSome(byId)).toBe(true);
+      if (Option.isSome(byId)) {
+        expect(byId.value.route.name).toBe("post");
+      }
+    });
+
+    test("splats only match when nothing more specific does", () => {
+      const notFound = Route.get("notFound", "/*path");
+      const home = Route.get("home", "/");
+      const router = Router.make("root").add(Router.group("app").add(notFound).add(home));
+
+      const root = runMatch(router, "/");
+      expect(Option.isSome(root) && root.value.route.name).toBe("home");
+
+      const other = runMatch(router, "/some/where");
+      expect(Option.isSome(other) && other.value.route.name).toBe("notFound");
+    });
+
+    test("ranks routes across groups by their full path", () => {
+      const catchAll = Route.get("catchAll", "/*path");
+      const overview = Route.get("overview", "/overview");
+      const dashboard = Router.layout("dashboard", "/dashboard").add(overview);
+      const router = Router.make("root").add(Router.group("app").add(catchAll)).add(dashboard);
+
+      const match = runMatch(router, "/dashboard/overview");
+      expect(Option.isSome(match)).toBe(true);
+      if (Option.isSome(match)) {
+        expect(match.value.route.name).toBe("overview");
+        expect(match.value.layouts.map((l) => l.name)).toEqual(["dashboard"]);
+      }
+    });
+  });
+
   describe("layout groups", () => {
     test("Router.layout creates a layout group", () => {
       const dashboardLayout = Router.layout("dashboard", "/dashboard");
@@ -187,6 +261,31 @@ describe("Router module", () => {
       }
     });
 
+    test("layout groups nest inside layout groups", () => {
+      const profile = Route.get("profile", "/profile");
+      const overview = Route.get("overview", "/overview");
+      const settings = Router.layout("settings", "/settings").add(profile);
+      const dashboard = Router.layout("dashboard", "/dashboard").add(overview).add(settings);
+      const app = Router.layout("app", "/app").add(dashboard);
+      const router = Router.make("root").add(app);
+
+      const match = runMatch(router, "/app/dashboard/settings/profile");
+      expect(Option.isSome(match)).toBe(true);
+      if (Option.isSome(match)) {
+        expect(match.value.route.name).toBe("profile");
+        expect(match.value.groupName).toBe("settings");
+        expect(match.value.layouts.map((l) => l.name)).toEqual(["app", "dashboard", "settings"]);
+      }
+
+      const outer = runMatch(router, "/app/dashboard/overview");
+      expect(Option.isSome(outer)).toBe(true);
+      if (Option.isSome(outer)) {
+        expect(outer.value.layouts.map((l) => l.name)).toEqual(["app", "dashboard"]);
+      }
+
+      expect(Option.isNone(runMatch(router, "/dashboard/settings/profile"))).toBe(true);
+    });
+
     test("layout basePath is normalized", () => {
       const layout1 = Router.layout("admin", "admin");
       expect(layout1.basePath).toBe("/admin");
@@ -195,4 +294,1201 @@ describe("Router module", () => {
       expect(layout2.basePath).toBe("/admin");
     });
   });
+
+  describe("layout loaders", () => {
+    const empty = { type: "div", props: { children: [] } } as VElement;
+
+    const profile = Route.get("profile", "/profile");
+    const settings = Router.layout("settings", "/settings").add(profile);
+    const dashboard = Router.layout("dashboard", "/dashboard").add(settings);
+    const router = Router.make("root").add(dashboard);
+
+    const renderServer = (handlersLayer: Layer.Layer<RouterBuilder.RouterHandlers>) =>
+      Effect.runPromise(
+        Router.CurrentRouteElement.pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/dashboard/settings/profile" }).pipe(
+              Layer.provide(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+
+    test("serverLayer runs every layout loader and serializes their data", async () => {
+      const handlersLayer = RouterBuilder.layoutGroup(router, dashboard, (handlers) =>
+        handlers
+          .layout({ loader: () => ({ team: "core" }), component: () => empty })
+          .layoutGroup(settings, (nested) =>
+            nested
+              .layout({ loader: () => Effect.succeed("prefs"), component: () => empty })
+              .handle("profile", { loader: () => "me", component: () => empty }),
+          ),
+      );
+
+      const state = Option.getOrThrow((await renderServer(handlersLayer)).state);
+      expect(state.routeName).toBe("profile");
+      expect(state.loaderData).toBe("me");
+      expect(state.layoutData).toEqual({ dashboard: { team: "core" }, settings: "prefs" });
+    });
+
+    test("layout loaders run in parallel with the route loader", async () => {
+      // Every loader waits until all three have started, so a sequential run would hang
+      const started = Effect.runSync(Effect.makeLatch(false));
+      let count = 0;
+      const rendezvous = (value: string) =>
+        Effect.suspend(() => {
+          count++;
+          return count === 3 ? started.open : Effect.void;
+        }).pipe(Effect.zipRight(started.await), Effect.as(value));
+
+      const handlersLayer = RouterBuilder.layoutGroup(router, dashboard, (handlers) =>
+        handlers
+          .layout({ loader: () => rendezvous("dashboard"), component: () => empty })
+          .layoutGroup(settings, (nested) =>
+            nested
+              .layout({ loader: () => rendezvous("settings"), component: () => empty })
+              .handle("profile", { loader: () => rendezvous("profile"), component: () => empty }),
+          ),
+      );
+
+      const state = Option.getOrThrow((await renderServer(handlersLayer)).state);
+      expect(state.loaderData).toBe("profile");
+      expect(state.layoutData).toEqual({ dashboard: "dashboard", settings: "settings" });
+    });
+
+    test("nested outlets render each layout with its loader data", async () => {
+      const handlersLayer = RouterBuilder.layoutGroup(router, dashboard, (handlers) =>
+        handlers
+          .layout({
+            loader: () => "Dashboard",
+            component: ({ loaderData }) =>
+              h("main", null, String(loaderData), h(RouterOutlet, null)),
+          })
+          .layoutGroup(settings, (nested) =>
+            nested
+              .layout({
+                loader: () => "Settings",
+                component: ({ loaderData }) =>
+                  h("section", null, String(loaderData), h(RouterOutlet, null)),
+              })
+              .handle("profile", {
+                loader: () => "Profile",
+                component: ({ loaderData }) => h("p", null, String(loaderData)),
+              }),
+          ),
+      );
+
+      const { html } = await Effect.runPromise(
+        renderToStringWith(h(RouterOutlet, null)).pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/dashboard/settings/profile" }).pipe(
+              Layer.provideMerge(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+
+      expect(html).toContain("<main>Dashboard<section>Settings<p>Profile</p></section></main>");
+    });
+
+    test("an outlet rendered by a layout's child component renders the next level", async () => {
+      const Shell = (props: { title: string }) =>
+        Effect.succeed(h("main", null, props.title, h(RouterOutlet, null)));
+      const handlersLayer = RouterBuilder.layoutGroup(router, dashboard, (handlers) =>
+        handlers
+          .layout(() => h(Shell, { title: "Dashboard" }))
+          .layoutGroup(settings, (nested) =>
+            nested
+              .layout(() => h("section", null, h(Shell, { title: "Settings" })))
+              .handle("profile", { component: () => h("p", null, "Profile") }),
+          ),
+      );
+
+      const { html } = await Effect.runPromise(
+        renderToStringWith(h(RouterOutlet, null)).pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/dashboard/settings/profile" }).pipe(
+              Layer.provideMerge(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+
+      expect(html).toContain(
+        "<main>Dashboard<section><main>Settings<p>Profile</p></main></section></main>",
+      );
+    });
+  });
+
+  describe("beforeLoad guards", () => {
+    class CurrentUser extends Context.Tag("test/CurrentUser")<CurrentUser, string>() {}
+    class Team extends Context.Tag("test/Team")<Team, string>() {}
+
+    const profile = Route.get("profile", "/profile");
+    const settings = Router.layout("settings", "/settings").add(profile);
+    const dashboard = Router.layout("dashboard", "/dashboard").add(settings);
+    const home = Route.get("home", "/");
+    const app = Router.group("app").add(home);
+    const router = Router.make("root").add(dashboard).add(app);
+
+    const renderServer = (
+      handlersLayer: Layer.Layer<RouterBuilder.RouterHandlers>,
+      pathname = "/dashboard/settings/profile",
+    ) =>
+      Effect.runPromise(
+        renderToStringWith(h(RouterOutlet, null)).pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname }).pipe(
+              Layer.provideMerge(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+          Effect.either,
+        ),
+      );
+
+    test("hooks run from the outermost layout inward, providing services to loaders and components", async () => {
+      const order: Array<string> = [];
+      const handlersLayer = RouterBuilder.layoutGroup(router, dashboard, (handlers) =>
+        handlers
+          .beforeLoad(() =>
+            Effect.sync(() => {
+              order.push("dashboard");
+              return Context.make(CurrentUser, "ada");
+            }),
+          )
+          .layout({
+            loader: () => CurrentUser,
+            component: ({ loaderData }) => h("main", null, loaderData, h(RouterOutlet, null)),
+          })
+          .layoutGroup(settings, (nested) =>
+            nested
+              .beforeLoad(() =>
+                Effect.map(CurrentUser, (user) => {
+                  order.push("settings");
+                  return Context.make(Team, `${user}/core`);
+                }),
+              )
+              .layout(() => h("section", null, h(RouterOutlet, null)))
+              .handle("profile", {
+                beforeLoad: () => Effect.sync(() => void order.push("profile")),
+                loader: () => Team,
+                component: ({ loaderData, context }) =>
+                  h("p", null, `${loaderData}:${Context.get(context, CurrentUser)}`),
+              }),
+          ),
+      );
+
+      const { html, state } = await Effect.runPromise(
+        Effect.gen(function* () {
+          const current = yield* Router.CurrentRouteElement;
+          const rendered = yield* renderToStringWith(current.element);
+          return { html: rendered.html, state: current.state };
+        }).pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/dashboard/settings/profile" }).pipe(
+              Layer.provide(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+      expect(order).toEqual(["dashboard", "settings", "profile"]);
+      expect(Option.getOrThrow(state).layoutData).toEqual({ dashboard: "ada", settings: null });
+      expect(html).toBe("<p>ada/core:ada</p>");
+    });
+
+    test("components nested in a layout or route yield the services its beforeLoad provided", async () => {
+      const Greeting = () => Effect.map(CurrentUser, (user) => h("em", null, user));
+      const Badge = () =>
+        Effect.gen(function* () {
+          return h("b", null, `${yield* Team}:${yield* CurrentUser}`);
+        });
+      const handlersLayer = RouterBuilder.layoutGroup(router, dashboard, (handlers) =>
+        handlers
+          .beforeLoad(() => Effect.succeed(Context.make(CurrentUser, "ada")))
+          .layout(() => h("main", null, h(Greeting, null), h(RouterOutlet, null)))
+          .layoutGroup(settings, (nested) =>
+            nested
+              .beforeLoad(() =>
+                Effect.map(CurrentUser, (user) => Context.make(Team, `${user}/core`)),
+              )
+              .layout(() => h(RouterOutlet, null))
+              .handle("profile", { component: () => h("p", null, h(Badge, null)) }),
+          ),
+      );
+
+      const result = await renderServer(handlersLayer);
+      expect(Either.getOrThrow(result).html).toContain(
+        "<main><em>ada</em><p><b>ada/core:ada</b></p></main>",
+      );
+    });
+
+    test("a Redirect from a layout's beforeLoad skips every loader inside it", async () => {
+      const loaded: Array<string> = [];
+      const handlersLayer = RouterBuilder.layoutGroup(router, dashboard, (handlers) =>
+        handlers
+          .beforeLoad(() => Effect.fail(new Redirect({ to: "/" })))
+          .layout({
+            loader: () => Effect.sync(() => loaded.push("dashboard")),
+            component: () => h(RouterOutlet, null),
+          })
+          .layoutGroup(settings, (nested) =>
+            nested.handle("profile", {
+              loader: () => Effect.sync(() => loaded.push("profile")),
+              component: () => h("p", null),
+            }),
+          ),
+      );
+
+      const result = await renderServer(handlersLayer);
+      expect(Either.flip(result).pipe(Either.getOrThrow)).toEqual(new Redirect({ to: "/" }));
+      expect(loaded).toEqual([]);
+    });
+
+    test("a route group's hook runs before its handlers' own", async () => {
+      const handlersLayer = RouterBuilder.group(router, app, (handlers) =>
+        handlers
+          .beforeLoad(() => Effect.succeed(Context.make(CurrentUser, "grace")))
+          .handle("home", {
+            beforeLoad: () =>
+              Effect.map(CurrentUser, (user) => Context.make(Team, user.toUpperCase())),
+            loader: () => Team,
+            component: ({ loaderData }) => h("p", null, loaderData),
+          }),
+      );
+
+      const result = await renderServer(handlersLayer, "/");
+      expect(Either.getOrThrow(result).html).toContain("<p>GRACE</p>");
+    });
+  });
+
+  describe("notFound and errorComponent", () => {
+    const home = Route.get("home", "/");
+    const broken = Route.get("broken", "/broken");
+    const profile = Route.get("profile", "/profile");
+    const appGroup = Router.group("app").add(home).add(broken);
+    const dashboard = Router.layout("dashboard", "/dashboard").add(profile);
+    const router = Router.make("root").add(appGroup).add(dashboard);
+
+    const text = (tag: string, value: string) => h(tag, null, value);
+
+    const appHandlers = (
+      build: (
+        handlers: RouterBuilder.GroupHandlers<"app", "home" | "broken">,
+      ) => RouterBuilder.GroupHandlers<"app", "home" | "broken">,
+    ) =>
+      RouterBuilder.group(router, appGroup, (handlers) =>
+        build(
+          handlers
+            .handle("home", { loader: () => "home", component: () => text("p", "Home") })
+            .handle("broken", {
+              loader: () => Effect.fail("boom"),
+              component: () => text("p", "Broken"),
+            }),
+        ),
+      );
+
+    const renderServer = (
+      handlersLayer: Layer.Layer<RouterBuilder.RouterHandlers>,
+      pathname: string,
+    ) =>
+      Effect.runPromise(
+        Router.CurrentRouteElement.pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname, search: "?q=1" }).pipe(
+              Layer.provide(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+
+    test("unmatched paths render the default 404 with status 404", async () => {
+      const result = await renderServer(
+        appHandlers((handlers) => handlers),
+        "/missing",
+      );
+      expect(result.status).toBe(404);
+      expect(Option.isNone(result.state)).toBe(true);
+      expect(result.element).toEqual(h("div", null, "404 - Not Found"));
+    });
+
+    test("router-level notFound receives the pathname and search params", async () => {
+      const handlersLayer = RouterBuilder.router(router, {
+        notFound: ({ pathname, searchParams }) => text("h1", `${pathname}?q=${searchParams.q}`),
+      }).pipe(Layer.provide(appHandlers((handlers) => handlers)));
+
+      const result = await renderServer(handlersLayer, "/missing");
+      expect(result.status).toBe(404);
+      expect(result.element).toEqual(text("h1", "/missing?q=1"));
+    });
+
+    test("serverLayer's notFound option renders the notFound even where a route matches", async () => {
+      const handlersLayer = RouterBuilder.router(router, {
+        notFound: ({ pathname }) => text("h1", `Not found: ${pathname}`),
+      }).pipe(Layer.provide(appHandlers((handlers) => handlers)));
+
+      const result = await Effect.runPromise(
+        Router.CurrentRouteElement.pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/", notFound: true }).pipe(
+              Layer.provide(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+      expect(result.status).toBe(404);
+      expect(result.element).toEqual(text("h1", "Not found: /"));
+    });
+
+    test("a layout group's notFound wins under its basePath", async () => {
+      const dashboardHandlers = RouterBuilder.layoutGroup(router, dashboard, (handlers) =>
+        handlers
+          .layout(() => text("main", "Dashboard"))
+          .notFound(({ pathname }) => text("h1", `Dashboard: ${pathname}`))
+          .handle("profile", { component: () => text("p", "Profile") }),
+      );
+      const handlersLayer = RouterBuilder.router(router, {
+        notFound: () => text("h1", "Router"),
+      }).pipe(Layer.provide(dashboardHandlers));
+
+      const inside = await renderServer(handlersLayer, "/dashboard/missing");
+      expect(inside.element).toEqual(text("h1", "Dashboard: /dashboard/missing"));
+
+      const outside = await renderServer(handlersLayer, "/missing");
+      expect(outside.element).toEqual(text("h1", "Router"));
+    });
+
+    test("a failing loader renders the group's errorComponent with status 500", async () => {
+      const handlersLayer = appHandlers((handlers) =>
+        handlers.errorComponent(({ routeName, error }) =>
+          text("h1", `${Option.getOrElse(routeName, () => "?")}: ${String(error)}`),
+        ),
+      );
+
+      const result = await renderServer(handlersLayer, "/broken");
+      expect(result.status).toBe(500);
+      expect(Option.isNone(result.state)).toBe(true);
+      expect(result.element).toEqual(text("h1", "broken: boom"));
+    });
+
+    test("a failing loader without an errorComponent fails the layer", async () => {
+      const exit = await Effect.runPromiseExit(
+        Router.CurrentRouteElement.pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/broken" }).pipe(
+              Layer.provide(appHandlers((handlers) => handlers)),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+      expect(exit._tag).toBe("Failure");
+    });
+
+    test("RouterOutlet renders the resolved notFound on the client path", async () => {
+      const handlersLayer = RouterBuilder.router(router, {
+        notFound: ({ pathname }) => text("h1", `Nothing at ${pathname}`),
+      }).pipe(Layer.provide(appHandlers((handlers) => handlers)));
+
+      const { html } = await Effect.runPromise(
+        renderToStringWith(h(RouterOutlet, null)).pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/missing" }).pipe(
+              Layer.provideMerge(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+      expect(html).toContain("<h1>Nothing at /missing</h1>");
+    });
+  });
+
+  describe("revalidation", () => {
+    const post = Route.get("post", "/post");
+    const other = Route.get("other", "/other");
+    const shell = Router.layout("shell", "/shell").add(post);
+    const appGroup = Router.group("app").add(other);
+    const router = Router.make("root").add(shell).add(appGroup);
+
+    /** Loaders that count their runs, rendering "layout:N" and "post:N". */
+    const counters = (options: {
+      layoutShouldRevalidate?: (ctx: RouterBuilder.ShouldRevalidateContext) => boolean;
+    }) => {
+      const runs = { layout: 0, post: 0 };
+      const layer = RouterBuilder.layoutGroup(router, shell, (handlers) =>
+        handlers
+          .layout({
+            loader: () => ++runs.layout,
+            component: ({ loaderData }) => h("main", null, `layout:${loaderData}`),
+            shouldRevalidate: options.layoutShouldRevalidate,
+          })
+          .handle("post", {
+            loader: () => ++runs.post,
+            component: ({ loaderData }) => h("p", null, `post:${loaderData}`),
+          }),
+      );
+      return { runs, layer };
+    };
+
+    /** Render the root outlet, trigger `interact` after its first element, collect two. */
+    const renderTwice = (
+      handlersLayer: Layer.Layer<RouterBuilder.RouterHandlers>,
+      interact: (
+        navigator: Navigator["Type"],
+      ) => Effect.Effect<void, never, AtomRegistry.AtomRegistry>,
+    ) =>
+      Effect.runPromise(
+        Effect.gen(function* () {
+          const navigator = yield* Navigator;
+          const rendered = yield* Deferred.make<void>();
+          const fiber = yield* RouterOutlet().pipe(
+            Stream.tap(() => Deferred.succeed(rendered, undefined)),
+            Stream.take(2),
+            Stream.runCollect,
+            Effect.fork,
+          );
+          yield* Deferred.await(rendered);
+          yield* interact(navigator);
+          return Array.from(yield* Fiber.join(fiber));
+        }).pipe(
+          Effect.scoped,
+          Effect.provide(
+            NavigatorLive(router).pipe(
+              Layer.provideMerge(MemoryHistoryLive({ initialPathname: "/shell/post" })),
+              Layer.provideMerge(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+
+    test("revalidate() reruns the layout and route loaders in place", async () => {
+      const { runs, layer } = counters({});
+      const elements = await renderTwice(layer, (navigator) => navigator.revalidate());
+      // Each layout renders under the ContextProvider giving its outlet the next depth
+      expect(elements.map((e) => e.props.children![0].props.children)).toEqual([
+        [{ type: "TEXT_ELEMENT", props: { nodeValue: "layout:1", children: [] } }],
+        [{ type: "TEXT_ELEMENT", props: { nodeValue: "layout:2", children: [] } }],
+      ]);
+      expect(runs).toEqual({ layout: 2, post: 2 });
+    });
+
+    test("shouldRevalidate can keep a level's data", async () => {
+      let actionResult: Option.Option<unknown> = Option.none();
+      const { runs, layer } = counters({
+        layoutShouldRevalidate: (ctx) => {
+          actionResult = ctx.actionResult;
+          return false;
+        },
+      });
+      await renderTwice(layer, (navigator) => navigator.revalidate({ actionResult: "saved" }));
+      expect(runs).toEqual({ layout: 1, post: 2 });
+      expect(actionResult).toEqual(Option.some("saved"));
+    });
+
+    test("invalidate(name) reruns only that loader by default", async () => {
+      const { runs, layer } = counters({});
+      await renderTwice(layer, (navigator) => navigator.invalidate("post"));
+      expect(runs).toEqual({ layout: 1, post: 2 });
+    });
+  });
+
+  describe("navigation by route name", () => {
+    const post = Route.get("post", "/posts/:id", { id: Schema.NumberFromString }).setSearchParams(
+      Schema.Struct({ sort: Schema.optional(Schema.String) }),
+    );
+    const overview = Route.get("overview", "/");
+    const dashboard = Router.layout("dashboard", "/dashboard").add(overview).add(post);
+    const router = Router.make("root").add(dashboard);
+
+    const runNavigator = <A, E>(effect: Effect.Effect<A, E, Navigator | History>) =>
+      Effect.runPromise(
+        effect.pipe(
+          Effect.scoped,
+          Effect.provide(
+            NavigatorLive(router, { basePath: "/app" }).pipe(
+              Layer.provideMerge(MemoryHistoryLive({ initialPathname: "/app/dashboard" })),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+
+    test("navigate builds the href from the route's pattern, params and search", async () => {
+      const location = await runNavigator(
+        Effect.gen(function* () {
+          const navigator = yield* Navigator;
+          const history = yield* History;
+          yield* navigator.navigate({ to: "post", params: { id: 42 }, search: { sort: "date" } });
+          const registry = yield* AtomRegistry.AtomRegistry;
+          return registry.get(history.location);
+        }),
+      );
+      expect(`${location.pathname}${location.search}`).toBe("/app/dashboard/posts/42?sort=date");
+    });
+
+    test("a layout's index route navigates to the layout's basePath", async () => {
+      const pathname = await runNavigator(
+        Effect.gen(function* () {
+          const navigator = yield* Navigator;
+          yield* navigator.navigate({ to: "post", params: { id: 1 } });
+          yield* navigator.navigate({ to: "overview" });
+          return navigator.currentPathname;
+        }),
+      );
+      expect(pathname).toBe("/dashboard");
+    });
+
+    test("navigate fails with RouteError for an unknown route", async () => {
+      const error = await runNavigator(
+        Effect.gen(function* () {
+          const navigator = yield* Navigator;
+          return yield* Effect.flip(navigator.navigate({ to: "missing" } as never));
+        }),
+      );
+      expect(error._tag).toBe("RouteError");
+    });
+
+    test("Link renders a route target's href", async () => {
+      const { html } = await runNavigator(
+        renderToStringWith(h(Link, { to: "post", params: { id: 7 } }, "Post 7")),
+      );
+      expect(html).toBe('<a href="/app/dashboard/posts/7">Post 7</a>');
+    });
+  });
+
+  describe("typed search params", () => {
+    const search = Schema.Struct({
+      page: Schema.optionalWith(Schema.NumberFromString, { default: () => 1 }),
+      draft: Schema.optional(Schema.BooleanFromString),
+      tag: Schema.optionalWith(Schema.Array(Schema.String), { default: () => [] }),
+    });
+    const posts = Route.get("posts", "/posts").setSearchParams(search);
+    const archive = Route.get("archive", "/archive").setSearchParams(search, {
+      fallback: () => ({ page: 1, tag: [] }),
+    });
+    const appGroup = Router.group("app").add(posts).add(archive);
+    const router = Router.make("root").add(appGroup);
+
+    const runAt = <A, E>(
+      url: string,
+      effect: Effect.Effect<A, E, Navigator | History | AtomRegistry.AtomRegistry>,
+    ) => {
+      const [initialPathname, initialSearch = ""] = url.split("?");
+      return Effect.runPromise(
+        effect.pipe(
+          Effect.scoped,
+          Effect.provide(
+            NavigatorLive(router).pipe(
+              Layer.provideMerge(
+                MemoryHistoryLive({
+                  initialPathname,
+                  initialSearch: initialSearch && `?${initialSearch}`,
+                }),
+              ),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+    };
+
+    const currentRoute = Effect.gen(function* () {
+      const navigator = yield* Navigator;
+      const registry = yield* AtomRegistry.AtomRegistry;
+      return Option.getOrThrow(registry.get(navigator.currentRoute));
+    });
+
+    test("search params are decoded with the route's schema", async () => {
+      const route = await runAt("/posts?page=2&draft=true&tag=a&tag=b&other=x", currentRoute);
+      expect(route.searchParams).toEqual({ page: 2, draft: true, tag: ["a", "b"] });
+      expect(route.searchError).toBeUndefined();
+    });
+
+    test("defaults fill in absent keys and a single value decodes as an array", async () => {
+      const route = await runAt("/posts?tag=a", currentRoute);
+      expect(route.searchParams).toEqual({ page: 1, tag: ["a"] });
+    });
+
+    test("search params that don't decode set searchError, or use the fallback", async () => {
+      const invalid = await runAt("/posts?page=abc", currentRoute);
+      expect(invalid.searchError?._tag).toBe("SearchParamsError");
+      expect(invalid.searchParams).toEqual({ page: "abc" });
+
+      const fallback = await runAt("/archive?page=abc", currentRoute);
+      expect(fallback.searchError).toBeUndefined();
+      expect(fallback.searchParams).toEqual({ page: 1, tag: [] });
+    });
+
+    test("searchAtom writes merge into the search and keep the path", async () => {
+      const { location, value } = await runAt(
+        "/posts?tag=a",
+        Effect.gen(function* () {
+          const atom = yield* searchAtom(posts);
+          const registry = yield* AtomRegistry.AtomRegistry;
+          const history = yield* History;
+          registry.set(atom, { page: 3, tag: ["a", "b"] });
+          return { location: registry.get(history.location), value: registry.get(atom) };
+        }),
+      );
+      expect(`${location.pathname}${location.search}`).toBe("/posts?page=3&tag=a&tag=b");
+      expect(value).toEqual({ page: 3, tag: ["a", "b"] });
+    });
+
+    test("searchAtom writes wait for an async blocker", async () => {
+      const paths = await runAt(
+        "/posts",
+        Effect.gen(function* () {
+          const atom = yield* searchAtom(posts);
+          const registry = yield* AtomRegistry.AtomRegistry;
+          const history = yield* History;
+          const path = () => {
+            const location = registry.get(history.location);
+            return `${location.pathname}${location.search}`;
+          };
+          let blocking = true;
+          yield* history.block(() => Effect.sleep("10 millis").pipe(Effect.as(blocking)));
+
+          registry.set(atom, { page: 2 });
+          yield* Effect.sleep("30 millis");
+          const blocked = path();
+          blocking = false;
+          registry.set(atom, { page: 3 });
+          const waiting = path();
+          yield* Effect.sleep("30 millis");
+          return [blocked, waiting, path()];
+        }),
+      );
+      expect(paths).toEqual(["/posts", "/posts", "/posts?page=3"]);
+    });
+
+    test("the server renders the errorComponent with status 400 for invalid search", async () => {
+      const result = await Effect.runPromise(
+        Router.CurrentRouteElement.pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/posts", search: "?page=abc" }).pipe(
+              Layer.provide(
+                RouterBuilder.group(router, appGroup, (handlers) =>
+                  handlers
+                    .handle("posts", {
+                      loader: ({ searchParams }) => searchParams.page,
+                      component: ({ loaderData }) => h("p", null, `Page ${loaderData}`),
+                    })
+                    .handle("archive", { component: () => h("p", null, "Archive") })
+                    .errorComponent(({ error }) =>
+                      h("h1", null, (error as Route.SearchParamsError)._tag),
+                    ),
+                ),
+              ),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+      expect(result.status).toBe(400);
+      expect(result.element).toEqual(h("h1", null, "SearchParamsError"));
+    });
+  });
+
+  describe("navigation blocking", () => {
+    const home = Route.get("home", "/");
+    const editor = Route.get("editor", "/editor");
+    const router = Router.make("root").add(Router.group("app").add(home).add(editor));
+
+    const runNavigator = <A, E>(effect: Effect.Effect<A, E, Navigator | History>) =>
+      Effect.runPromise(
+        effect.pipe(
+          Effect.scoped,
+          Effect.provide(
+            NavigatorLive(router).pipe(
+              Layer.provideMerge(MemoryHistoryLive({ initialPathname: "/editor" })),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+
+    // A component scope that closes when the component "unmounts"
+    const mount = Effect.gen(function* () {
+      const scope = yield* Scope.make();
+      const mounted = yield* Deferred.make<void>();
+      return { unmount: Scope.close(scope, Exit.void), component: { scope, mounted } };
+    });
+
+    test("a blocker stops push, replace and pop while its component is mounted", async () => {
+      const transitions: Array<string> = [];
+      const paths: Array<string> = [];
+      await runNavigator(
+        Effect.gen(function* () {
+          const navigator = yield* Navigator;
+          const { unmount, component } = yield* mount;
+          yield* navigator.go("/");
+          yield* navigator.go("/editor");
+
+          yield* navigator
+            .block((transition) =>
+              Effect.sync(() => {
+                transitions.push(transition.action);
+                return true;
+              }),
+            )
+            .pipe(Effect.provideService(ComponentScope, component));
+
+          yield* navigator.go("/");
+          yield* navigator.go("/", { replace: true });
+          yield* navigator.back;
+          paths.push(navigator.currentPathname);
+
+          yield* unmount;
+          yield* navigator.go("/");
+          paths.push(navigator.currentPathname);
+        }),
+      );
+      expect(transitions).toEqual(["push", "replace", "pop"]);
+      expect(paths).toEqual(["/editor", "/"]);
+    });
+
+    test("history entries keep their key across back/forward; push and replace make new ones", async () => {
+      const keys = await runNavigator(
+        Effect.gen(function* () {
+          const history = yield* History;
+          const registry = yield* AtomRegistry.AtomRegistry;
+          const key = () => registry.get(history.location).key;
+          const initial = key();
+          yield* history.push("/");
+          const pushed = key();
+          yield* history.replace("/editor");
+          const replaced = key();
+          yield* history.back;
+          const back = key();
+          yield* history.forward;
+          return { initial, pushed, replaced, back, forward: key() };
+        }),
+      );
+      expect(keys.initial).toBe("default");
+      expect(new Set([keys.initial, keys.pushed, keys.replaced]).size).toBe(3);
+      expect(keys.back).toBe("default");
+      expect(keys.forward).toBe(keys.replaced);
+    });
+
+    test("memory history starts from an entries stack and moves through it with go(n)", async () => {
+      const steps = await Effect.runPromise(
+        Effect.gen(function* () {
+          const history = yield* History;
+          const registry = yield* AtomRegistry.AtomRegistry;
+          const step = Effect.gen(function* () {
+            const { pathname, search } = registry.get(history.location);
+            return {
+              path: `${pathname}${search}`,
+              back: yield* history.canGoBack,
+              forward: yield* history.canGoForward,
+            };
+          });
+          const start = yield* step;
+          yield* history.go(-1);
+          const first = yield* step;
+          yield* history.go(5);
+          const outOfRange = yield* step;
+          yield* history.go(2);
+          return [start, first, outOfRange, yield* step];
+        }).pipe(
+          Effect.scoped,
+          Effect.provide(
+            MemoryHistoryLive({
+              initialEntries: ["/", "/posts?page=2", "/editor"],
+              initialIndex: 1,
+            }).pipe(Layer.provideMerge(AtomRegistry.layer)),
+          ),
+        ),
+      );
+      expect(steps).toEqual([
+        { path: "/posts?page=2", back: true, forward: true },
+        { path: "/", back: false, forward: true },
+        { path: "/", back: false, forward: true },
+        { path: "/editor", back: true, forward: false },
+      ]);
+    });
+
+    test("blockers see where a pop leads and can let it through", async () => {
+      const pathname = await runNavigator(
+        Effect.gen(function* () {
+          const navigator = yield* Navigator;
+          const { component } = yield* mount;
+          yield* navigator.go("/");
+          yield* navigator
+            .block((transition) =>
+              Effect.succeed(
+                transition.action === "pop" &&
+                  Option.exists(transition.next, (next) => next.pathname !== "/editor"),
+              ),
+            )
+            .pipe(Effect.provideService(ComponentScope, component));
+          yield* navigator.back;
+          return navigator.currentPathname;
+        }),
+      );
+      expect(pathname).toBe("/editor");
+    });
+  });
+
+  describe("fetchers", () => {
+    const posts = Route.get("posts", "/posts");
+    const appGroup = Router.group("app").add(posts);
+    const router = Router.make("root").add(appGroup);
+
+    test("track concurrent submissions through Pending to their outcome", async () => {
+      const result = await Effect.runPromise(
+        Effect.gen(function* () {
+          const release = yield* Deferred.make<void>();
+          const handlersLayer = RouterBuilder.group(router, appGroup, (handlers) =>
+            handlers.handle("posts", {
+              loader: () => "posts",
+              action: {
+                schema: Schema.Struct({ title: Schema.NonEmptyString }),
+                handler: ({ payload, reportProgress }) =>
+                  Effect.sync(() => reportProgress({ loaded: 1, total: 2 })).pipe(
+                    Effect.zipRight(Deferred.await(release)),
+                    Effect.as({ saved: payload.title }),
+                  ),
+              },
+              component: () => h("p", null, "Posts"),
+            }),
+          );
+          return yield* Effect.gen(function* () {
+            const registry = yield* AtomRegistry.AtomRegistry;
+            const first = yield* fetcher("first");
+            const second = yield* fetcher("second");
+
+            const submitted = form({ title: "Hello" });
+            const pendingFirst = yield* Effect.fork(first.submit(submitted));
+            const pendingSecond = yield* Effect.fork(second.submit(form({ title: "" })));
+            yield* Effect.sleep(0);
+            const pending = registry.get(pendingFetchersAtom).map((f) => f.key);
+            const optimistic = registry.get(first.atom).formData;
+            const progress = registry.get(first.atom).state;
+
+            yield* Deferred.succeed(release, undefined);
+            yield* Fiber.join(pendingFirst);
+            yield* Fiber.join(pendingSecond);
+            return {
+              pending,
+              optimistic,
+              progress,
+              first: registry.get(fetcherAtom("first")),
+              second: registry.get(fetcherAtom("second")).state._tag,
+              after: registry.get(pendingFetchersAtom),
+              submitted,
+            };
+          }).pipe(
+            Effect.provide(
+              NavigatorLive(router).pipe(
+                Layer.provideMerge(MemoryHistoryLive({ initialPathname: "/posts" })),
+                Layer.provideMerge(handlersLayer),
+                Layer.provideMerge(AtomRegistry.layer),
+              ),
+            ),
+          );
+        }),
+      );
+      // The invalid submission settles without waiting for the action
+      expect(result.pending).toEqual(["first"]);
+      expect(result.optimistic).toEqual(Option.some(result.submitted));
+      expect(result.progress).toEqual({ _tag: "Pending", progress: { loaded: 1, total: 2 } });
+      expect(result.first).toEqual({
+        key: "first",
+        state: { _tag: "Success", data: { saved: "Hello" } },
+        formData: Option.none(),
+        actionData: Option.some({ saved: "Hello" }),
+      });
+      expect(result.second).toBe("Failure");
+      expect(result.after).toEqual([]);
+    });
+
+    test("components inside a Form read its field errors, keyed by nested field names", async () => {
+      const handlersLayer = RouterBuilder.group(router, appGroup, (handlers) =>
+        handlers.handle("posts", {
+          loader: () => "posts",
+          action: {
+            schema: Schema.Struct({
+              items: Schema.Array(Schema.Struct({ title: Schema.NonEmptyString })),
+            }),
+            handler: ({ payload }) => Effect.succeed(payload),
+          },
+          component: () => h("p", null, "Posts"),
+        }),
+      );
+      const InvalidFields = () =>
+        Effect.gen(function* () {
+          const { fieldErrors } = yield* FormState;
+          const errors = yield* Atom.get(fieldErrors);
+          return h("span", null, Object.keys(errors).join(","));
+        });
+
+      const { success, html } = await Effect.runPromise(
+        Effect.gen(function* () {
+          const lists = yield* fetcher("lists");
+          const valid = yield* lists.submit(form({ "items[0].title": "a", "items[1].title": "b" }));
+          yield* lists.submit(form({ "items[0].title": "a", "items[1].title": "" }));
+          const rendered = yield* renderToStringWith(
+            h(Form, { fetcherKey: "lists" }, h("div", null, h(InvalidFields, null))),
+          );
+          return { success: valid, html: rendered.html };
+        }).pipe(
+          Effect.provide(
+            NavigatorLive(router).pipe(
+              Layer.provideMerge(MemoryHistoryLive({ initialPathname: "/posts" })),
+              Layer.provideMerge(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+      expect(success).toEqual({
+        _tag: "Success",
+        data: { items: [{ title: "a" }, { title: "b" }] },
+      });
+      expect(html).toContain("<span>items[1].title</span>");
+    });
+
+    test("a Form without a fetcherKey keeps its submission across re-renders until it unmounts", async () => {
+      const handlersLayer = RouterBuilder.group(router, appGroup, (handlers) =>
+        handlers.handle("posts", {
+          loader: () => "posts",
+          action: {
+            schema: Schema.Struct({ title: Schema.NonEmptyString }),
+            handler: ({ payload }) => Effect.succeed(payload),
+          },
+          component: () => h("p", null, "Posts"),
+        }),
+      );
+      const Fields = () => h("span", null);
+
+      const errors = await Effect.runPromise(
+        Effect.gen(function* () {
+          const registry = yield* AtomRegistry.AtomRegistry;
+          const first = yield* Scope.make();
+          // Re-renders get a new scope on the instance's ComponentScope, as in the renderer
+          const component = { scope: first as Scope.Scope, mounted: yield* Deferred.make<void>() };
+          const render = Form({ children: { type: Fields, props: { children: [] } } }).pipe(
+            Effect.provideService(ComponentScope, component),
+          );
+          // The form's children render, unchanged, under a ContextProvider for its FormState
+          const fieldErrors = (element: VElement) => {
+            const provider = element.props.children![0];
+            expect(provider.props.children![0].type).toBe(Fields);
+            const context = provider.props.context as Context.Context<FormState>;
+            return Object.keys(registry.get(Context.get(context, FormState).fieldErrors));
+          };
+
+          const initial = yield* render;
+          const onSubmit = initial.props.onSubmit as (e: unknown) => Effect.Effect<void>;
+          yield* onSubmit({ preventDefault: () => {}, target: undefined });
+
+          const second = yield* Scope.make();
+          component.scope = second;
+          const rerendered = yield* render;
+          const afterRerender = fieldErrors(rerendered);
+          yield* Scope.close(first, Exit.void);
+          const afterStaleScope = fieldErrors(rerendered);
+          yield* Scope.close(second, Exit.void);
+          return [afterRerender, afterStaleScope, fieldErrors(rerendered)];
+        }).pipe(
+          Effect.provide(
+            NavigatorLive(router).pipe(
+              Layer.provideMerge(MemoryHistoryLive({ initialPathname: "/posts" })),
+              Layer.provideMerge(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+      expect(errors).toEqual([["title"], ["title"], []]);
+    });
+
+    test("a route's formAction re-renders the component as Pending, then with its outcome", async () => {
+      const texts = await Effect.runPromise(
+        Effect.gen(function* () {
+          const release = yield* Deferred.make<void>();
+          let formAction: RouterBuilder.ComponentProps["formAction"] = () => Effect.void;
+          const handlersLayer = RouterBuilder.group(router, appGroup, (handlers) =>
+            handlers.handle("posts", {
+              loader: () => "posts",
+              action: {
+                schema: Schema.Struct({ title: Schema.NonEmptyString }),
+                handler: ({ payload }) =>
+                  Effect.as(Deferred.await(release), { saved: payload.title }),
+              },
+              component: (props) => {
+                formAction = props.formAction;
+                const data = Option.match(props.actionData, {
+                  onNone: () => "-",
+                  onSome: (d: any) => d.saved ?? Object.keys(d.fieldErrors).join(","),
+                });
+                return h("p", null, `${props.submissionState._tag}:${data}`);
+              },
+            }),
+          );
+          return yield* Effect.gen(function* () {
+            const rendered = yield* Deferred.make<void>();
+            const fiber = yield* RouterOutlet().pipe(
+              Stream.tap(() => Deferred.succeed(rendered, undefined)),
+              Stream.take(5),
+              Stream.runCollect,
+              Effect.fork,
+            );
+            yield* Deferred.await(rendered);
+            yield* Effect.either(formAction({ title: "" }));
+            const saving = yield* Effect.fork(formAction({ title: "Hi" }));
+            yield* Deferred.succeed(release, undefined);
+            yield* Fiber.join(saving);
+            // Each element is the component under its ContextProvider
+            return Array.from(yield* Fiber.join(fiber), (element) =>
+              String(element.props.children![0].props.children![0].props.nodeValue),
+            );
+          }).pipe(
+            Effect.provide(
+              NavigatorLive(router).pipe(
+                Layer.provideMerge(MemoryHistoryLive({ initialPathname: "/posts" })),
+                Layer.provideMerge(handlersLayer),
+                Layer.provideMerge(AtomRegistry.layer),
+              ),
+            ),
+          );
+        }),
+      );
+      expect(texts).toEqual(["Idle:-", "Pending:-", "Failure:title", "Pending:-", "Success:Hi"]);
+    });
+  });
+
+  describe("deferred loader data", () => {
+    const post = Route.get("post", "/post");
+    const appGroup = Router.group("app").add(post);
+    const router = Router.make("root").add(appGroup);
+
+    test("Await renders a deferred value, and hydration reuses it without rerunning it", async () => {
+      let runs = 0;
+      const handlersLayer = RouterBuilder.group(router, appGroup, (handlers) =>
+        handlers.handle("post", {
+          loader: () =>
+            Effect.gen(function* () {
+              const comments = yield* defer(
+                Effect.sync(() => ++runs).pipe(
+                  Effect.delay("10 millis"),
+                  Effect.as(["first", "second"]),
+                ),
+              );
+              return { title: "Post", comments };
+            }),
+          component: ({ loaderData }) =>
+            h(
+              "article",
+              null,
+              h("h1", null, loaderData.title),
+              h(
+                Suspense,
+                { fallback: h("p", null, "Loading"), threshold: 1000 },
+                h(Await, {
+                  resolve: loaderData.comments,
+                  children: (comments: ReadonlyArray<string>) => h("p", null, comments.join(",")),
+                }),
+              ),
+            ),
+        }),
+      );
+
+      const server = await Effect.runPromise(
+        Effect.gen(function* () {
+          const { element, state } = yield* Router.CurrentRouteElement;
+          const rendered = yield* renderToStringWith(element);
+          return { ...rendered, state: JSON.parse(JSON.stringify(Option.getOrThrow(state))) };
+        }).pipe(
+          Effect.provide(
+            Router.serverLayer({ router, pathname: "/post" }).pipe(
+              Layer.provideMerge(handlersLayer),
+              Layer.provideMerge(AtomRegistry.layer),
+            ),
+          ),
+        ),
+      );
+      expect(server.html).toContain("<h1>Post</h1>");
+      expect(server.html).toContain("<p>first,second</p>");
+
+      // The client sees the loader data as serialized: the deferred value is a marker
+      const { comments } = server.state.loaderData;
+      const registry = AtomRegistry.make();
+      Hydration.hydrate(registry, JSON.parse(JSON.stringify(server.dehydratedState)));
+      const client = await Effect.runPromise(
+        renderToStringWith(
+          h(Await, {
+            resolve: comments,
+            children: (values: ReadonlyArray<string>) => h("p", null, values.join(",")),
+          }),
+        ).pipe(Effect.provideService(AtomRegistry.AtomRegistry, registry)),
+      );
+      expect(client.html).toBe("<p>first,second</p>");
+      expect(runs).toBe(1);
+    });
+  });
+
+  describe("lazy handlers", () => {
+    const post = Route.get("post", "/post");
+    const appGroup = Router.group("app").add(post);
+    const router = Router.make("root").add(appGroup);
+
+    test("a lazy handler imports its module on first match, once", async () => {
+      let imports = 0;
+      const load = Object.assign(
+        () => {
+          imports++;
+          return Promise.resolve({
+            default: {
+              loader: () => Effect.succeed("Lazy post"),
+              component: ({ loaderData }: RouterBuilder.ComponentProps<string>) =>
+                h("h1", null, loaderData),
+              head: ({ loaderData }: RouterBuilder.HeadContext<string>) => ({ title: loaderData }),
+            },
+          });
+        },
+        { moduleId: "src/post.tsx" },
+      );
+      const postHandler = RouterBuilder.lazy(load);
+      const handlersLayer = RouterBuilder.group(router, appGroup, (handlers) =>
+        handlers.handle("post", postHandler),
+      );
+
+      const render = Effect.gen(function* () {
+        const { element, head } = yield* Router.CurrentRouteElement;
+        const { html } = yield* renderToStringWith(element);
+        return { html, head };
+      }).pipe(
+        Effect.provide(
+          Router.serverLayer({ router, pathname: "/post" }).pipe(
+            Layer.provideMerge(handlersLayer),
+            Layer.provideMerge(AtomRegistry.layer),
+          ),
+        ),
+      );
+
+      expect(imports).toBe(0);
+      const first = await Effect.runPromise(render);
+      expect(first.html).toContain("<h1>Lazy post</h1>");
+      expect(Option.getOrThrow(first.head).title).toBe("Lazy post");
+      await Effect.runPromise(render);
+      expect(imports).toBe(1);
+
+      const routerHandlers = await Effect.runPromise(
+        Effect.provide(RouterBuilder.RouterHandlers, handlersLayer),
+      );
+      expect(RouterBuilder.getRouteModuleId(routerHandlers, "post")).toEqual(
+        Option.some("src/post.tsx"),
+      );
+    });
+  });
 });
@@ -12,19 +12,39 @@
  * - Router.browserLayer() - For client hydration with initial state
  */
 
-import type { Route } from "./Route.js";
+import { compareSpecificity, SearchParamsError, type AnyRoute, type Route } from "./Route.js";
 import * as Option from "effect/Option";
 import * as Effect from "effect/Effect";
 import * as Layer from "effect/Layer";
 import * as Context from "effect/Context";
 import * as Schema from "effect/Schema";
+import * as Cause from "effect/Cause";
+import * as Predicate from "effect/Predicate";
 import { Registry as AtomRegistry } from "@effect-atom/atom";
-import { History, MemoryHistoryLive, type HistoryLocation } from "./History.js";
-import { Navigator, NavigatorLive } from "./Navigator.js";
-import { RouterHandlers, type HeadData } from "./RouterBuilder.js";
+import { BrowserHistoryLive, History, MemoryHistoryLive } from "./History.js";
+import { Navigator, NavigatorLive, Redirect } from "./Navigator.js";
+import {
+  RouterHandlers,
+  executeLoaders,
+  resolveErrorComponent,
+  resolveNotFound,
+  runBeforeLoads,
+  type HeadData,
+  type SubmissionResult,
+  type SubmissionState,
+} from "./RouterBuilder.js";
 import { RouterStateAtom } from "./RouterState.js";
-import type { VElement } from "../shared.js";
-import { parseSearchParams, stripBasePath } from "./utils.js";
+import { submissionActionData, submissionFieldErrors } from "./Form.js";
+import { LoaderCacheLive, type LoaderCache, type LoaderCacheOptions } from "./LoaderCache.js";
+import {
+  ScrollRestorationLive,
+  type ScrollRestoration,
+  type ScrollRestorationOptions,
+} from "./ScrollRestoration.js";
+import type { VChild, VElement } from "../shared.js";
+import { h } from "../jsx-runtime/index.js";
+import { ContextProvider } from "../components.js";
+import { decodeSearchParams, parseSearchParams, stripBasePath } from "./utils.js";
 
 /**
  * Router error for route matching and navigation failures.
@@ -37,38 +57,75 @@ export class RouterError extends Schema.TaggedError<RouterError>()("RouterError"
 /**
  * A group of routes for organizational purposes.
  * Groups provide namespacing for handler implementation.
- * RouteNames accumulates route name literal types via .add() for type-safe navigation.
+ * RouteNames accumulates route name literal types via .add() for type-safe navigation;
+ * Routes accumulates the route types themselves, for typed params in navigate() and Link.
  */
 export interface RouteGroup<
   Name extends string = string,
   RouteNames extends string = never,
   RoutePaths extends string = never,
+  Routes extends AnyRoute = never,
 > {
   readonly _tag: "RouteGroup";
   readonly name: Name;
   readonly routes: readonly Route[];
-  readonly add: <RName extends string, RPath extends string>(
-    route: Route<RName, RPath>,
-  ) => RouteGroup<Name, RouteNames | RName, RoutePaths | RPath>;
+  readonly add: <
+    RName extends string,
+    RPath extends string,
+    RParams extends Record<string, unknown>,
+    RSearch extends Record<string, unknown>,
+  >(
+    route: Route<RName, RPath, RParams, RSearch>,
+  ) => RouteGroup<
+    Name,
+    RouteNames | RName,
+    RoutePaths | RPath,
+    Routes | Route<RName, RPath, RParams, RSearch>
+  >;
 }
 
 /**
  * A layout group wraps routes with a layout component.
  * The layout component should render <RouterOutlet /> for children.
- * RouteNames accumulates route name literal types via .add() for type-safe navigation.
+ * Layout groups nest: adding a layout group to another wraps its routes in both layouts.
+ * RouteNames accumulates route name literal types via .add() for type-safe navigation;
+ * Routes accumulates the route types themselves.
  */
 export interface LayoutGroup<
   Name extends string = string,
   RouteNames extends string = never,
   RoutePaths extends string = never,
+  Routes extends AnyRoute = never,
 > {
   readonly _tag: "LayoutGroup";
   readonly name: Name;
   readonly basePath: string;
   readonly routes: readonly Route[];
-  readonly add: <RName extends string, RPath extends string>(
-    route: Route<RName, RPath>,
-  ) => LayoutGroup<Name, RouteNames | RName, RoutePaths | RPath>;
+  /** Nested layout groups, matched relative to this group's basePath */
+  readonly layouts: readonly LayoutGroup[];
+  readonly add: {
+    <
+      RName extends string,
+      RPath extends string,
+      RParams extends Record<string, unknown>,
+      RSearch extends Record<string, unknown>,
+    >(
+      route: Route<RName, RPath, RParams, RSearch>,
+    ): LayoutGroup<
+      Name,
+      RouteNames | RName,
+      RoutePaths | RPath,
+      Routes | Route<RName, RPath, RParams, RSearch>
+    >;
+    <
+      GName extends string,
+      GRouteNames extends string,
+      GRoutePaths extends string,
+      GRoutes extends AnyRoute,
+    >(
+      layout: LayoutGroup<GName, GRouteNames, GRoutePaths, GRoutes>,
+    ): LayoutGroup<Name, RouteNames | GRouteNames, RoutePaths | GRoutePaths, Routes | GRoutes>;
+  };
 }
 
 /**
@@ -78,7 +135,10 @@ export type AnyGroup<
   Name extends string = string,
   RouteNames extends string = never,
   RoutePaths extends string = never,
-> = RouteGroup<Name, RouteNames, RoutePaths> | LayoutGroup<Name, RouteNames, RoutePaths>;
+  Routes extends AnyRoute = never,
+> =
+  | RouteGroup<Name, RouteNames, RoutePaths, Routes>
+  | LayoutGroup<Name, RouteNames, RoutePaths, Routes>;
 
 /**
  * Result of matching a route, including any layout wrappers.
@@ -93,21 +153,30 @@ export interface RouteMatch {
 
 /**
  * The complete router holding all route groups and enabling route matching.
- * RouteNames accumulates all route names from added groups for type-safe navigation.
+ * RouteNames accumulates all route names from added groups for type-safe navigation;
+ * Routes accumulates their route types, for typed params in navigate() and Link.
  */
 export interface Router<
   Name extends string = string,
   RouteNames extends string = never,
   RoutePaths extends string = never,
+  Routes extends AnyRoute = never,
 > {
   readonly name: Name;
   readonly groups: readonly AnyGroup[];
-  readonly add: <GName extends string, GRouteNames extends string, GRoutePaths extends string>(
-    group: AnyGroup<GName, GRouteNames, GRoutePaths>,
-  ) => Router<Name, RouteNames | GRouteNames, RoutePaths | GRoutePaths>;
+  readonly add: <
+    GName extends string,
+    GRouteNames extends string,
+    GRoutePaths extends string,
+    GRoutes extends AnyRoute,
+  >(
+    group: AnyGroup<GName, GRouteNames, GRoutePaths, GRoutes>,
+  ) => Router<Name, RouteNames | GRouteNames, RoutePaths | GRoutePaths, Routes | GRoutes>;
 
   /**
    * Match a pathname against all routes in the router.
+   * The most specific matching route wins, regardless of declaration order
+   * (static segments beat params, params beat splats).
    * Returns the matched route, group name, decoded path parameters,
    * and any layout groups that wrap the route.
    */
@@ -119,22 +188,38 @@ export interface Router<
  * Routes are added via group.add(route).
  * Route names accumulate as literal types through the builder chain.
  */
-export function group<const Name extends string>(name: Name): RouteGroup<Name, never, never> {
-  return createRouteGroup<Name, never, never>(name, []);
+export function group<const Name extends string>(
+  name: Name,
+): RouteGroup<Name, never, never, never> {
+  return createRouteGroup<Name, never, never, never>(name, []);
 }
 
-/** Internal helper — creates a RouteGroup with accumulated RouteNames and RoutePaths. */
+/** Internal helper — creates a RouteGroup with accumulated RouteNames, RoutePaths and Routes. */
 function createRouteGroup<
   Name extends string,
   RouteNames extends string,
   RoutePaths extends string,
->(name: Name, routes: readonly Route[]): RouteGroup<Name, RouteNames, RoutePaths> {
+  Routes extends AnyRoute,
+>(name: Name, routes: readonly Route[]): RouteGroup<Name, RouteNames, RoutePaths, Routes> {
   return {
     _tag: "RouteGroup",
     name,
     routes,
-    add: <RName extends string, RPath extends string>(route: Route<RName, RPath>) =>
-      createRouteGroup<Name, RouteNames | RName, RoutePaths | RPath>(name, [...routes, route]),
+    // Type-erasure boundary: routes are stored as Route; their params types live on in Routes
+    add: <
+      RName extends string,
+      RPath extends string,
+      RParams extends Record<string, unknown>,
+      RSearch extends Record<string, unknown>,
+    >(
+      route: Route<RName, RPath, RParams, RSearch>,
+    ) =>
+      createRouteGroup<
+        Name,
+        RouteNames | RName,
+        RoutePaths | RPath,
+        Routes | Route<RName, RPath, RParams, RSearch>
+      >(name, [...routes, route as Route]),
   };
 }
 
@@ -159,93 +244,162 @@ function createRouteGroup<
  *   .add(Route.get("overview", "/overview"))   // matches /dashboard/overview
  *   .add(Route.get("settings", "/settings"));  // matches /dashboard/settings
  * ```
+ *
+ * Layout groups can be added to other layout groups. Each level wraps the
+ * next, from outermost to innermost:
+ * ```typescript
+ * const SettingsRoutes = Router.layout("settings", "/settings")
+ *   .add(Route.get("profile", "/profile"));     // matches /dashboard/settings/profile
+ *
+ * const DashboardRoutes = Router.layout("dashboard", "/dashboard")
+ *   .add(Route.get("overview", "/overview"))
+ *   .add(SettingsRoutes);
+ * ```
  */
 export function layout<const Name extends string>(
   name: Name,
   basePath: string,
-): LayoutGroup<Name, never, never> {
+): LayoutGroup<Name, never, never, never> {
   // Normalize basePath - ensure it starts with / and doesn't end with /
   const normalizedBase = basePath.startsWith("/") ? basePath : `/${basePath}`;
   const cleanBase = normalizedBase.endsWith("/") ? normalizedBase.slice(0, -1) : normalizedBase;
 
-  return createLayoutGroup<Name, never, never>(name, cleanBase, []);
+  return createLayoutGroup<Name, never, never, never>(name, cleanBase, [], []);
 }
 
-/** Internal helper — creates a LayoutGroup with accumulated RouteNames and RoutePaths. */
+/** Internal helper — creates a LayoutGroup with accumulated RouteNames, RoutePaths and Routes. */
 function createLayoutGroup<
   Name extends string,
   RouteNames extends string,
   RoutePaths extends string,
+  Routes extends AnyRoute,
 >(
   name: Name,
   basePath: string,
   routes: readonly Route[],
-): LayoutGroup<Name, RouteNames, RoutePaths> {
+  layouts: readonly LayoutGroup[],
+): LayoutGroup<Name, RouteNames, RoutePaths, Routes> {
+  // Type-erasure boundary: the overloads accumulate the added names/paths/routes; the
+  // runtime value is the same shape either way.
+  const add = (child: Route | LayoutGroup): LayoutGroup<Name, any, any, any> =>
+    isLayoutGroup(child)
+      ? createLayoutGroup(name, basePath, routes, [...layouts, child])
+      : createLayoutGroup(name, basePath, [...routes, child], layouts);
+
   return {
     _tag: "LayoutGroup",
     name,
     basePath,
     routes,
-    add: <RName extends string, RPath extends string>(route: Route<RName, RPath>) =>
-      createLayoutGroup<Name, RouteNames | RName, RoutePaths | RPath>(name, basePath, [
-        ...routes,
-        route,
-      ]),
+    layouts,
+    add: add as LayoutGroup<Name, RouteNames, RoutePaths, Routes>["add"],
   };
 }
 
+/** Routes have no _tag; layout groups do. */
+const isLayoutGroup = (child: Route | LayoutGroup): child is LayoutGroup =>
+  "_tag" in child && child._tag === "LayoutGroup";
+
+/** A route with the groups it belongs to, and its full pattern for ranking. */
+interface MatchCandidate {
+  readonly groupName: string;
+  readonly route: Route;
+  readonly layouts: readonly LayoutGroup[];
+  readonly pattern: string;
+}
+
+/** Ranked candidates per group list — routers are immutable, so rank once. */
+const rankedCandidates = new WeakMap<readonly AnyGroup[], readonly MatchCandidate[]>();
+
+/** Candidates for a layout group's routes and, recursively, its nested layouts' routes. */
+const layoutCandidates = (
+  g: LayoutGroup,
+  parents: readonly LayoutGroup[],
+): ReadonlyArray<MatchCandidate> => {
+  const layouts = [...parents, g];
+  const base = layouts.map((l) => l.basePath).join("");
+  return [
+    ...g.routes.map((route) => ({ groupName: g.name, route, layouts, pattern: base + route.path })),
+    ...g.layouts.flatMap((nested) => layoutCandidates(nested, layouts)),
+  ];
+};
+
+/**
+ * Flatten every route (including those of nested layout groups) and order them
+ * most specific first. Ties keep declaration order.
+ */
+const rankCandidates = (groups: readonly AnyGroup[]): readonly MatchCandidate[] => {
+  const cached = rankedCandidates.get(groups);
+  if (cached) return cached;
+
+  const candidates = groups
+    .flatMap((g) =>
+      g._tag === "LayoutGroup"
+        ? layoutCandidates(g, [])
+        : g.routes.map((route) => ({ groupName: g.name, route, layouts: [], pattern: route.path })),
+    )
+    .toSorted((a, b) => compareSpecificity(a.pattern, b.pattern));
+
+  rankedCandidates.set(groups, candidates);
+  return candidates;
+};
+
 /**
  * Create a router with the given name.
  * Groups are added via router.add(group).
  * Route names accumulate from groups for type-safe navigation.
  */
-export function make<const Name extends string>(name: Name): Router<Name, never, never> {
-  return createRouter<Name, never, never>(name, []);
+export function make<const Name extends string>(name: Name): Router<Name, never, never, never> {
+  return createRouter<Name, never, never, never>(name, []);
 }
 
-/** Internal helper — creates a Router with accumulated RouteNames and RoutePaths. */
-function createRouter<Name extends string, RouteNames extends string, RoutePaths extends string>(
-  name: Name,
-  groups: readonly AnyGroup[],
-): Router<Name, RouteNames, RoutePaths> {
+/** Internal helper — creates a Router with accumulated RouteNames, RoutePaths and Routes. */
+function createRouter<
+  Name extends string,
+  RouteNames extends string,
+  RoutePaths extends string,
+  Routes extends AnyRoute,
+>(name: Name, groups: readonly AnyGroup[]): Router<Name, RouteNames, RoutePaths, Routes> {
   return {
     name,
     groups,
-    add: <GName extends string, GRouteNames extends string, GRoutePaths extends string>(
-      g: AnyGroup<GName, GRouteNames, GRoutePaths>,
+    add: <
+      GName extends string,
+      GRouteNames extends string,
+      GRoutePaths extends string,
+      GRoutes extends AnyRoute,
+    >(
+      g: AnyGroup<GName, GRouteNames, GRoutePaths, GRoutes>,
     ) =>
-      createRouter<Name, RouteNames | GRouteNames, RoutePaths | GRoutePaths>(name, [...groups, g]),
+      createRouter<Name, RouteNames | GRouteNames, RoutePaths | GRoutePaths, Routes | GRoutes>(
+        name,
+        [...groups, g],
+      ),
 
     matchRoute(pathname: string): Effect.Effect<Option.Option<RouteMatch>> {
-      const tryMatchRoutes = (
-        routes: readonly Route[],
-        path: string,
-        groupName: string,
-        layouts: readonly LayoutGroup[],
-      ): Effect.Effect<Option.Option<RouteMatch>> =>
-        Effect.gen(function* () {
-          for (const route of routes) {
-            const match = yield* route.match(path);
-            if (Option.isSome(match)) {
-              return Option.some({ groupName, route, params: match.value, layouts });
+      return Effect.gen(function* () {
+        for (const candidate of rankCandidates(groups)) {
+          // Layout routes match relative to the path left after stripping each basePath
+          let path = pathname;
+          let insideLayouts = true;
+          for (const l of candidate.layouts) {
+            if (!path.startsWith(l.basePath)) {
+              insideLayouts = false;
+              break;
             }
+            path = path.slice(l.basePath.length) || "/";
+          }
+          if (!insideLayouts) continue;
+
+          const match = yield* candidate.route.match(path);
+          if (Option.isSome(match)) {
+            return Option.some({
+              groupName: candidate.groupName,
+              route: candidate.route,
+              params: match.value,
+              layouts: candidate.layouts,
+            });
           }
-          return Option.none();
-        });
-
-      const tryMatchGroup = (g: AnyGroup): Effect.Effect<Option.Option<RouteMatch>> => {
-        if (g._tag === "LayoutGroup") {
-          if (!pathname.startsWith(g.basePath)) return Effect.succeed(Option.none());
-          const remainingPath = pathname.slice(g.basePath.length) || "/";
-          return tryMatchRoutes(g.routes, remainingPath, g.name, [g]);
-        }
-        return tryMatchRoutes(g.routes, pathname, g.name, []);
-      };
-
-      return Effect.gen(function* () {
-        for (const g of groups) {
-          const result = yield* tryMatchGroup(g);
-          if (Option.isSome(result)) return result;
         }
         return Option.none();
       });
@@ -269,6 +423,13 @@ export interface ServerLayerOptions {
   readonly search?: string;
   /** Base path prefix for the app (e.g., "/ssr/router") */
   readonly basePath?: string;
+  /** Outcome of the form POST this render answers (see actionHandler) */
+  readonly submission?: SubmissionResult;
+  /**
+   * Render the notFound page for `pathname` even when a route matches it,
+   * e.g. for a static `404.html` next to a catch-all route
+   */
+  readonly notFound?: boolean;
 }
 
 /**
@@ -284,6 +445,15 @@ export interface BrowserLayerOptions {
   readonly initialState?: DehydratedRouterState;
   /** Base path prefix for the app (e.g., "/ssr/router") */
   readonly basePath?: string;
+  /** staleTime / gcTime for the provided LoaderCache */
+  readonly loaderCache?: LoaderCacheOptions;
+  /** storageKey / getKey for the provided ScrollRestoration */
+  readonly scrollRestoration?: ScrollRestorationOptions;
+  /**
+   * History to navigate with (default: BrowserHistoryLive). Use HashHistoryLive
+   * for static hosts without rewrite rules, iframes and file:// pages.
+   */
+  readonly history?: Layer.Layer<History, never, AtomRegistry.AtomRegistry>;
 }
 
 /**
@@ -295,10 +465,14 @@ export interface DehydratedRouterState {
   readonly routeName: string;
   /** Decoded path parameters */
   readonly params: Record<string, unknown>;
-  /** Search parameters */
-  readonly searchParams: Record<string, string>;
+  /** Search parameters, decoded with the route's search schema */
+  readonly searchParams: Record<string, unknown>;
   /** Data returned by the loader */
   readonly loaderData: unknown;
+  /** Data returned by each wrapping layout's loader, keyed by layout name */
+  readonly layoutData: Record<string, unknown>;
+  /** Outcome of the form POST the page was rendered for */
+  readonly submission?: SubmissionResult;
 }
 
 /**
@@ -307,84 +481,118 @@ export interface DehydratedRouterState {
 export interface SSRRouteResult {
   /** The rendered VElement */
   readonly element: VElement;
-  /** Dehydrated state for client hydration */
-  readonly dehydratedState: DehydratedRouterState;
+  /** Dehydrated state for client hydration. None when a notFound or errorComponent rendered. */
+  readonly dehydratedState: Option.Option<DehydratedRouterState>;
+  /**
+   * HTTP status for the response: 200, 404 (notFound) or 500 (errorComponent),
+   * 400 for search params that don't decode;
+   * for a failed submission, 422 (validation) or 400 (action error)
+   */
+  readonly status: number;
 }
 
 /**
  * Service tag for the current route's rendered element.
- * Used by SSR to provide the matched route's component.
+ * Used by SSR to provide the matched route's component, or the
+ * notFound / errorComponent rendered in its place.
  */
 export class CurrentRouteElement extends Context.Tag("fibrae/CurrentRouteElement")<
   CurrentRouteElement,
   {
     readonly element: VElement;
-    readonly state: DehydratedRouterState;
+    /** None when a notFound or errorComponent rendered */
+    readonly state: Option.Option<DehydratedRouterState>;
     readonly head: Option.Option<HeadData>;
+    /** HTTP status: 200, 404, 500, 400 for bad search params, or 422 / 400 for a failed submission */
+    readonly status: number;
   }
 >() {}
 
 /**
- * Create a server-side layer for SSR rendering.
- *
- * This layer:
- * 1. Matches the pathname against the router
- * 2. Runs the matched route's loader
- * 3. Renders the component with loader data
- * 4. Provides the rendered element and dehydrated state
- *
- * Usage in SSR:
- * ```typescript
- * const serverLayer = Router.serverLayer({
- *   router: AppRouter,
- *   pathname: "/posts/42",
- *   search: "?sort=date",
- *   basePath: "/ssr/router"
- * });
- *
- * const { element, dehydratedState } = yield* Router.CurrentRouteElement;
- * ```
+ * Reduce a submission's error to its tag and message (and a validation
+ * failure's field errors), so it serializes (the failure's cause is a ParseError).
  */
-export function serverLayer(
-  options: ServerLayerOptions,
-): Layer.Layer<
-  CurrentRouteElement | History | Navigator,
-  unknown,
-  RouterHandlers | AtomRegistry.AtomRegistry
-> {
-  const { router, pathname, search = "", basePath = "" } = options;
-  const searchParams = parseSearchParams(search);
+const dehydrateSubmission = (submission: SubmissionResult): SubmissionResult => {
+  if (submission._tag === "Success") return submission;
+  const { error } = submission;
+  const fieldErrors = submissionFieldErrors(submission);
+  return {
+    _tag: "Failure",
+    error: {
+      _tag: Predicate.hasProperty(error, "_tag") ? String(error._tag) : "Error",
+      message: Predicate.hasProperty(error, "message") ? String(error.message) : String(error),
+      ...(Predicate.isTagged(error, "FormValidationError") ? { fieldErrors } : {}),
+    },
+  };
+};
 
-  // Strip basePath from pathname for route matching
-  const matchPathname = stripBasePath(pathname, basePath);
+/** A route component's action props for a submission's outcome. */
+const submissionProps = (submission: Option.Option<SubmissionResult>) => ({
+  actionData: Option.flatMap(submission, submissionActionData),
+  submissionState: Option.getOrElse(submission, (): SubmissionState => ({ _tag: "Idle" })),
+});
 
-  // Create memory history for SSR (static, no navigation)
-  const historyLayer = MemoryHistoryLive({
-    initialPathname: pathname,
-    initialSearch: search ? `?${search.replace(/^\?/, "")}` : "",
+/** Status for a page rendered with a submission's outcome. */
+const submissionStatus = (submission: Option.Option<SubmissionResult>): number =>
+  Option.match(submission, {
+    onNone: () => 200,
+    onSome: (s) =>
+      s._tag === "Success" ? 200 : Predicate.isTagged(s.error, "FormValidationError") ? 422 : 400,
   });
 
-  // Create navigator layer with basePath - needs History and AtomRegistry
-  // We provide History here, AtomRegistry comes from outside
-  const navigatorLayer = Layer.provideMerge(NavigatorLive(router, { basePath }), historyLayer);
+/** The nearest notFound for an unmatched pathname, rendered with status 404. */
+const renderNotFound = (
+  router: Router,
+  routerHandlers: RouterHandlers["Type"],
+  matchPathname: string,
+  search: string,
+): CurrentRouteElement["Type"] => ({
+  element: Option.match(resolveNotFound(router, routerHandlers, matchPathname), {
+    onNone: () => h("div", null, "404 - Not Found"),
+    onSome: (notFound) =>
+      notFound({ pathname: matchPathname, searchParams: parseSearchParams(search) }),
+  }),
+  state: Option.none(),
+  head: Option.none(),
+  status: 404,
+});
 
-  // Create route element layer
-  const routeElementLayer = Layer.effect(
-    CurrentRouteElement,
-    Effect.gen(function* () {
-      const routerHandlers = yield* RouterHandlers;
-      const registry = yield* AtomRegistry.AtomRegistry;
+/** A route's element under a ContextProvider for its beforeLoad services. */
+const provideContext = (context: Context.Context<never>, element: VChild): VElement =>
+  h(ContextProvider as (props: Record<string, unknown>) => VElement, { context }, element);
 
-      // Match route using stripped pathname
-      const matchResult = yield* router.matchRoute(matchPathname);
-      if (Option.isNone(matchResult)) {
-        return yield* Effect.fail(
-          new RouterError({ message: `No route matched pathname: ${matchPathname}` }),
-        );
-      }
+/**
+ * Match a pathname, run its loaders and render it.
+ * Shared by serverLayer and the non-hydrated browserLayer path.
+ *
+ * Unmatched paths render the nearest notFound (status 404). Failures render
+ * the nearest errorComponent (status 500, or 400 for search params that don't
+ * decode); without one, or for a Redirect, the failure propagates to the
+ * caller as before. A submission renders the route with its actionData /
+ * submissionState, dehydrated with the state.
+ */
+const renderRoute = (
+  router: Router,
+  matchPathname: string,
+  search: string,
+  submission: Option.Option<SubmissionResult> = Option.none(),
+): Effect.Effect<
+  CurrentRouteElement["Type"],
+  unknown,
+  RouterHandlers | AtomRegistry.AtomRegistry
+> =>
+  Effect.gen(function* () {
+    const routerHandlers = yield* RouterHandlers;
+    const registry = yield* AtomRegistry.AtomRegistry;
+
+    const matchResult = yield* router.matchRoute(matchPathname);
+    if (Option.isNone(matchResult)) {
+      return renderNotFound(router, routerHandlers, matchPathname, search);
+    }
 
-      const { route, params } = matchResult.value;
+    const { groupName, route, params, layouts } = matchResult.value;
 
+    return yield* Effect.gen(function* () {
       // Get handler for this route
       const handler = routerHandlers.getHandler(route.name);
       if (Option.isNone(handler)) {
@@ -393,27 +601,55 @@ export function serverLayer(
         );
       }
 
-      // Execute loader and render component
+      const searchParams = yield* decodeSearchParams(route, search);
+
+      // Run beforeLoad guards, then route and layout loaders, then render component
       const loaderCtx = { path: params, searchParams };
-      const loaderData = yield* handler.value.loader(loaderCtx);
+      const layoutNames = layouts.map((l) => l.name);
+      const contexts = yield* Effect.all(
+        yield* runBeforeLoads(
+          routerHandlers,
+          { routeName: route.name, groupName, layouts: layoutNames },
+          loaderCtx,
+        ),
+      );
+      const { loaderData, layoutData } = yield* executeLoaders(
+        routerHandlers,
+        layoutNames,
+        handler.value,
+        loaderCtx,
+        contexts,
+      );
 
       const noopFormAction = () =>
         Effect.fail({ _tag: "ActionError", message: "Actions not available during SSR" });
 
-      const element = handler.value.component({
-        loaderData,
-        path: params,
-        searchParams,
-        actionData: Option.none(),
-        formAction: noopFormAction,
-        submissionState: { _tag: "Idle" },
-      });
+      // Components see the dehydrated submission, as they will after hydration
+      const dehydrated = Option.map(submission, dehydrateSubmission);
+      // Components inside the route yield the services its beforeLoad hooks provided
+      const context = contexts[contexts.length - 1];
+      const element = provideContext(
+        context,
+        handler.value.component({
+          loaderData,
+          path: params,
+          searchParams,
+          ...submissionProps(dehydrated),
+          formAction: noopFormAction,
+          context,
+        }),
+      );
 
       const state: DehydratedRouterState = {
         routeName: route.name,
         params,
         searchParams,
         loaderData,
+        layoutData,
+        ...Option.match(dehydrated, {
+          onNone: () => ({}),
+          onSome: (s) => ({ submission: s }),
+        }),
       };
 
       // Execute head() if defined
@@ -425,40 +661,100 @@ export function serverLayer(
       // Set RouterStateAtom so it gets included in dehydrated state
       registry.set(RouterStateAtom, Option.some(state));
 
-      return { element, state, head };
-    }),
+      return { element, state: Option.some(state), head, status: submissionStatus(dehydrated) };
+    }).pipe(
+      Effect.catchAllCause((cause) => {
+        const error = Cause.squash(cause);
+        const errorComponent = resolveErrorComponent(routerHandlers, {
+          groupName,
+          layouts: layouts.map((l) => l.name),
+        });
+        if (error instanceof Redirect || Option.isNone(errorComponent)) {
+          return Effect.failCause(cause);
+        }
+        const element = errorComponent.value({
+          pathname: matchPathname,
+          routeName: Option.some(route.name),
+          error,
+          cause,
+        });
+        return Effect.succeed({
+          element,
+          state: Option.none<DehydratedRouterState>(),
+          head: Option.none<HeadData>(),
+          status: error instanceof SearchParamsError ? 400 : 500,
+        });
+      }),
+    );
+  });
+
+/**
+ * Create a server-side layer for SSR rendering.
+ *
+ * This layer:
+ * 1. Matches the pathname against the router
+ * 2. Runs the matched route's loader, in parallel with its layouts' loaders
+ * 3. Renders the component with loader data, or the nearest notFound / errorComponent
+ * 4. Provides the rendered element, dehydrated state and HTTP status
+ *
+ * Usage in SSR:
+ * ```typescript
+ * const serverLayer = Router.serverLayer({
+ *   router: AppRouter,
+ *   pathname: "/posts/42",
+ *   search: "?sort=date",
+ *   basePath: "/ssr/router"
+ * });
+ *
+ * const { element, status } = yield* Router.CurrentRouteElement;
+ * ```
+ */
+export function serverLayer(
+  options: ServerLayerOptions,
+): Layer.Layer<
+  CurrentRouteElement | History | Navigator,
+  unknown,
+  RouterHandlers | AtomRegistry.AtomRegistry
+> {
+  const { router, pathname, search = "", basePath = "", submission, notFound = false } = options;
+
+  // Strip basePath from pathname for route matching
+  const matchPathname = stripBasePath(pathname, basePath);
+
+  // Create memory history for SSR (static, no navigation)
+  const historyLayer = MemoryHistoryLive({
+    initialPathname: pathname,
+    initialSearch: search ? `?${search.replace(/^\?/, "")}` : "",
+  });
+
+  // Create navigator layer with basePath - needs History and AtomRegistry
+  // We provide History here, AtomRegistry comes from outside
+  const navigatorLayer = Layer.provideMerge(NavigatorLive(router, { basePath }), historyLayer);
+
+  // Create route element layer, matching with the stripped pathname
+  const routeElementLayer = Layer.effect(
+    CurrentRouteElement,
+    notFound
+      ? Effect.map(RouterHandlers, (handlers) =>
+          renderNotFound(router, handlers, matchPathname, search),
+        )
+      : renderRoute(router, matchPathname, search, Option.fromNullable(submission)),
   );
 
   return Layer.mergeAll(historyLayer, navigatorLayer, routeElementLayer);
 }
 
-/** Get current browser location. */
-const getBrowserLocation = (): HistoryLocation => ({
-  pathname: window.location.pathname,
-  search: window.location.search,
-  hash: window.location.hash,
-  state: window.history.state,
-});
-
-/** Parse path into location object. */
-const parseBrowserLocation = (href: string, state?: unknown): HistoryLocation => {
-  const url = href.startsWith("/") ? new URL(href, "http://localhost") : new URL(href);
-  return {
-    pathname: url.pathname,
-    search: url.search,
-    hash: url.hash,
-    state,
-  };
-};
-
 /**
  * Create a browser layer for client-side hydration.
  *
  * This layer:
- * 1. Sets up browser history with popstate listener
+ * 1. Sets up browser history with popstate listener (or `options.history`)
  * 2. Checks RouterStateAtom for hydrated SSR state
  * 3. If hydrated, uses that for initial render (skips loader)
  * 4. Provides Navigator for subsequent navigation
+ * 5. Provides a LoaderCache for Link preloading and cached navigation
+ * 6. Provides ScrollRestoration: scroll to top or `#hash` on navigation,
+ *    restore positions on back/forward
  *
  * SSR hydration works automatically via the HydrationState service - no need to
  * pass initialState manually. The RouterStateAtom is hydrated from the
@@ -479,76 +775,13 @@ const parseBrowserLocation = (href: string, state?: unknown): HistoryLocation =>
 export function browserLayer(
   options: BrowserLayerOptions,
 ): Layer.Layer<
-  History | Navigator | CurrentRouteElement,
+  History | Navigator | CurrentRouteElement | LoaderCache | ScrollRestoration,
   unknown,
   AtomRegistry.AtomRegistry | RouterHandlers
 > {
   const { router, basePath = "" } = options;
 
-  const historyLayer = Layer.scoped(
-    History,
-    Effect.gen(function* () {
-      const registry = yield* AtomRegistry.AtomRegistry;
-      const { Atom } = yield* Effect.promise(() => import("@effect-atom/atom"));
-
-      // Create location atom with initial browser location
-      const locationAtom = Atom.make<HistoryLocation>(getBrowserLocation());
-
-      // Subscribe to popstate for browser back/forward
-      const handlePopState = () => {
-        const newLocation = getBrowserLocation();
-        registry.set(locationAtom, newLocation);
-      };
-
-      window.addEventListener("popstate", handlePopState);
-
-      // Cleanup on scope close
-      yield* Effect.addFinalizer(() =>
-        Effect.sync(() => {
-          window.removeEventListener("popstate", handlePopState);
-        }),
-      );
-
-      // Track history index for canGoBack
-      let historyIndex = 0;
-
-      return {
-        location: locationAtom,
-
-        push: (path: string, state?: unknown) =>
-          Effect.sync(() => {
-            const location = parseBrowserLocation(path, state);
-            const fullPath = `${location.pathname}${location.search}${location.hash}`;
-            window.history.pushState(state, "", fullPath);
-            historyIndex++;
-            registry.set(locationAtom, { ...location, state });
-          }),
-
-        replace: (path: string, state?: unknown) =>
-          Effect.sync(() => {
-            const location = parseBrowserLocation(path, state);
-            const fullPath = `${location.pathname}${location.search}${location.hash}`;
-            window.history.replaceState(state, "", fullPath);
-            registry.set(locationAtom, { ...location, state });
-          }),
-
-        back: Effect.sync(() => {
-          window.history.back();
-        }),
-
-        forward: Effect.sync(() => {
-          window.history.forward();
-        }),
-
-        go: (n: number) =>
-          Effect.sync(() => {
-            window.history.go(n);
-          }),
-
-        canGoBack: Effect.sync(() => historyIndex > 0),
-      };
-    }),
-  );
+  const historyLayer = options.history ?? BrowserHistoryLive;
 
   const navigatorLayer = NavigatorLive(router, { basePath });
 
@@ -559,6 +792,8 @@ export function browserLayer(
     Effect.gen(function* () {
       const routerHandlers = yield* RouterHandlers;
       const registry = yield* AtomRegistry.AtomRegistry;
+      // Read from History, which knows where its mode keeps the path in the URL
+      const location = registry.get((yield* History).location);
 
       // Check if RouterStateAtom was hydrated from SSR
       const hydratedState = registry.get(RouterStateAtom);
@@ -573,18 +808,44 @@ export function browserLayer(
           );
         }
 
-        // Render component with SSR loader data (skip loader)
+        // Rerun beforeLoad guards for the services they provide the component,
+        // then render it with SSR loader data (skip loader)
+        const match = yield* router.matchRoute(stripBasePath(location.pathname, basePath));
+        const exits = yield* runBeforeLoads(
+          routerHandlers,
+          {
+            routeName: state.routeName,
+            groupName: Option.match(match, { onNone: () => "", onSome: (m) => m.groupName }),
+            layouts: Option.match(match, {
+              onNone: () => [],
+              onSome: (m) => m.layouts.map((l) => l.name),
+            }),
+          },
+          { path: state.params, searchParams: state.searchParams },
+        );
+        const context = yield* exits[exits.length - 1];
+
+        // The loader was skipped, so import a lazy route's module here: the
+        // component must render as it did on the server
+        yield* Option.match(handler.value.lazy, {
+          onNone: () => Effect.void,
+          onSome: (lazy) => lazy.load,
+        });
+
         const noopFormAction = () =>
           Effect.fail({ _tag: "ActionError", message: "Actions not available during SSR" });
 
-        const element = handler.value.component({
-          loaderData: state.loaderData,
-          path: state.params,
-          searchParams: state.searchParams,
-          actionData: Option.none(),
-          formAction: noopFormAction,
-          submissionState: { _tag: "Idle" },
-        });
+        const element = provideContext(
+          context,
+          handler.value.component({
+            loaderData: state.loaderData,
+            path: state.params,
+            searchParams: state.searchParams,
+            ...submissionProps(Option.fromNullable(state.submission)),
+            formAction: noopFormAction,
+            context,
+          }),
+        );
 
         // Cast RouterState to DehydratedRouterState (same shape)
         const dehydratedState: DehydratedRouterState = {
@@ -592,6 +853,8 @@ export function browserLayer(
           params: state.params,
           searchParams: state.searchParams,
           loaderData: state.loaderData,
+          layoutData: state.layoutData,
+          submission: state.submission,
         };
 
         // Execute head on client too (for title updates etc.)
@@ -605,70 +868,27 @@ export function browserLayer(
             }).pipe(Effect.asSome),
         });
 
-        return { element, state: dehydratedState, head };
+        return { element, state: Option.some(dehydratedState), head, status: 200 };
       }
 
       // Non-hydration mode: match and run loader
-      const pathname = window.location.pathname;
-      const matchPathname = stripBasePath(pathname, basePath);
-      const search = window.location.search;
-      const searchParams = parseSearchParams(search);
-
-      const matchResult = yield* router.matchRoute(matchPathname);
-      if (Option.isNone(matchResult)) {
-        return yield* Effect.fail(
-          new RouterError({ message: `No route matched pathname: ${matchPathname}` }),
-        );
-      }
-
-      const { route, params } = matchResult.value;
-
-      const handler = routerHandlers.getHandler(route.name);
-      if (Option.isNone(handler)) {
-        return yield* Effect.fail(
-          new RouterError({ message: `No handler found for route: ${route.name}` }),
-        );
-      }
-
-      const loaderCtx = { path: params, searchParams };
-      const loaderData = yield* handler.value.loader(loaderCtx);
-
-      const noopAction = () =>
-        Effect.fail({ _tag: "ActionError", message: "Actions not available during SSR" });
-
-      const element = handler.value.component({
-        loaderData,
-        path: params,
-        searchParams,
-        actionData: Option.none(),
-        formAction: noopAction,
-        submissionState: { _tag: "Idle" },
-      });
-
-      const state: DehydratedRouterState = {
-        routeName: route.name,
-        params,
-        searchParams,
-        loaderData,
-      };
-
-      const head = yield* Option.match(handler.value.head, {
-        onNone: () => Effect.succeedNone,
-        onSome: (fn) => fn({ loaderData, params, searchParams }).pipe(Effect.asSome),
-      });
-
-      // Set RouterStateAtom for DI access
-      registry.set(RouterStateAtom, Option.some(state));
-
-      return { element, state, head };
+      const matchPathname = stripBasePath(location.pathname, basePath);
+      return yield* renderRoute(router, matchPathname, location.search);
     }),
   );
 
-  // Layer composition: historyLayer provides History, which navigatorLayer needs.
-  // We use provideMerge to give Navigator the History it needs, then merge with routeElementLayer.
+  // Layer composition: historyLayer provides History, which navigatorLayer and
+  // routeElementLayer need. We use provideMerge to give them the History they need.
   // Important: historyLayer should only be instantiated once - putting it in mergeAll separately
   // would create a second instance with a different locationAtom.
-  const historyAndNavigator = Layer.provideMerge(navigatorLayer, historyLayer);
+  const historyAndNavigator = Layer.provideMerge(
+    Layer.mergeAll(
+      navigatorLayer,
+      ScrollRestorationLive(options.scrollRestoration),
+      routeElementLayer,
+    ),
+    historyLayer,
+  );
 
-  return Layer.mergeAll(historyAndNavigator, routeElementLayer);
+  return Layer.merge(historyAndNavigator, LoaderCacheLive(options.loaderCache));
 }
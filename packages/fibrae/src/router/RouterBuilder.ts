@@ -4,6 +4,7 @@
  * Mirrors Effect HttpApiBuilder patterns:
  * - RouterBuilder.group(router, "groupName", (handlers) => Effect.gen(...))
  * - handlers.handle("routeName", { loader, component })
+ * - handlers.beforeLoad((ctx) => ...) for guards that run before the loaders
  * - RouterBuilder.router(Router) builds the final Layer
  */
 
@@ -11,6 +12,8 @@ import * as Effect from "effect/Effect";
 import * as Context from "effect/Context";
 import * as Layer from "effect/Layer";
 import * as Option from "effect/Option";
+import * as Cause from "effect/Cause";
+import * as Exit from "effect/Exit";
 import type { Router, RouteGroup, LayoutGroup, AnyGroup } from "./Router.js";
 import { RouterError } from "./Router.js";
 import type { Route } from "./Route.js";
@@ -35,10 +38,45 @@ export interface LoaderContext<
  */
 export type SubmissionState =
   | { readonly _tag: "Idle" }
-  | { readonly _tag: "Pending" }
+  | { readonly _tag: "Pending"; readonly progress?: UploadProgress }
   | { readonly _tag: "Success"; readonly data: unknown }
   | { readonly _tag: "Failure"; readonly error: unknown };
 
+/**
+ * How much of a submission's body an action has sent, as it reports it
+ * through `ActionContext.reportProgress`.
+ */
+export interface UploadProgress {
+  /** Bytes sent so far */
+  readonly loaded: number;
+  /** Bytes to send in total, when known */
+  readonly total?: number;
+}
+
+/**
+ * A settled submission, e.g. the outcome of a form POST handled on the server.
+ */
+export type SubmissionResult = Extract<SubmissionState, { readonly _tag: "Success" | "Failure" }>;
+
+/**
+ * Context for a shouldRevalidate hook.
+ */
+export interface ShouldRevalidateContext<
+  PathParams extends Record<string, unknown> = Record<string, unknown>,
+  SearchParams extends Record<string, unknown> = Record<string, unknown>,
+> {
+  readonly path: PathParams;
+  readonly searchParams: SearchParams;
+  /** Result of the action that triggered revalidation; None for revalidate()/invalidate() */
+  readonly actionResult: Option.Option<unknown>;
+  /** Whether the router would rerun this loader without the hook */
+  readonly defaultShouldRevalidate: boolean;
+}
+
+/** shouldRevalidate for handlers that don't declare one: follow the router's default. */
+const defaultShouldRevalidate = (ctx: ShouldRevalidateContext): boolean =>
+  ctx.defaultShouldRevalidate;
+
 /**
  * Component props including loader data, route parameters, and action context.
  */
@@ -46,15 +84,22 @@ export interface ComponentProps<
   LoaderData = unknown,
   PathParams extends Record<string, unknown> = Record<string, unknown>,
   SearchParams extends Record<string, unknown> = Record<string, unknown>,
+  Provided = never,
 > {
   readonly loaderData: LoaderData;
   readonly path: PathParams;
   readonly searchParams: SearchParams;
+  /** Services provided by the beforeLoad hooks of the route and the groups wrapping it */
+  readonly context: Context.Context<Provided>;
   /** Result of the last action invocation (Option.None until an action completes). */
   readonly actionData: Option.Option<unknown>;
-  /** Invoke the route's action with a payload record. Returns an Effect. */
+  /**
+   * Invoke the route's action with a payload record. Returns an Effect. Tracked
+   * as a fetcher: the component re-renders as the submission moves through
+   * Pending to its outcome.
+   */
   readonly formAction: (payload: Record<string, unknown>) => Effect.Effect<unknown, unknown>;
-  /** Current submission state (idle/pending/success/failure). */
+  /** Current submission state of `formAction` (idle/pending/success/failure). */
   readonly submissionState: SubmissionState;
 }
 
@@ -83,6 +128,71 @@ const buildRouteAction = (config: ActionConfig): RouteAction => ({
     liftAction(config.handler(ctx)) as Effect.Effect<unknown, unknown>,
 });
 
+/**
+ * What a beforeLoad hook succeeds with: services for the loaders, components
+ * and beforeLoad hooks nested inside it, or nothing for a plain guard.
+ */
+export type BeforeLoadResult<Provided> = Context.Context<Provided> | void;
+
+/**
+ * Type-erased beforeLoad hook stored in the handlers.
+ * R = never because requirements are captured by the Layer.
+ */
+export type BeforeLoadHook = (ctx: LoaderContext) => Effect.Effect<Context.Context<never>, unknown>;
+
+/**
+ * Build a type-erased BeforeLoadHook; a guard that succeeds with nothing provides nothing.
+ * Type-erasure boundary: the hook's R is captured by the Layer, like loaders'.
+ */
+const buildBeforeLoad =
+  <
+    PathParams extends Record<string, unknown>,
+    SearchParams extends Record<string, unknown>,
+    P,
+    E,
+    R,
+  >(
+    hook: (
+      ctx: LoaderContext<PathParams, SearchParams>,
+    ) => Effect.Effect<BeforeLoadResult<P>, E, R>,
+  ): BeforeLoadHook =>
+  (ctx) =>
+    (
+      hook(ctx as LoaderContext<PathParams, SearchParams>) as Effect.Effect<
+        BeforeLoadResult<never>,
+        unknown
+      >
+    ).pipe(Effect.map((provided) => provided ?? Context.empty()));
+
+/** Run a beforeLoad hook with the services provided so far, adding its own. */
+const runBeforeLoad = (
+  hook: BeforeLoadHook,
+  ctx: LoaderContext,
+  context: Context.Context<never>,
+): Effect.Effect<Context.Context<never>, unknown> =>
+  hook(ctx).pipe(
+    Effect.provide(context),
+    Effect.map((provided) => Context.merge(context, provided)),
+  );
+
+/** Chain a group's beforeLoad hooks in the order they were declared. */
+const composeBeforeLoad = (
+  first: Option.Option<BeforeLoadHook>,
+  next: BeforeLoadHook,
+): BeforeLoadHook =>
+  Option.match(first, {
+    onNone: () => next,
+    onSome: (hook) => (ctx) =>
+      Effect.flatMap(hook(ctx), (provided) => runBeforeLoad(next, ctx, provided)),
+  });
+
+/** A group's entry in the RouterHandlers beforeLoads map, if it declared a hook. */
+const beforeLoadEntries = (
+  groupName: string,
+  hook: Option.Option<BeforeLoadHook>,
+): ReadonlyArray<readonly [string, BeforeLoadHook]> =>
+  Option.match(hook, { onNone: () => [], onSome: (h) => [[groupName, h] as const] });
+
 /**
  * Per-route metadata for the document `<head>`.
  * Rendered during SSR/SSG, updated on client navigation.
@@ -126,6 +236,11 @@ export interface HeadContext<
  */
 export interface ActionContext<Payload = unknown> {
   readonly payload: Payload;
+  /**
+   * Report upload progress, e.g. from an XMLHttpRequest's `upload.onprogress`.
+   * Pending fetchers expose it as `state.progress`; a no-op on the server.
+   */
+  readonly reportProgress: (progress: UploadProgress) => void;
 }
 
 /**
@@ -162,12 +277,28 @@ export interface HandlerConfig<
   ActionData = unknown,
   ActionR = never,
   ActionE = never,
+  Provided = never,
+  BeforeR = never,
+  BeforeE = never,
+  Inherited = never,
 > {
+  /**
+   * Runs before the loaders, after the beforeLoad hooks of the groups wrapping
+   * the route, whose services it can use. Fail with Redirect to send the user
+   * elsewhere, or succeed with a Context of services for the route's loader
+   * and component (e.g. `Context.make(CurrentUser, user)`).
+   */
+  readonly beforeLoad?: (
+    ctx: LoaderContext<PathParams, SearchParams>,
+  ) => Effect.Effect<BeforeLoadResult<Provided>, BeforeE, BeforeR>;
+
   readonly loader?: (
     ctx: LoaderContext<PathParams, SearchParams>,
   ) => LoaderResult<LoaderData, E, R>;
 
-  readonly component: (props: ComponentProps<LoaderData, PathParams, SearchParams>) => VElement;
+  readonly component: (
+    props: ComponentProps<LoaderData, PathParams, SearchParams, Inherited | Provided>,
+  ) => VElement;
 
   /**
    * Per-route `<head>` metadata. Receives loader data and route params.
@@ -184,6 +315,13 @@ export interface HandlerConfig<
    */
   readonly action?: ActionConfig<unknown, ActionData, ActionE, ActionR>;
 
+  /**
+   * Decide whether the loader reruns when the current location revalidates
+   * (after an action, or Navigator.revalidate()/invalidate()).
+   * Return false to keep the current loader data.
+   */
+  readonly shouldRevalidate?: (ctx: ShouldRevalidateContext<PathParams, SearchParams>) => boolean;
+
   /** When true, this route will be pre-rendered to static HTML at build time. */
   readonly prerender?: boolean;
 
@@ -214,16 +352,146 @@ export interface RouteAction {
 export interface RouteHandler {
   readonly routeName: string;
   readonly route: Route;
+  /** Type-erased beforeLoad hook, run after those of the groups wrapping the route. */
+  readonly beforeLoad: Option.Option<BeforeLoadHook>;
   /** Type-erased loader. R = never because requirements are captured by the Layer. */
   readonly loader: (ctx: LoaderContext) => Effect.Effect<unknown, unknown>;
   readonly component: (props: ComponentProps) => VElement;
   readonly head: Option.Option<(ctx: HeadContext) => Effect.Effect<HeadData, unknown>>;
   /** Type-erased action for form mutations. */
   readonly action: Option.Option<RouteAction>;
+  readonly shouldRevalidate: (ctx: ShouldRevalidateContext) => boolean;
   readonly prerender: boolean;
   readonly getStaticPaths: Option.Option<
     () => Effect.Effect<ReadonlyArray<Record<string, unknown>>, unknown>
   >;
+  /** The module a lazy handler loads its loader, component and head from */
+  readonly lazy: Option.Option<LazyRoute>;
+}
+
+/**
+ * The module behind a handler registered with RouterBuilder.lazy().
+ */
+export interface LazyRoute {
+  /** Import the module; later runs reuse the first import */
+  readonly load: Effect.Effect<void, RouterError>;
+  /** The module's path relative to the Vite root, for modulepreload hints */
+  readonly moduleId: Option.Option<string>;
+}
+
+/**
+ * What a lazy route module exports as its default export: the parts of a
+ * HandlerConfig that render the route.
+ */
+export type LazyRouteModule<
+  LoaderData = unknown,
+  PathParams extends Record<string, unknown> = Record<string, unknown>,
+  SearchParams extends Record<string, unknown> = Record<string, unknown>,
+  R = never,
+  E = never,
+  Provided = never,
+> = Pick<
+  HandlerConfig<
+    LoaderData,
+    PathParams,
+    SearchParams,
+    R,
+    E,
+    unknown,
+    never,
+    never,
+    never,
+    never,
+    never,
+    Provided
+  >,
+  "loader" | "component" | "head"
+>;
+
+/**
+ * Imports a lazy route module, e.g. `() => import("./post.js")`. The fibrae
+ * Vite plugin tags it with the module's `moduleId`; outside Vite, set it with
+ * `Object.assign(() => import("./post.js"), { moduleId: "src/post.tsx" })`.
+ */
+export type LazyRouteLoader<Module> = (() => Promise<{ readonly default: Module }>) & {
+  readonly moduleId?: string;
+};
+
+/**
+ * A HandlerConfig made by RouterBuilder.lazy().
+ */
+export interface LazyHandlerConfig<
+  LoaderData = unknown,
+  PathParams extends Record<string, unknown> = Record<string, unknown>,
+  SearchParams extends Record<string, unknown> = Record<string, unknown>,
+  R = never,
+  E = never,
+  ActionData = unknown,
+  ActionR = never,
+  ActionE = never,
+  Provided = never,
+  BeforeR = never,
+  BeforeE = never,
+  Inherited = never,
+> extends HandlerConfig<
+  LoaderData,
+  PathParams,
+  SearchParams,
+  R,
+  E,
+  ActionData,
+  ActionR,
+  ActionE,
+  Provided,
+  BeforeR,
+  BeforeE,
+  Inherited
+> {
+  readonly lazy: LazyRoute;
+}
+
+/**
+ * Layout component props: the layout loader's data plus the matched route's parameters.
+ */
+export interface LayoutProps<
+  LoaderData = unknown,
+  PathParams extends Record<string, unknown> = Record<string, unknown>,
+  SearchParams extends Record<string, unknown> = Record<string, unknown>,
+  Provided = never,
+> {
+  readonly loaderData: LoaderData;
+  readonly path: PathParams;
+  readonly searchParams: SearchParams;
+  /** Services provided by the beforeLoad hooks of this layout group and those wrapping it */
+  readonly context: Context.Context<Provided>;
+}
+
+/**
+ * Handler configuration for a layout.
+ * The loader receives the matched route's parameters and runs in parallel
+ * with the loaders of the other layouts and the route itself.
+ *
+ * - loader is optional - defaults to returning null
+ * - loader can return a plain value or an Effect (plain values auto-wrapped)
+ */
+export interface LayoutConfig<
+  LoaderData = unknown,
+  PathParams extends Record<string, unknown> = Record<string, unknown>,
+  SearchParams extends Record<string, unknown> = Record<string, unknown>,
+  R = never,
+  E = never,
+  Provided = never,
+> {
+  readonly loader?: (
+    ctx: LoaderContext<PathParams, SearchParams>,
+  ) => LoaderResult<LoaderData, E, R>;
+
+  readonly component: (
+    props: LayoutProps<LoaderData, PathParams, SearchParams, Provided>,
+  ) => VElement;
+
+  /** Decide whether the layout loader reruns on revalidation, as in HandlerConfig */
+  readonly shouldRevalidate?: (ctx: ShouldRevalidateContext<PathParams, SearchParams>) => boolean;
 }
 
 /**
@@ -232,9 +500,49 @@ export interface RouteHandler {
  */
 export interface LayoutHandler {
   readonly layoutName: string;
-  readonly component: () => VElement;
+  /** Type-erased loader. R = never because requirements are captured by the Layer. */
+  readonly loader: (ctx: LoaderContext) => Effect.Effect<unknown, unknown>;
+  readonly shouldRevalidate: (ctx: ShouldRevalidateContext) => boolean;
+  readonly component: (props: LayoutProps) => VElement;
 }
 
+/**
+ * Props for a notFound component.
+ */
+export interface NotFoundProps {
+  /** The unmatched pathname (without basePath) */
+  readonly pathname: string;
+  readonly searchParams: Record<string, string>;
+}
+
+/**
+ * Props for an errorComponent.
+ */
+export interface ErrorComponentProps {
+  /** The pathname being rendered (without basePath) */
+  readonly pathname: string;
+  /** The matched route, if the failure happened after matching */
+  readonly routeName: Option.Option<string>;
+  /** The squashed failure, for display */
+  readonly error: unknown;
+  /** The full cause, for logging or inspecting defects and interruptions */
+  readonly cause: Cause.Cause<unknown>;
+}
+
+/**
+ * notFound and errorComponent handlers declared at the router, group or layout-group level.
+ */
+export interface FallbackHandlers {
+  readonly notFound: Option.Option<(props: NotFoundProps) => VElement>;
+  readonly errorComponent: Option.Option<(props: ErrorComponentProps) => VElement>;
+}
+
+/** No fallbacks declared. */
+const noFallbacks: FallbackHandlers = {
+  notFound: Option.none(),
+  errorComponent: Option.none(),
+};
+
 /**
  * Handlers builder for a route group.
  * Accumulates handler registrations and their service requirements (R).
@@ -243,14 +551,46 @@ export interface LayoutHandler {
  * ensuring the final Layer type declares all required services.
  *
  * RouteNames constrains handle() to only accept valid route names from the group.
+ * Provided is what the group's beforeLoad hooks provide: it is excluded from
+ * the requirements of the group's loaders.
  */
 export interface GroupHandlers<
   GroupName extends string = string,
   RouteNames extends string = string,
   R = never,
+  Provided = never,
 > {
   readonly groupName: GroupName;
   readonly handlers: readonly RouteHandler[];
+  readonly fallbacks: FallbackHandlers;
+  readonly beforeLoadHook: Option.Option<BeforeLoadHook>;
+
+  /**
+   * Render this component for paths no route matches. A regular group's notFound
+   * applies to any path, after layout groups' and before the router's.
+   */
+  readonly notFound: (
+    component: (props: NotFoundProps) => VElement,
+  ) => GroupHandlers<GroupName, RouteNames, R, Provided>;
+
+  /**
+   * Render this component in place of a route of this group whose loader fails
+   * (other than with Redirect), instead of bubbling to the nearest ErrorBoundary.
+   */
+  readonly errorComponent: (
+    component: (props: ErrorComponentProps) => VElement,
+  ) => GroupHandlers<GroupName, RouteNames, R, Provided>;
+
+  /**
+   * Run a hook before the loaders of every route in this group, on the server
+   * and in the browser. Fail with Redirect to send the user elsewhere (e.g. to
+   * a login page), or succeed with a Context of services for the routes'
+   * beforeLoad hooks, loaders and components. Hooks declared more than once
+   * run in order, each with the services of the ones before.
+   */
+  readonly beforeLoad: <P = never, R2 = never, E = never>(
+    hook: (ctx: LoaderContext) => Effect.Effect<BeforeLoadResult<P>, E, R2>,
+  ) => GroupHandlers<GroupName, RouteNames, Exclude<R, P> | Exclude<R2, Provided>, Provided | P>;
 
   /**
    * Register a handler for a route in this group.
@@ -267,6 +607,9 @@ export interface GroupHandlers<
     ActionData = unknown,
     ActionR = never,
     ActionE = never,
+    P = never,
+    BeforeR = never,
+    BeforeE = never,
   >(
     routeName: RouteName,
     config: HandlerConfig<
@@ -277,9 +620,18 @@ export interface GroupHandlers<
       E,
       ActionData,
       ActionR,
-      ActionE
+      ActionE,
+      P,
+      BeforeR,
+      BeforeE,
+      Provided
     >,
-  ) => GroupHandlers<GroupName, RouteNames, R | R2 | ActionR>;
+  ) => GroupHandlers<
+    GroupName,
+    RouteNames,
+    R | Exclude<R2, Provided | P> | Exclude<BeforeR, Provided> | ActionR,
+    Provided
+  >;
 }
 
 /**
@@ -288,21 +640,92 @@ export interface GroupHandlers<
  * Accumulates loader service requirements (R) like GroupHandlers.
  *
  * RouteNames constrains handle() to only accept valid route names from the group.
+ * Provided is what the beforeLoad hooks of this group and those wrapping it
+ * provide, as in GroupHandlers.
  */
 export interface LayoutGroupHandlers<
   GroupName extends string = string,
   RouteNames extends string = string,
   R = never,
+  Provided = never,
 > {
   readonly groupName: GroupName;
   readonly handlers: readonly RouteHandler[];
   readonly layoutHandler: LayoutHandler | null;
+  /** Layout handlers registered for nested layout groups via layoutGroup(). */
+  readonly nestedLayoutHandlers: readonly LayoutHandler[];
+  readonly fallbacks: FallbackHandlers;
+  /** Fallbacks registered for nested layout groups via layoutGroup(), keyed by group name. */
+  readonly nestedFallbacks: ReadonlyMap<string, FallbackHandlers>;
+  readonly beforeLoadHook: Option.Option<BeforeLoadHook>;
+  /** beforeLoad hooks registered for nested layout groups via layoutGroup(), keyed by group name. */
+  readonly nestedBeforeLoads: ReadonlyMap<string, BeforeLoadHook>;
 
   /**
-   * Register the layout component for this layout group.
+   * Render this component for unmatched paths under this group's basePath.
+   * The innermost matching layout group's notFound wins.
+   */
+  readonly notFound: (
+    component: (props: NotFoundProps) => VElement,
+  ) => LayoutGroupHandlers<GroupName, RouteNames, R, Provided>;
+
+  /**
+   * Render this component in place of a failing route or layout of this group
+   * (or of nested groups without their own), instead of bubbling to the nearest ErrorBoundary.
+   */
+  readonly errorComponent: (
+    component: (props: ErrorComponentProps) => VElement,
+  ) => LayoutGroupHandlers<GroupName, RouteNames, R, Provided>;
+
+  /**
+   * Run a hook before the loaders of this layout and everything nested in it,
+   * after the hooks of the layout groups wrapping it. As in GroupHandlers, it
+   * can fail with Redirect or provide services to the nested beforeLoad hooks,
+   * loaders and components, the layout's own included.
+   */
+  readonly beforeLoad: <P = never, R2 = never, E = never>(
+    hook: (ctx: LoaderContext) => Effect.Effect<BeforeLoadResult<P>, E, R2>,
+  ) => LayoutGroupHandlers<
+    GroupName,
+    RouteNames,
+    Exclude<R, P> | Exclude<R2, Provided>,
+    Provided | P
+  >;
+
+  /**
+   * Register the layout for this layout group — either a component, or a
+   * config with a loader whose data is passed to the component.
    * The layout component should render <RouterOutlet /> for children.
+   * Accumulates the loader's service requirements into the group's R.
+   */
+  readonly layout: <
+    LoaderData = unknown,
+    PathParams extends Record<string, unknown> = Record<string, unknown>,
+    SearchParams extends Record<string, unknown> = Record<string, unknown>,
+    R2 = never,
+    E = never,
+  >(
+    config:
+      | LayoutConfig<LoaderData, PathParams, SearchParams, R2, E, Provided>
+      | ((props: LayoutProps<LoaderData, PathParams, SearchParams, Provided>) => VElement),
+  ) => LayoutGroupHandlers<GroupName, RouteNames, R | Exclude<R2, Provided>, Provided>;
+
+  /**
+   * Register handlers for a layout group nested inside this one.
+   * The nested group's layout and route handlers are provided with this group's,
+   * and its beforeLoad hooks run after this group's.
    */
-  readonly layout: (component: () => VElement) => LayoutGroupHandlers<GroupName, RouteNames, R>;
+  readonly layoutGroup: <
+    ChildName extends string,
+    ChildRouteNames extends string,
+    R2,
+    ChildProvided = Provided,
+  >(
+    layoutGrp: LayoutGroup<ChildName, ChildRouteNames>,
+    build: (
+      handlers: LayoutGroupHandlers<ChildName, ChildRouteNames, never, Provided>,
+    ) => LayoutGroupHandlers<ChildName, ChildRouteNames, R2, ChildProvided>,
+  ) => LayoutGroupHandlers<GroupName, RouteNames, R | R2, Provided>;
 
   /**
    * Register a handler for a route in this layout group.
@@ -319,6 +742,9 @@ export interface LayoutGroupHandlers<
     ActionData = unknown,
     ActionR = never,
     ActionE = never,
+    P = never,
+    BeforeR = never,
+    BeforeE = never,
   >(
     routeName: RouteName,
     config: HandlerConfig<
@@ -329,9 +755,18 @@ export interface LayoutGroupHandlers<
       E,
       ActionData,
       ActionR,
-      ActionE
+      ActionE,
+      P,
+      BeforeR,
+      BeforeE,
+      Provided
     >,
-  ) => LayoutGroupHandlers<GroupName, RouteNames, R | R2 | ActionR>;
+  ) => LayoutGroupHandlers<
+    GroupName,
+    RouteNames,
+    R | Exclude<R2, Provided | P> | Exclude<BeforeR, Provided> | ActionR,
+    Provided
+  >;
 }
 
 /**
@@ -343,6 +778,12 @@ export class RouterHandlers extends Context.Tag("fibrae/RouterHandlers")<
   {
     readonly handlers: ReadonlyMap<string, RouteHandler>;
     readonly layoutHandlers: ReadonlyMap<string, LayoutHandler>;
+    /** Fallbacks declared per group or layout group, keyed by group name */
+    readonly fallbacks: ReadonlyMap<string, FallbackHandlers>;
+    /** Fallbacks declared for the whole router via RouterBuilder.router() */
+    readonly routerFallbacks: FallbackHandlers;
+    /** beforeLoad hooks declared per group or layout group, keyed by group name */
+    readonly beforeLoads: ReadonlyMap<string, BeforeLoadHook>;
     readonly getHandler: (routeName: string) => Option.Option<RouteHandler>;
     readonly getLayoutHandler: (layoutName: string) => Option.Option<LayoutHandler>;
   }
@@ -358,11 +799,33 @@ function makeGroupHandlers<GroupName extends string, RouteNames extends string>(
 ): GroupHandlers<GroupName, RouteNames> {
   const routesByName = new Map<string, Route>(grp.routes.map((r) => [r.name, r]));
 
-  const buildHandlers = (
-    handlers: readonly RouteHandler[],
-  ): GroupHandlers<GroupName, RouteNames> => ({
+  type BuilderState = Pick<GroupHandlers, "handlers" | "fallbacks" | "beforeLoadHook">;
+
+  const buildHandlers = (state: BuilderState): GroupHandlers<GroupName, RouteNames> => ({
     groupName,
-    handlers,
+    ...state,
+
+    notFound(component) {
+      return buildHandlers({
+        ...state,
+        fallbacks: { ...state.fallbacks, notFound: Option.some(component) },
+      });
+    },
+
+    errorComponent(component) {
+      return buildHandlers({
+        ...state,
+        fallbacks: { ...state.fallbacks, errorComponent: Option.some(component) },
+      });
+    },
+
+    beforeLoad(hook) {
+      return buildHandlers({
+        ...state,
+        beforeLoadHook: Option.some(composeBeforeLoad(state.beforeLoadHook, buildBeforeLoad(hook))),
+      }) as GroupHandlers<GroupName, RouteNames, any, any>;
+    },
+
     handle<
       RouteName extends RouteNames,
       LoaderData,
@@ -373,6 +836,9 @@ function makeGroupHandlers<GroupName extends string, RouteNames extends string>(
       ActionData,
       ActionR,
       ActionE,
+      P,
+      BeforeR,
+      BeforeE,
     >(
       routeName: RouteName,
       config: HandlerConfig<
@@ -383,7 +849,11 @@ function makeGroupHandlers<GroupName extends string, RouteNames extends string>(
         E,
         ActionData,
         ActionR,
-        ActionE
+        ActionE,
+        P,
+        BeforeR,
+        BeforeE,
+        any
       >,
     ) {
       const maybeRoute = Option.fromNullable(routesByName.get(routeName));
@@ -432,21 +902,35 @@ function makeGroupHandlers<GroupName extends string, RouteNames extends string>(
       const handler: RouteHandler = {
         routeName,
         route,
+        beforeLoad: Option.map(Option.fromNullable(config.beforeLoad), buildBeforeLoad),
         loader,
         component: config.component as (props: ComponentProps) => VElement,
         head,
         action,
+        shouldRevalidate: (config.shouldRevalidate ?? defaultShouldRevalidate) as (
+          ctx: ShouldRevalidateContext,
+        ) => boolean,
         prerender: config.prerender ?? false,
         getStaticPaths,
+        lazy: Option.fromNullable((config as Partial<LazyHandlerConfig>).lazy),
       };
 
-      return buildHandlers([...handlers, handler]) as GroupHandlers<GroupName, RouteNames, any>;
+      return buildHandlers({
+        ...state,
+        handlers: [...state.handlers, handler],
+      }) as GroupHandlers<GroupName, RouteNames, any, any>;
     },
   });
 
-  return buildHandlers([]);
+  return buildHandlers({ handlers: [], fallbacks: noFallbacks, beforeLoadHook: Option.none() });
 }
 
+/** All routes of a layout group, including those of its nested layout groups. */
+const collectRoutes = (g: LayoutGroup): readonly Route[] => [
+  ...g.routes,
+  ...g.layouts.flatMap(collectRoutes),
+];
+
 /**
  * Create handlers builder for a layout group.
  * RouteNames is threaded through to constrain handle() calls.
@@ -455,23 +939,121 @@ function makeLayoutGroupHandlers<GroupName extends string, RouteNames extends st
   groupName: GroupName,
   layoutGrp: LayoutGroup<GroupName, RouteNames>,
 ): LayoutGroupHandlers<GroupName, RouteNames> {
-  const routesByName = new Map<string, Route>(layoutGrp.routes.map((r) => [r.name, r]));
+  // RouteNames includes the routes of nested layout groups, so index the whole subtree
+  const routesByName = new Map<string, Route>(collectRoutes(layoutGrp).map((r) => [r.name, r]));
+
+  type BuilderState = Pick<
+    LayoutGroupHandlers,
+    | "handlers"
+    | "layoutHandler"
+    | "nestedLayoutHandlers"
+    | "fallbacks"
+    | "nestedFallbacks"
+    | "beforeLoadHook"
+    | "nestedBeforeLoads"
+  >;
 
-  const buildHandlers = (
-    handlers: readonly RouteHandler[],
-    layoutHandler: LayoutHandler | null,
-  ): LayoutGroupHandlers<GroupName, RouteNames> => ({
+  const buildHandlers = (state: BuilderState): LayoutGroupHandlers<GroupName, RouteNames> => ({
     groupName,
-    handlers,
-    layoutHandler,
+    ...state,
 
-    layout(component: () => VElement) {
-      return buildHandlers(handlers, {
-        layoutName: groupName,
-        component,
+    notFound(component) {
+      return buildHandlers({
+        ...state,
+        fallbacks: { ...state.fallbacks, notFound: Option.some(component) },
       });
     },
 
+    errorComponent(component) {
+      return buildHandlers({
+        ...state,
+        fallbacks: { ...state.fallbacks, errorComponent: Option.some(component) },
+      });
+    },
+
+    beforeLoad(hook) {
+      return buildHandlers({
+        ...state,
+        beforeLoadHook: Option.some(composeBeforeLoad(state.beforeLoadHook, buildBeforeLoad(hook))),
+      }) as LayoutGroupHandlers<GroupName, RouteNames, any, any>;
+    },
+
+    layout<
+      LoaderData,
+      PathParams extends Record<string, unknown>,
+      SearchParams extends Record<string, unknown>,
+      R2,
+      E,
+    >(
+      configOrComponent:
+        | LayoutConfig<LoaderData, PathParams, SearchParams, R2, E, any>
+        | ((props: LayoutProps<LoaderData, PathParams, SearchParams, any>) => VElement),
+    ) {
+      const config =
+        typeof configOrComponent === "function"
+          ? { component: configOrComponent }
+          : configOrComponent;
+
+      // Type-erasure boundary: same as route loaders — R2 is captured by the Layer's R.
+      const loader = (ctx: LoaderContext): Effect.Effect<unknown, unknown> =>
+        (config.loader
+          ? liftLoader(config.loader(ctx as LoaderContext<PathParams, SearchParams>))
+          : Effect.succeed(null)) as Effect.Effect<unknown, unknown>;
+
+      return buildHandlers({
+        ...state,
+        layoutHandler: {
+          layoutName: groupName,
+          loader,
+          component: config.component as (props: LayoutProps) => VElement,
+          shouldRevalidate: (config.shouldRevalidate ?? defaultShouldRevalidate) as (
+            ctx: ShouldRevalidateContext,
+          ) => boolean,
+        },
+      }) as LayoutGroupHandlers<GroupName, RouteNames, any, any>;
+    },
+
+    layoutGroup<ChildName extends string, ChildRouteNames extends string, R2, ChildProvided>(
+      childGrp: LayoutGroup<ChildName, ChildRouteNames>,
+      build: (
+        handlers: LayoutGroupHandlers<ChildName, ChildRouteNames, never, any>,
+      ) => LayoutGroupHandlers<ChildName, ChildRouteNames, R2, ChildProvided>,
+    ) {
+      if (!layoutGrp.layouts.some((g) => g.name === childGrp.name)) {
+        throw new RouterError({
+          message: `Layout group "${childGrp.name}" is not nested in layout group "${groupName}"`,
+        });
+      }
+      // The child inherits this group's Provided, which only exists at the type level
+      const child = build(
+        makeLayoutGroupHandlers(childGrp.name, childGrp) as LayoutGroupHandlers<
+          ChildName,
+          ChildRouteNames,
+          never,
+          any
+        >,
+      );
+      return buildHandlers({
+        ...state,
+        handlers: [...state.handlers, ...child.handlers],
+        nestedLayoutHandlers: [
+          ...state.nestedLayoutHandlers,
+          ...(child.layoutHandler ? [child.layoutHandler] : []),
+          ...child.nestedLayoutHandlers,
+        ],
+        nestedFallbacks: new Map([
+          ...state.nestedFallbacks,
+          [childGrp.name, child.fallbacks],
+          ...child.nestedFallbacks,
+        ]),
+        nestedBeforeLoads: new Map([
+          ...state.nestedBeforeLoads,
+          ...beforeLoadEntries(childGrp.name, child.beforeLoadHook),
+          ...child.nestedBeforeLoads,
+        ]),
+      }) as LayoutGroupHandlers<GroupName, RouteNames, any, any>;
+    },
+
     handle<
       RouteName extends RouteNames,
       LoaderData,
@@ -482,6 +1064,9 @@ function makeLayoutGroupHandlers<GroupName extends string, RouteNames extends st
       ActionData,
       ActionR,
       ActionE,
+      P,
+      BeforeR,
+      BeforeE,
     >(
       routeName: RouteName,
       config: HandlerConfig<
@@ -492,7 +1077,11 @@ function makeLayoutGroupHandlers<GroupName extends string, RouteNames extends st
         E,
         ActionData,
         ActionR,
-        ActionE
+        ActionE,
+        P,
+        BeforeR,
+        BeforeE,
+        any
       >,
     ) {
       const maybeRoute = Option.fromNullable(routesByName.get(routeName));
@@ -541,23 +1130,159 @@ function makeLayoutGroupHandlers<GroupName extends string, RouteNames extends st
       const handler: RouteHandler = {
         routeName,
         route,
+        beforeLoad: Option.map(Option.fromNullable(config.beforeLoad), buildBeforeLoad),
         loader,
         component: config.component as (props: ComponentProps) => VElement,
         head,
         action,
+        shouldRevalidate: (config.shouldRevalidate ?? defaultShouldRevalidate) as (
+          ctx: ShouldRevalidateContext,
+        ) => boolean,
         prerender: config.prerender ?? false,
         getStaticPaths,
+        lazy: Option.fromNullable((config as Partial<LazyHandlerConfig>).lazy),
       };
 
-      return buildHandlers([...handlers, handler], layoutHandler) as LayoutGroupHandlers<
-        GroupName,
-        RouteNames,
-        any
-      >;
+      return buildHandlers({
+        ...state,
+        handlers: [...state.handlers, handler],
+      }) as LayoutGroupHandlers<GroupName, RouteNames, any, any>;
     },
   });
 
-  return buildHandlers([], null);
+  return buildHandlers({
+    handlers: [],
+    layoutHandler: null,
+    nestedLayoutHandlers: [],
+    fallbacks: noFallbacks,
+    nestedFallbacks: new Map(),
+    beforeLoadHook: Option.none(),
+    nestedBeforeLoads: new Map(),
+  });
+}
+
+/**
+ * Register a route's loader, component and head from a module imported on the
+ * route's first match, so they split into their own chunk.
+ *
+ * Usage:
+ * ```typescript
+ * handlers.handle("post", RouterBuilder.lazy(() => import("./post.js")))
+ *
+ * // post.tsx
+ * export default {
+ *   loader: ({ path }) => getPost(path.id),
+ *   component: ({ loaderData }) => <PostPage post={loaderData} />,
+ * } satisfies RouterBuilder.LazyRouteModule<Post, { id: string }>;
+ * ```
+ *
+ * What the router needs before the route matches (beforeLoad, action,
+ * shouldRevalidate, prerender, getStaticPaths) stays eager, in `options`.
+ * Link preloads import the module along with the loader data, and the fibrae
+ * Vite plugin adds modulepreload hints for it to SSR and SSG pages.
+ */
+export function lazy<
+  LoaderData = unknown,
+  PathParams extends Record<string, unknown> = Record<string, unknown>,
+  SearchParams extends Record<string, unknown> = Record<string, unknown>,
+  R = never,
+  E = never,
+  ActionData = unknown,
+  ActionR = never,
+  ActionE = never,
+  P = never,
+  BeforeR = never,
+  BeforeE = never,
+  Inherited = never,
+>(
+  load: LazyRouteLoader<LazyRouteModule<LoaderData, PathParams, SearchParams, R, E, Inherited | P>>,
+  options: Omit<
+    HandlerConfig<
+      LoaderData,
+      PathParams,
+      SearchParams,
+      R,
+      E,
+      ActionData,
+      ActionR,
+      ActionE,
+      P,
+      BeforeR,
+      BeforeE,
+      Inherited
+    >,
+    "loader" | "component" | "head"
+  > = {},
+): LazyHandlerConfig<
+  LoaderData,
+  PathParams,
+  SearchParams,
+  R,
+  E | RouterError,
+  ActionData,
+  ActionR,
+  ActionE,
+  P,
+  BeforeR,
+  BeforeE,
+  Inherited
+> {
+  type Module = LazyRouteModule<LoaderData, PathParams, SearchParams, R, E, Inherited | P>;
+  let loaded = Option.none<Module>();
+  let importing: Promise<Module> | undefined;
+
+  const module: Effect.Effect<Module, RouterError> = Effect.suspend(() =>
+    Option.isSome(loaded)
+      ? Effect.succeed(loaded.value)
+      : Effect.tryPromise({
+          try: () =>
+            (importing ??= load().then(({ default: imported }) => {
+              loaded = Option.some(imported);
+              return imported;
+            })),
+          catch: (cause) => {
+            // Let the next match import it again
+            importing = undefined;
+            return new RouterError({
+              message: `Failed to load route module${load.moduleId ? ` ${load.moduleId}` : ""}`,
+              cause,
+            });
+          },
+        }),
+  );
+
+  // The router imports the module before rendering, so this only renders
+  // for a component called before its route matched
+  const LazyComponent = (props: Record<string, unknown>) =>
+    Effect.map(
+      module,
+      (imported): VElement => ({
+        type: imported.component as VElement["type"],
+        props: { ...props, children: [] },
+      }),
+    );
+
+  return {
+    ...options,
+    lazy: { load: Effect.asVoid(module), moduleId: Option.fromNullable(load.moduleId) },
+    loader: (ctx) =>
+      Effect.flatMap(module, (imported) =>
+        imported.loader ? liftLoader(imported.loader(ctx)) : Effect.succeed(null as LoaderData),
+      ),
+    component: (props) =>
+      Option.match(loaded, {
+        onSome: (imported) => imported.component(props),
+        onNone: () => ({
+          type: LazyComponent as VElement["type"],
+          props: { ...props, children: [] },
+        }),
+      }),
+    head: (ctx) =>
+      Effect.flatMap(module, (imported) => {
+        const result = imported.head ? imported.head(ctx) : {};
+        return Effect.isEffect(result) ? result : Effect.succeed(result);
+      }).pipe(Effect.orDie),
+  };
 }
 
 /**
@@ -582,28 +1307,28 @@ function makeLayoutGroupHandlers<GroupName extends string, RouteNames extends st
  * )
  * ```
  */
-export function group<GroupName extends string, RouteNames extends string, R>(
+export function group<GroupName extends string, RouteNames extends string, R, P>(
   _appRouter: Router,
   routeGroup: RouteGroup<GroupName, RouteNames>,
   build: (
     handlers: GroupHandlers<GroupName, RouteNames>,
-  ) => GroupHandlers<GroupName, RouteNames, R>,
+  ) => GroupHandlers<GroupName, RouteNames, R, P>,
 ): Layer.Layer<RouterHandlers, never, R>;
-export function group<GroupName extends string, RouteNames extends string, R, R2>(
+export function group<GroupName extends string, RouteNames extends string, R, R2, P>(
   _appRouter: Router,
   routeGroup: RouteGroup<GroupName, RouteNames>,
   build: (
     handlers: GroupHandlers<GroupName, RouteNames>,
-  ) => Effect.Effect<GroupHandlers<GroupName, RouteNames, R>, never, R2>,
+  ) => Effect.Effect<GroupHandlers<GroupName, RouteNames, R, P>, never, R2>,
 ): Layer.Layer<RouterHandlers, never, R | R2>;
-export function group<GroupName extends string, RouteNames extends string, R, R2>(
+export function group<GroupName extends string, RouteNames extends string, R, R2, P>(
   _appRouter: Router,
   routeGroup: RouteGroup<GroupName, RouteNames>,
   build: (
     handlers: GroupHandlers<GroupName, RouteNames>,
   ) =>
-    | GroupHandlers<GroupName, RouteNames, R>
-    | Effect.Effect<GroupHandlers<GroupName, RouteNames, R>, never, R2>,
+    | GroupHandlers<GroupName, RouteNames, R, P>
+    | Effect.Effect<GroupHandlers<GroupName, RouteNames, R, P>, never, R2>,
 ): Layer.Layer<RouterHandlers, never, R | R2> {
   // Validate it's not a layout group (runtime safety net — types should prevent this)
   if ((routeGroup as AnyGroup)._tag === "LayoutGroup") {
@@ -635,6 +1360,11 @@ export function group<GroupName extends string, RouteNames extends string, R, R2
       return {
         handlers: handlersMap,
         layoutHandlers: new Map(),
+        fallbacks: new Map([[builtHandlers.groupName, builtHandlers.fallbacks]]),
+        routerFallbacks: noFallbacks,
+        beforeLoads: new Map(
+          beforeLoadEntries(builtHandlers.groupName, builtHandlers.beforeLoadHook),
+        ),
         getHandler(routeName: string): Option.Option<RouteHandler> {
           const handler = handlersMap.get(routeName);
           return handler ? Option.some(handler) : Option.none();
@@ -663,29 +1393,43 @@ export function group<GroupName extends string, RouteNames extends string, R, R2
  *     .handle("settings", { component: () => <Settings /> })
  * )
  * ```
+ *
+ * Layouts can load data, and nested layout groups are handled in the same Layer:
+ * ```typescript
+ * const AdminRoutesLive = RouterBuilder.layoutGroup(AppRouter, AdminRoutes, (handlers) =>
+ *   handlers
+ *     .layout({
+ *       loader: () => fetchUser(),
+ *       component: ({ loaderData }) => <AdminShell user={loaderData} />,
+ *     })
+ *     .layoutGroup(SettingsRoutes, (settings) =>
+ *       settings.layout(SettingsLayout).handle("profile", { component: () => <Profile /> }),
+ *     ),
+ * )
+ * ```
  */
-export function layoutGroup<GroupName extends string, RouteNames extends string, R>(
+export function layoutGroup<GroupName extends string, RouteNames extends string, R, P>(
   _appRouter: Router,
   layoutGrp: LayoutGroup<GroupName, RouteNames>,
   build: (
     handlers: LayoutGroupHandlers<GroupName, RouteNames>,
-  ) => LayoutGroupHandlers<GroupName, RouteNames, R>,
+  ) => LayoutGroupHandlers<GroupName, RouteNames, R, P>,
 ): Layer.Layer<RouterHandlers, never, R>;
-export function layoutGroup<GroupName extends string, RouteNames extends string, R, R2>(
+export function layoutGroup<GroupName extends string, RouteNames extends string, R, R2, P>(
   _appRouter: Router,
   layoutGrp: LayoutGroup<GroupName, RouteNames>,
   build: (
     handlers: LayoutGroupHandlers<GroupName, RouteNames>,
-  ) => Effect.Effect<LayoutGroupHandlers<GroupName, RouteNames, R>, never, R2>,
+  ) => Effect.Effect<LayoutGroupHandlers<GroupName, RouteNames, R, P>, never, R2>,
 ): Layer.Layer<RouterHandlers, never, R | R2>;
-export function layoutGroup<GroupName extends string, RouteNames extends string, R, R2>(
+export function layoutGroup<GroupName extends string, RouteNames extends string, R, R2, P>(
   _appRouter: Router,
   layoutGrp: LayoutGroup<GroupName, RouteNames>,
   build: (
     handlers: LayoutGroupHandlers<GroupName, RouteNames>,
   ) =>
-    | LayoutGroupHandlers<GroupName, RouteNames, R>
-    | Effect.Effect<LayoutGroupHandlers<GroupName, RouteNames, R>, never, R2>,
+    | LayoutGroupHandlers<GroupName, RouteNames, R, P>
+    | Effect.Effect<LayoutGroupHandlers<GroupName, RouteNames, R, P>, never, R2>,
 ): Layer.Layer<RouterHandlers, never, R | R2> {
   // Runtime safety net — types should prevent this
   if ((layoutGrp as AnyGroup)._tag !== "LayoutGroup") {
@@ -711,7 +1455,9 @@ export function layoutGroup<GroupName extends string, RouteNames extends string,
         builtHandlers.handlers.map((h) => [h.routeName, h]),
       );
 
-      const layoutHandlersMap = new Map<string, LayoutHandler>();
+      const layoutHandlersMap = new Map<string, LayoutHandler>(
+        builtHandlers.nestedLayoutHandlers.map((h) => [h.layoutName, h]),
+      );
       if (builtHandlers.layoutHandler) {
         layoutHandlersMap.set(builtHandlers.layoutHandler.layoutName, builtHandlers.layoutHandler);
       }
@@ -719,6 +1465,15 @@ export function layoutGroup<GroupName extends string, RouteNames extends string,
       return {
         handlers: handlersMap,
         layoutHandlers: layoutHandlersMap,
+        fallbacks: new Map([
+          ...builtHandlers.nestedFallbacks,
+          [builtHandlers.groupName, builtHandlers.fallbacks],
+        ]),
+        routerFallbacks: noFallbacks,
+        beforeLoads: new Map([
+          ...builtHandlers.nestedBeforeLoads,
+          ...beforeLoadEntries(builtHandlers.groupName, builtHandlers.beforeLoadHook),
+        ]),
         getHandler(routeName: string): Option.Option<RouteHandler> {
           const handler = handlersMap.get(routeName);
           return handler ? Option.some(handler) : Option.none();
@@ -732,29 +1487,111 @@ export function layoutGroup<GroupName extends string, RouteNames extends string,
   ) as Layer.Layer<RouterHandlers, never, R | R2>;
 }
 
+/**
+ * Router-level options for RouterBuilder.router().
+ */
+export interface RouterOptions {
+  /** Rendered for unmatched paths no group or layout group handles */
+  readonly notFound?: (props: NotFoundProps) => VElement;
+  /** Rendered for failing routes whose groups declare no errorComponent */
+  readonly errorComponent?: (props: ErrorComponentProps) => VElement;
+}
+
 /**
  * Merge multiple group handler layers into a single RouterHandlers layer.
+ * Router-level notFound/errorComponent apply when no group declares its own.
  *
  * Usage:
  * ```typescript
- * const AppRouterLive = RouterBuilder.router(AppRouter).pipe(
+ * const AppRouterLive = RouterBuilder.router(AppRouter, {
+ *   notFound: ({ pathname }) => <NotFoundPage pathname={pathname} />,
+ *   errorComponent: ({ error }) => <ErrorPage error={error} />,
+ * }).pipe(
  *   Layer.provide(AppRoutesLive),
  *   Layer.provide(ApiRoutesLive)
  * )
  * ```
  */
-export function router(_router: Router): Layer.Layer<RouterHandlers> {
-  // Start with an empty handlers layer
-  return Layer.succeed(RouterHandlers, {
-    handlers: new Map(),
-    layoutHandlers: new Map(),
-    getHandler(_routeName: string): Option.Option<RouteHandler> {
-      return Option.none();
-    },
-    getLayoutHandler(_layoutName: string): Option.Option<LayoutHandler> {
-      return Option.none();
-    },
-  });
+export function router(_router: Router, options: RouterOptions = {}): Layer.Layer<RouterHandlers> {
+  const routerFallbacks: FallbackHandlers = {
+    notFound: Option.fromNullable(options.notFound),
+    errorComponent: Option.fromNullable(options.errorComponent),
+  };
+
+  // Extend provided group handlers, or start with an empty handlers layer
+  return Layer.effect(
+    RouterHandlers,
+    Effect.serviceOption(RouterHandlers).pipe(
+      Effect.map(
+        Option.match({
+          onSome: (handlers) => ({ ...handlers, routerFallbacks }),
+          onNone: () => ({
+            handlers: new Map(),
+            layoutHandlers: new Map(),
+            fallbacks: new Map(),
+            routerFallbacks,
+            beforeLoads: new Map(),
+            getHandler(_routeName: string): Option.Option<RouteHandler> {
+              return Option.none();
+            },
+            getLayoutHandler(_layoutName: string): Option.Option<LayoutHandler> {
+              return Option.none();
+            },
+          }),
+        }),
+      ),
+    ),
+  );
+}
+
+/**
+ * Find the notFound component for an unmatched pathname: the innermost layout
+ * group whose basePath contains it, then regular groups in declaration order,
+ * then the router-level one.
+ */
+export function resolveNotFound(
+  appRouter: Router,
+  handlers: RouterHandlers["Type"],
+  pathname: string,
+): Option.Option<(props: NotFoundProps) => VElement> {
+  const containing = (g: LayoutGroup, base: string): ReadonlyArray<string> => {
+    const basePath = base + g.basePath;
+    if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) return [];
+    return [...g.layouts.flatMap((nested) => containing(nested, basePath)), g.name];
+  };
+
+  const candidates = [
+    ...appRouter.groups.flatMap((g) => (g._tag === "LayoutGroup" ? containing(g, "") : [])),
+    ...appRouter.groups.flatMap((g) => (g._tag === "RouteGroup" ? [g.name] : [])),
+  ];
+
+  return Option.orElse(
+    Option.firstSomeOf(
+      candidates.map((name) =>
+        Option.flatMap(Option.fromNullable(handlers.fallbacks.get(name)), (f) => f.notFound),
+      ),
+    ),
+    () => handlers.routerFallbacks.notFound,
+  );
+}
+
+/**
+ * Find the errorComponent for a matched route: its own group first, then the
+ * layout groups wrapping it from innermost to outermost, then the router-level one.
+ */
+export function resolveErrorComponent(
+  handlers: RouterHandlers["Type"],
+  match: { readonly groupName: string; readonly layouts: readonly string[] },
+): Option.Option<(props: ErrorComponentProps) => VElement> {
+  const candidates = [match.groupName, ...match.layouts.toReversed()];
+  return Option.orElse(
+    Option.firstSomeOf(
+      candidates.map((name) =>
+        Option.flatMap(Option.fromNullable(handlers.fallbacks.get(name)), (f) => f.errorComponent),
+      ),
+    ),
+    () => handlers.routerFallbacks.errorComponent,
+  );
 }
 
 /**
@@ -766,7 +1603,11 @@ export function executeRoute(
   ctx: LoaderContext,
 ): Effect.Effect<VElement, unknown> {
   return Effect.gen(function* () {
-    const loaderData = yield* handler.loader(ctx);
+    const context = yield* Option.match(handler.beforeLoad, {
+      onNone: () => Effect.succeed(Context.empty()),
+      onSome: (hook) => hook(ctx),
+    });
+    const loaderData = yield* handler.loader(ctx).pipe(Effect.provide(context));
     const noopFormAction = () =>
       Effect.fail({ _tag: "ActionError", message: "Actions not available in executeRoute" });
     return handler.component({
@@ -776,10 +1617,102 @@ export function executeRoute(
       actionData: Option.none(),
       formAction: noopFormAction,
       submissionState: { _tag: "Idle" },
+      context,
     });
   });
 }
 
+/**
+ * Run the beforeLoad hooks guarding a matched route, from the outermost layout
+ * group inward, then the route's own group and handler.
+ *
+ * Returns one Exit per level: one for each layout in `layouts`, then one for
+ * the route itself. Each level sees the services provided by the levels
+ * outside it; once a level fails, the levels inside it fail the same way.
+ */
+export function runBeforeLoads(
+  routerHandlers: RouterHandlers["Type"],
+  match: {
+    readonly routeName: string;
+    readonly groupName: string;
+    readonly layouts: readonly string[];
+  },
+  ctx: LoaderContext,
+): Effect.Effect<ReadonlyArray<Exit.Exit<Context.Context<never>, unknown>>> {
+  const groupHook = (name: string) => Option.fromNullable(routerHandlers.beforeLoads.get(name));
+  const routeHooks = [
+    ...(match.layouts.includes(match.groupName) ? [] : [groupHook(match.groupName)]),
+    Option.flatMap(routerHandlers.getHandler(match.routeName), (handler) => handler.beforeLoad),
+  ];
+  const levels = [...match.layouts.map((name) => [groupHook(name)]), routeHooks];
+
+  return Effect.gen(function* () {
+    const exits: Array<Exit.Exit<Context.Context<never>, unknown>> = [];
+    let current: Exit.Exit<Context.Context<never>, unknown> = Exit.succeed(Context.empty());
+    for (const hooks of levels) {
+      for (const hook of hooks) {
+        if (Exit.isSuccess(current) && Option.isSome(hook)) {
+          current = yield* Effect.exit(runBeforeLoad(hook.value, ctx, current.value));
+        }
+      }
+      exits.push(current);
+    }
+    return exits;
+  });
+}
+
+/**
+ * Data produced by the loaders of a matched route and its layouts.
+ */
+export interface LoadedRoute {
+  readonly loaderData: unknown;
+  /** Layout loader data keyed by layout name */
+  readonly layoutData: Record<string, unknown>;
+}
+
+/**
+ * Run a route's loader together with the loaders of the layouts wrapping it.
+ * All loaders run concurrently; layouts without a registered handler load nothing.
+ *
+ * `contexts` holds what runBeforeLoads provided for each level (layouts, then
+ * the route); each loader runs with its own level's services.
+ */
+export function executeLoaders(
+  routerHandlers: RouterHandlers["Type"],
+  layoutNames: readonly string[],
+  handler: RouteHandler,
+  ctx: LoaderContext,
+  contexts: ReadonlyArray<Context.Context<never>> = [],
+): Effect.Effect<LoadedRoute, unknown> {
+  const levelContext = (index: number) => contexts[index] ?? Context.empty();
+  const layoutLoaders = layoutNames.flatMap((name, index) =>
+    Option.match(routerHandlers.getLayoutHandler(name), {
+      onNone: () => [],
+      onSome: (layout) => [
+        layout.loader(ctx).pipe(
+          Effect.provide(levelContext(index)),
+          Effect.map((data) => [name, data] as const),
+        ),
+      ],
+    }),
+  );
+
+  return Effect.all(
+    [
+      Effect.all(layoutLoaders, { concurrency: "unbounded" }),
+      handler.loader(ctx).pipe(Effect.provide(levelContext(layoutNames.length))),
+    ],
+    {
+      concurrency: "unbounded",
+    },
+  ).pipe(
+    Effect.map(([layoutEntries, loaderData]) => ({
+      loaderData,
+      layoutData: Object.fromEntries(layoutEntries),
+    })),
+  );
+}
+
 /**
  * A prerender route paired with its enumerated param sets.
  */
@@ -808,3 +1741,15 @@ export const getPrerenderRoutes = (handlers: {
         }).pipe(Effect.map((paramSets): PrerenderRoute => ({ handler, paramSets }))),
       ),
   );
+
+/**
+ * The module id of a route's lazy handler, for modulepreload hints in the
+ * pages that render it. None for eager handlers and untagged lazy ones.
+ */
+export const getRouteModuleId = (
+  handlers: Pick<RouterHandlers["Type"], "getHandler">,
+  routeName: string,
+): Option.Option<string> =>
+  Option.flatMap(handlers.getHandler(routeName), (handler) =>
+    Option.flatMap(handler.lazy, (module) => module.moduleId),
+  );
@@ -10,6 +10,8 @@
  * Supports nested layouts - when a route is matched inside a layout group,
  * the outlet renders the layout component first. The layout component should
  * render its own <RouterOutlet /> which will then render the child route.
+ * Layout and route loaders for a navigation run once, in parallel, and each
+ * outlet renders its own level's data (or error) when they settle.
  *
  * Usage:
  * ```typescript
@@ -40,13 +42,32 @@ import * as Effect from "effect/Effect";
 import * as Stream from "effect/Stream";
 import * as Option from "effect/Option";
 import * as Context from "effect/Context";
-import * as Schema from "effect/Schema";
 import * as Cause from "effect/Cause";
+import * as Exit from "effect/Exit";
+import * as Fiber from "effect/Fiber";
 import { Registry as AtomRegistry } from "@effect-atom/atom";
-import { Navigator, Redirect } from "./Navigator.js";
-import { RouterHandlers, type SubmissionState } from "./RouterBuilder.js";
+import { Navigator, Redirect, type CurrentRoute } from "./Navigator.js";
+import { History } from "./History.js";
+import { RouterError } from "./Router.js";
+import {
+  RouterHandlers,
+  resolveErrorComponent,
+  resolveNotFound,
+  runBeforeLoads,
+} from "./RouterBuilder.js";
+import {
+  fetcherAtom,
+  resetFetcher,
+  runPayloadSubmission,
+  settleFetcher,
+  type Fetcher,
+} from "./Fetcher.js";
+import { LoaderCache, routeLevels, type CachedLoad, type RouteLevel } from "./LoaderCache.js";
+import { parseSearchParams } from "./utils.js";
+import { submissionActionData } from "./Form.js";
 import { RouterStateAtom, type RouterState } from "./RouterState.js";
 import { Transition } from "../transition.js";
+import { ContextProvider } from "../components.js";
 import type { VElement } from "../shared.js";
 
 /**
@@ -66,10 +87,52 @@ const ErrorBubble = (cause: Cause.Cause<unknown>): VElement => {
 
 /**
  * Context for tracking outlet depth in nested layouts.
- * Each nested RouterOutlet increments the depth.
+ * An outlet rendering a layout provides the next depth to everything the
+ * layout renders, so the RouterOutlet inside it renders the next level.
  */
 export class OutletDepth extends Context.Tag("fibrae/OutletDepth")<OutletDepth, number>() {}
 
+/**
+ * One level's loader outcome. `revalidated` settles with fresh data when the
+ * LoaderCache served stale data for this level; `context` holds the services
+ * the level's beforeLoad guards provided.
+ */
+interface LevelLoad {
+  readonly exit: Exit.Exit<unknown, unknown>;
+  readonly revalidated: Option.Option<Effect.Effect<Exit.Exit<unknown, unknown>>>;
+  readonly context: Context.Context<never>;
+}
+
+/**
+ * Loader outcomes for one navigation: one per layout (outermost first) and
+ * one for the route, so each outlet can render or bubble its own level.
+ */
+interface RouteLoad {
+  readonly layouts: ReadonlyArray<LevelLoad>;
+  readonly route: LevelLoad;
+}
+
+const settled = (
+  exit: Exit.Exit<unknown, unknown>,
+  context: Exit.Exit<Context.Context<never>, unknown>,
+): LevelLoad => ({
+  exit,
+  revalidated: Option.none(),
+  context: Exit.getOrElse(context, () => Context.empty()),
+});
+
+/**
+ * The fetcher key a route component's `formAction` submissions are tracked
+ * under: its `submissionState` and `actionData` props follow that fetcher.
+ */
+const routeActionKey = (routeName: string): string => `fibrae:route-action:${routeName}`;
+
+/**
+ * Loads keyed by the matched route. Navigator creates a new CurrentRoute per
+ * location, so every outlet rendering that location joins the same load.
+ */
+const routeLoads = new WeakMap<CurrentRoute, Fiber.RuntimeFiber<RouteLoad>>();
+
 // =============================================================================
 // RouterOutlet Component
 // =============================================================================
@@ -82,8 +145,13 @@ export class OutletDepth extends Context.Tag("fibrae/OutletDepth")<OutletDepth,
  * 2. If at depth < layouts.length, renders the layout at that depth
  * 3. If at depth === layouts.length, renders the actual route component
  * 4. Subscribes to Navigator.currentRoute for navigation changes
- * 5. When route changes, runs the matched route's loader
+ * 5. When route changes, runs the layout and route loaders in parallel
+ *    (shared by all outlets; the root outlet cancels it on the next navigation).
+ *    With a LoaderCache, preloaded data is used instantly and stale data
+ *    renders at once, then again when it revalidates in the background
  * 6. Updates RouterStateAtom with the full state (for DI access)
+ * 7. Renders the nearest notFound / errorComponent for unmatched paths and
+ *    failing levels, falling back to plain 404 markup / ErrorBoundary
  *
  * For SSR hydration, the RouterStateAtom is pre-populated by the server,
  * so the first render uses that data and skips the loader.
@@ -96,9 +164,9 @@ export function RouterOutlet(): Stream.Stream<
   // Track if this is the first render (for SSR hydration)
   let isFirstRender = true;
 
-  // Mutable action state — shared across route renders, reset on navigation
-  let actionData: Option.Option<unknown> = Option.none();
-  let submissionState: SubmissionState = { _tag: "Idle" };
+  // The last route this outlet rendered; a revalidation keeps its data for
+  // levels whose shouldRevalidate declines
+  let lastRoute: Option.Option<CurrentRoute> = Option.none();
 
   return Stream.unwrap(
     Effect.gen(function* () {
@@ -117,157 +185,404 @@ export function RouterOutlet(): Stream.Stream<
       // Transition service (optional) — provides isPending signal
       const transitionOpt = yield* Effect.serviceOption(Transition);
 
+      // Loader cache (optional) — serves preloaded and stale-while-revalidate data
+      const cacheOpt = yield* Effect.serviceOption(LoaderCache);
+
+      // Record a navigation's loader data in RouterStateAtom (for DI access by
+      // other components) once every level loaded, unless the user moved on
+      const setRouterState = (
+        currentRoute: CurrentRoute,
+        layoutExits: ReadonlyArray<Exit.Exit<unknown, unknown>>,
+        routeExit: Exit.Exit<unknown, unknown>,
+      ) => {
+        const { routeName, params, searchParams, layouts } = currentRoute;
+        const current = registry.get(navigator.currentRoute);
+        if (!Option.contains(current, currentRoute) || Exit.isFailure(routeExit)) return;
+        if (Option.isNone(routerHandlers.getHandler(routeName))) return;
+        const layoutEntries = layoutExits.flatMap((exit, i) =>
+          Exit.isSuccess(exit) ? [[layouts[i], exit.value] as const] : [],
+        );
+        if (layoutEntries.length !== layouts.length) return;
+        registry.set(
+          RouterStateAtom,
+          Option.some({
+            routeName,
+            params,
+            searchParams,
+            loaderData: routeExit.value,
+            layoutData: Object.fromEntries(layoutEntries),
+          }),
+        );
+      };
+
+      // Data to keep for each level on revalidation: Some for levels whose
+      // shouldRevalidate declines (taken from the previous load), None to rerun
+      const keptLevels = (
+        currentRoute: CurrentRoute,
+        levels: ReadonlyArray<RouteLevel>,
+        previous: Option.Option<Fiber.RuntimeFiber<RouteLoad>>,
+      ): Effect.Effect<ReadonlyArray<Option.Option<Exit.Exit<unknown, unknown>>>> =>
+        Effect.gen(function* () {
+          const { revalidation, params, searchParams } = currentRoute;
+          const previousExit = Option.isSome(previous)
+            ? yield* Fiber.await(previous.value)
+            : Exit.fail(undefined);
+          if (!revalidation || Exit.isFailure(previousExit)) {
+            return levels.map(() => Option.none());
+          }
+          const previousLevels = [...previousExit.value.layouts, previousExit.value.route];
+          return yield* Effect.forEach(levels, (level, i) => {
+            const rerun = level.shouldRevalidate({
+              path: params,
+              searchParams,
+              actionResult: revalidation.actionResult,
+              defaultShouldRevalidate: Option.match(revalidation.invalidated, {
+                onNone: () => true,
+                onSome: (name) => name === level.name,
+              }),
+            });
+            const previousLevel = previousLevels[i];
+            return rerun || !previousLevel
+              ? Effect.succeedNone
+              : Option.getOrElse(previousLevel.revalidated, () =>
+                  Effect.succeed(previousLevel.exit),
+                ).pipe(Effect.asSome);
+          });
+        });
+
+      // Run every loader for a navigation concurrently (through the cache when
+      // provided), or reuse the SSR-hydrated state. A revalidation reruns the
+      // levels that opt in, bypassing fresh cached data.
+      const runLoad = (
+        currentRoute: CurrentRoute,
+        hydrated: Option.Option<RouterState>,
+        previous: Option.Option<Fiber.RuntimeFiber<RouteLoad>>,
+      ): Effect.Effect<RouteLoad> =>
+        Effect.gen(function* () {
+          const contexts = yield* runBeforeLoads(routerHandlers, currentRoute, {
+            path: currentRoute.params,
+            searchParams: currentRoute.searchParams,
+          });
+          const levels = routeLevels(routerHandlers, currentRoute, contexts);
+
+          if (Option.isSome(hydrated)) {
+            const state = hydrated.value;
+            const data = [
+              ...currentRoute.layouts.map((name) => state.layoutData[name] ?? null),
+              state.loaderData,
+            ];
+            // Seed the cache so returning to this page is instant
+            if (Option.isSome(cacheOpt)) {
+              yield* Effect.forEach(levels, (level, i) => cacheOpt.value.set(level.key, data[i]));
+            }
+            const loads = data.map((d, i) => settled(Exit.succeed(d), contexts[i]));
+            return { layouts: loads.slice(0, -1), route: loads[loads.length - 1] };
+          }
+
+          const kept = yield* keptLevels(currentRoute, levels, previous);
+
+          // Start every level: shared with preloads through the cache, or owned by this load.
+          // Levels whose guard failed settle with its failure, whatever the cache holds.
+          const reads = yield* Effect.forEach(levels, (level, i) =>
+            Option.match(Exit.isFailure(contexts[i]) ? Option.some(contexts[i]) : kept[i], {
+              onSome: (exit) =>
+                Effect.succeed<CachedLoad>({ data: Fiber.done(exit), revalidation: Option.none() }),
+              onNone: () =>
+                Option.match(cacheOpt, {
+                  onNone: () =>
+                    Effect.fork(level.loader).pipe(
+                      Effect.map((data): CachedLoad => ({ data, revalidation: Option.none() })),
+                    ),
+                  onSome: (cache) =>
+                    (currentRoute.revalidation ? cache.invalidate(level.name) : Effect.void).pipe(
+                      Effect.zipRight(cache.read(level.key, level.loader)),
+                    ),
+                }),
+            }),
+          );
+
+          // Signal transition pending while loaders run
+          if (Option.isSome(transitionOpt)) {
+            registry.set(transitionOpt.value.isPending, true);
+          }
+
+          const exits = yield* Effect.forEach(reads, (read) => Fiber.await(read.data), {
+            concurrency: "unbounded",
+          }).pipe(
+            // Navigating away cancels loads still in flight
+            Effect.onInterrupt(() => Effect.forEach(reads, (read) => Fiber.interrupt(read.data))),
+          );
+
+          // Transition complete — new content is ready
+          if (Option.isSome(transitionOpt)) {
+            registry.set(transitionOpt.value.isPending, false);
+          }
+
+          const layoutExits = exits.slice(0, -1);
+          const routeExit = exits[exits.length - 1];
+          setRouterState(currentRoute, layoutExits, routeExit);
+
+          // Levels served stale settle again with fresh data in the background
+          const loads = reads.map(
+            (read, i): LevelLoad => ({
+              ...settled(exits[i], contexts[i]),
+              revalidated: Option.map(read.revalidation, Fiber.await),
+            }),
+          );
+          if (loads.some((load) => Option.isSome(load.revalidated))) {
+            yield* Effect.forkDaemon(
+              Effect.forEach(
+                loads,
+                (load) => Option.getOrElse(load.revalidated, () => Effect.succeed(load.exit)),
+                { concurrency: "unbounded" },
+              ).pipe(
+                Effect.map((fresh) =>
+                  setRouterState(currentRoute, fresh.slice(0, -1), fresh[fresh.length - 1]),
+                ),
+              ),
+            );
+          }
+
+          return { layouts: loads.slice(0, -1), route: loads[loads.length - 1] };
+        });
+
+      // Join the navigation's load, starting it if this outlet is the first to see it.
+      // The load runs detached so deeper outlets can join it after this one renders.
+      const joinLoad = (currentRoute: CurrentRoute): Effect.Effect<RouteLoad> =>
+        Effect.gen(function* () {
+          const existing = routeLoads.get(currentRoute);
+          const fiber = existing
+            ? existing
+            : yield* Effect.forkDaemon(
+                runLoad(
+                  currentRoute,
+                  // Use SSR-hydrated state on first render
+                  Option.filter(
+                    hydratedState,
+                    (state) => isFirstRender && state.routeName === currentRoute.routeName,
+                  ),
+                  Option.flatMap(lastRoute, (route) => Option.fromNullable(routeLoads.get(route))),
+                ),
+              );
+          routeLoads.set(currentRoute, fiber);
+
+          // The root outlet owns cancellation: switching to a new route interrupts stale loaders
+          return yield* currentDepth === 0
+            ? Fiber.join(fiber).pipe(Effect.onInterrupt(() => Fiber.interrupt(fiber)))
+            : Fiber.join(fiber);
+        });
+
+      // Render this outlet's level for a matched route, given its loader outcome.
+      // Errors are caught so the route-change stream stays alive: Redirect navigates,
+      // anything else renders the errorComponent nearest this outlet's level, or a
+      // component that re-throws during render so ErrorBoundary catches it.
+      const renderLevel = (
+        currentRoute: CurrentRoute,
+        loaderExit: Exit.Exit<unknown, unknown>,
+        context: Context.Context<never>,
+        submission: Fetcher,
+      ): Effect.Effect<VElement, never, AtomRegistry.AtomRegistry> =>
+        Effect.gen(function* () {
+          const { routeName, params, searchParams, layouts } = currentRoute;
+          const loaderData = yield* loaderExit;
+
+          // Check if we should render a layout or the route component
+          if (currentDepth < layouts.length) {
+            // Render the layout at this depth
+            const layoutName = layouts[currentDepth];
+            const layoutHandler = routerHandlers.getLayoutHandler(layoutName);
+
+            if (Option.isNone(layoutHandler)) {
+              return yield* new RouterError({
+                message: `No layout handler found for: ${layoutName}`,
+              });
+            }
+
+            // The layout's subtree gets its beforeLoad services, and its own
+            // RouterOutlet, wherever it renders, is one level deeper
+            return (
+              <ContextProvider context={Context.add(context, OutletDepth, currentDepth + 1)}>
+                {layoutHandler.value.component({ loaderData, path: params, searchParams, context })}
+              </ContextProvider>
+            );
+          }
+
+          // At the deepest level - render the actual route component
+          const handler = routerHandlers.getHandler(routeName);
+          if (Option.isNone(handler)) {
+            registry.set(RouterStateAtom, Option.none());
+            return yield* new RouterError({
+              message: `No handler found for route: ${routeName}`,
+            });
+          }
+
+          // Hydration skips the loader, which imports a lazy route's module
+          yield* Option.match(handler.value.lazy, {
+            onNone: () => Effect.void,
+            onSome: (lazy) => lazy.load,
+          });
+
+          // formAction runs the route's action as a fetcher under the route's key,
+          // whose state re-renders the component (see the route level's stream).
+          // If route has no action, formAction returns a failing Effect.
+          const formAction = (payload: Record<string, unknown>): Effect.Effect<unknown, unknown> =>
+            Option.match(handler.value.action, {
+              onNone: () =>
+                Effect.fail({
+                  _tag: "ActionError",
+                  message: `No action defined for route: ${routeName}`,
+                }),
+              onSome: (routeAction) =>
+                runPayloadSubmission(routeActionKey(routeName), routeAction, payload).pipe(
+                  Effect.flatMap((result) =>
+                    result._tag === "Success"
+                      ? // Rerun the route's and its layouts' loaders with the mutation applied
+                        Effect.as(navigator.revalidate({ actionResult: result.data }), result.data)
+                      : Effect.fail(result.error),
+                  ),
+                  Effect.provideService(AtomRegistry.AtomRegistry, registry),
+                ),
+            });
+
+          const submissionState = submission.state;
+          const actionData =
+            submissionState._tag === "Success" || submissionState._tag === "Failure"
+              ? submissionActionData(submissionState)
+              : submission.actionData;
+
+          // Render the component with both props patterns:
+          // 1. Traditional props (loaderData, path, searchParams)
+          // 2. Action context (actionData, formAction, submissionState)
+          // 3. Components can also access via RouterStateAtom/RouterStateService
+          // 4. Components inside it yield the beforeLoad services
+          return (
+            <ContextProvider context={context}>
+              {handler.value.component({
+                loaderData,
+                path: params,
+                searchParams,
+                actionData,
+                formAction,
+                submissionState,
+                context,
+              })}
+            </ContextProvider>
+          );
+        }).pipe(
+          // Redirect is checked structurally because the loader's error type is
+          // erased to unknown at the type-erasure boundary.
+          Effect.catchAllCause((cause) => {
+            const error = Cause.squash(cause);
+            if (error instanceof Redirect) {
+              return Effect.gen(function* () {
+                yield* navigator.go(error.to, { replace: error.replace ?? true });
+                return (<div />) as VElement;
+              });
+            }
+            const { groupName, layouts } = currentRoute;
+            const errorComponent = resolveErrorComponent(
+              routerHandlers,
+              currentDepth < layouts.length
+                ? { groupName: layouts[currentDepth], layouts: layouts.slice(0, currentDepth) }
+                : { groupName, layouts },
+            );
+            return Effect.succeed(
+              Option.match(errorComponent, {
+                onNone: () => ErrorBubble(cause),
+                onSome: (component) =>
+                  component({
+                    pathname: navigator.currentPathname,
+                    routeName: Option.some(currentRoute.routeName),
+                    error,
+                    cause,
+                  }),
+              }),
+            );
+          }),
+        );
+
+      // Render the nearest notFound for an unmatched path
+      const renderNotFound = Effect.gen(function* () {
+        const pathname = navigator.currentPathname;
+        const history = yield* Effect.serviceOption(History);
+        const searchParams = Option.match(history, {
+          onNone: () => ({}),
+          onSome: (h) => parseSearchParams(registry.get(h.location).search),
+        });
+        return Option.match(resolveNotFound(navigator.router, routerHandlers, pathname), {
+          onNone: () => <div>404 - Not Found</div>,
+          onSome: (notFound) => notFound({ pathname, searchParams }),
+        });
+      });
+
       // Create a stream from the currentRoute atom (navigation trigger)
       const routeStream = AtomRegistry.toStream(registry, navigator.currentRoute);
 
       // Map route changes to rendered VElements.
-      // switchMap cancels the previous route's loader when a new route arrives,
+      // switch cancels the previous route's loader when a new route arrives,
       // preventing stale loaders from running concurrently on rapid navigation.
-      // Errors are caught per-route so the stream stays alive for navigation recovery.
-      // A failing route emits a component that re-throws during render, allowing
-      // ErrorBoundary to catch it while keeping this stream alive for the next route.
+      // A level served stale from the cache renders again once it revalidates;
+      // a failed revalidation keeps the stale render.
       return routeStream.pipe(
         Stream.flatMap(
           (currentRoute) =>
-            Stream.fromEffect(
+            Stream.unwrap(
               Effect.gen(function* () {
-                // Reset action state on navigation
-                actionData = Option.none();
-                submissionState = { _tag: "Idle" };
-
                 if (Option.isNone(currentRoute)) {
-                  // No route matched - clear router state and render 404
+                  lastRoute = Option.none();
+                  // No route matched - clear router state and render the nearest notFound
                   registry.set(RouterStateAtom, Option.none());
-                  return <div>404 - Not Found</div>;
+                  return Stream.fromEffect(renderNotFound);
                 }
 
-                const { routeName, params, searchParams, layouts } = currentRoute.value;
+                // The outlet rendering the route component tracks its action state
+                const { routeName, layouts } = currentRoute.value;
+                const isRouteLevel = currentDepth === layouts.length;
+                const actionKey = routeActionKey(routeName);
 
-                // Check if we should render a layout or the route component
-                if (currentDepth < layouts.length) {
-                  // Render the layout at this depth
-                  const layoutName = layouts[currentDepth];
-                  const layoutHandler = routerHandlers.getLayoutHandler(layoutName);
-
-                  if (Option.isNone(layoutHandler)) {
-                    return <div>No layout handler for: {layoutName}</div>;
-                  }
-
-                  return layoutHandler.value.component();
+                // Reset action state on navigation (a revalidation keeps the location)
+                if (isRouteLevel && !currentRoute.value.revalidation) {
+                  yield* resetFetcher(actionKey);
                 }
 
-                // At the deepest level - render the actual route component
-                const handler = routerHandlers.getHandler(routeName);
-                if (Option.isNone(handler)) {
-                  registry.set(RouterStateAtom, Option.none());
-                  return <div>No handler for route: {routeName}</div>;
+                // A page the server rendered for a form POST starts from that submission
+                const hydratedSubmission = Option.flatMap(hydratedState, (state) =>
+                  isFirstRender && state.routeName === routeName
+                    ? Option.fromNullable(state.submission)
+                    : Option.none(),
+                );
+                if (isRouteLevel && Option.isSome(hydratedSubmission)) {
+                  yield* settleFetcher(actionKey, hydratedSubmission.value);
                 }
 
-                let loaderData: unknown;
-                let routerState: RouterState;
-
-                // Check if we should use hydrated SSR state
-                const shouldUseHydratedState =
-                  isFirstRender &&
-                  Option.isSome(hydratedState) &&
-                  hydratedState.value.routeName === routeName;
-
-                if (shouldUseHydratedState) {
-                  // Use SSR-hydrated state
-                  routerState = hydratedState.value;
-                  loaderData = routerState.loaderData;
-                } else {
-                  // Signal transition pending while loader runs
-                  if (Option.isSome(transitionOpt)) {
-                    registry.set(transitionOpt.value.isPending, true);
-                  }
-
-                  // Run the loader
-                  const loaderCtx = { path: params, searchParams };
-                  loaderData = yield* handler.value.loader(loaderCtx);
-
-                  // Transition complete — new content is ready
-                  if (Option.isSome(transitionOpt)) {
-                    registry.set(transitionOpt.value.isPending, false);
-                  }
-
-                  // Build the new router state
-                  routerState = {
-                    routeName,
-                    params,
-                    searchParams,
-                    loaderData,
-                  };
-
-                  // Update RouterStateAtom (for DI access by other components)
-                  registry.set(RouterStateAtom, Option.some(routerState));
-                }
+                const load = yield* joinLoad(currentRoute.value);
+                lastRoute = currentRoute;
 
                 // Mark first render complete
                 isFirstRender = false;
 
-                // Build formAction — decodes payload via action schema and invokes action handler.
-                // If route has no action, formAction returns a failing Effect.
-                const formAction = (
-                  payload: Record<string, unknown>,
-                ): Effect.Effect<unknown, unknown> =>
-                  Option.match(handler.value.action, {
-                    onNone: () =>
-                      Effect.fail({
-                        _tag: "ActionError",
-                        message: `No action defined for route: ${routeName}`,
-                      }),
-                    onSome: (routeAction) =>
-                      (
-                        Schema.decodeUnknown(routeAction.schema)(payload) as Effect.Effect<
-                          unknown,
-                          unknown
-                        >
-                      ).pipe(
-                        Effect.flatMap((decoded) => routeAction.handler({ payload: decoded })),
-                        Effect.tap((result) =>
-                          Effect.sync(() => {
-                            actionData = Option.some(result);
-                            submissionState = { _tag: "Success", data: result };
-                          }),
-                        ),
-                        Effect.tapErrorCause((cause) =>
-                          Effect.sync(() => {
-                            submissionState = { _tag: "Failure", error: Cause.squash(cause) };
-                          }),
-                        ),
-                      ),
-                  });
-
-                // Render the component with both props patterns:
-                // 1. Traditional props (loaderData, path, searchParams)
-                // 2. Action context (actionData, formAction, submissionState)
-                // 3. Components can also access via RouterStateAtom/RouterStateService
-                const element = handler.value.component({
-                  loaderData,
-                  path: params,
-                  searchParams,
-                  actionData,
-                  formAction,
-                  submissionState,
-                });
-
-                return element;
-              }).pipe(
-                // Catch all errors: handle Redirect by navigating, bubble everything else
-                // to ErrorBoundary. Redirect is checked structurally because the loader's
-                // error type is erased to unknown at the type-erasure boundary.
-                Effect.catchAllCause((cause) => {
-                  const error = Cause.squash(cause);
-                  if (error instanceof Redirect) {
-                    return Effect.gen(function* () {
-                      yield* navigator.go(error.to, { replace: error.replace ?? true });
-                      return (<div />) as VElement;
-                    });
-                  }
-                  return Effect.succeed(ErrorBubble(cause));
-                }),
-              ),
+                const level = isRouteLevel ? load.route : load.layouts[currentDepth];
+
+                // The level's loader outcome, then its fresh data when served stale
+                const exits = Stream.concat(
+                  Stream.make(level.exit),
+                  Option.match(level.revalidated, {
+                    onNone: () => Stream.empty,
+                    onSome: (fresh) => Stream.fromEffect(fresh).pipe(Stream.filter(Exit.isSuccess)),
+                  }),
+                );
+
+                // The route component also renders again as its action state changes
+                const submissions = isRouteLevel
+                  ? AtomRegistry.toStream(registry, fetcherAtom(actionKey))
+                  : Stream.make(registry.get(fetcherAtom(actionKey)));
+
+                return Stream.zipLatest(exits, submissions).pipe(
+                  Stream.mapEffect(([exit, submission]) =>
+                    renderLevel(currentRoute.value, exit, level.context, submission),
+                  ),
+                );
+              }),
             ),
           { switch: true },
         ),
@@ -4,8 +4,10 @@
  * Contains everything needed to render the current route:
  * - routeName: The matched route's name
  * - params: Decoded path parameters
- * - searchParams: Query string parameters
+ * - searchParams: Query string parameters, decoded with the route's search schema
  * - loaderData: Data returned by the route's loader
+ * - layoutData: Data returned by each wrapping layout's loader, keyed by layout name
+ * - submission: Outcome of a form POST the server handled before rendering
  *
  * This atom is:
  * - Serializable for SSR hydration
@@ -18,6 +20,7 @@ import * as Option from "effect/Option";
 import * as Context from "effect/Context";
 import * as Effect from "effect/Effect";
 import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
+import type { SubmissionResult } from "./RouterBuilder.js";
 
 // =============================================================================
 // Types
@@ -30,21 +33,33 @@ import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
 export interface RouterState {
   readonly routeName: string;
   readonly params: Record<string, unknown>;
-  readonly searchParams: Record<string, string>;
+  readonly searchParams: Record<string, unknown>;
   readonly loaderData: unknown;
+  readonly layoutData: Record<string, unknown>;
+  /** Set when the server rendered this page in response to a form POST */
+  readonly submission?: SubmissionResult;
 }
 
 /**
  * Schema for RouterState - used for serialization.
  *
- * Note: loaderData uses Schema.Unknown since the actual type
- * is inferred from the loader Effect return type.
+ * Note: loaderData/layoutData use Schema.Unknown since the actual types
+ * are inferred from the loader Effect return types. A submission's error is
+ * dehydrated to its tag and message, plus field errors for a validation
+ * failure (see Router.serverLayer).
  */
 export const RouterStateSchema = Schema.Struct({
   routeName: Schema.String,
   params: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
-  searchParams: Schema.Record({ key: Schema.String, value: Schema.String }),
+  searchParams: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
   loaderData: Schema.Unknown,
+  layoutData: Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+  submission: Schema.optional(
+    Schema.Union(
+      Schema.TaggedStruct("Success", { data: Schema.Unknown }),
+      Schema.TaggedStruct("Failure", { error: Schema.Unknown }),
+    ),
+  ),
 });
 
 // =============================================================================
@@ -0,0 +1,238 @@
+/**
+ * ScrollRestoration - scroll positions across client-side navigation.
+ *
+ * The browser only restores scroll positions for full page loads. With the
+ * router in charge of navigation, ScrollRestorationLive takes over:
+ * - saves the window's (and registered containers') positions when leaving a
+ *   history entry, keyed by the entry's key, in sessionStorage
+ * - restores them when back/forward returns to the entry, or the page reloads
+ * - scrolls a new entry to its `#hash` target, or to the top
+ *
+ * Scrolling waits for the route's loaders to settle (RouterOutlet updates
+ * RouterStateAtom), so restored positions land on the new page's content.
+ *
+ * Usage (browserLayer provides it):
+ * ```tsx
+ * // Keep the position for a navigation, e.g. a tab switch
+ * yield* navigator.go("/settings/billing", { preventScrollReset: true });
+ *
+ * // Save and restore a scrolling element alongside the window
+ * const Sidebar = () =>
+ *   Effect.gen(function* () {
+ *     const scroll = yield* ScrollRestoration;
+ *     return <nav ref={scroll.containerRef("sidebar")}>...</nav>;
+ *   });
+ * ```
+ */
+
+import * as Effect from "effect/Effect";
+import * as Context from "effect/Context";
+import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
+import { Registry as AtomRegistry } from "@effect-atom/atom";
+import { History, type HistoryLocation } from "./History.js";
+import { RouterStateAtom } from "./RouterState.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for ScrollRestorationLive.
+ */
+export interface ScrollRestorationOptions {
+  /** sessionStorage key the positions are saved under (default: "fibrae-scroll-positions") */
+  readonly storageKey?: string;
+  /**
+   * What positions are saved by (default: the history entry's key). Return
+   * `location.pathname` to restore a page's position whenever it is revisited.
+   */
+  readonly getKey?: (location: HistoryLocation) => string;
+}
+
+/**
+ * ScrollRestoration service interface.
+ */
+export interface ScrollRestorationService {
+  /**
+   * Run a navigation without resetting the scroll position: the entry it
+   * pushes or replaces keeps the current one. Navigator.go uses this for
+   * `preventScrollReset`.
+   */
+  readonly withoutScrollReset: <A, E, R>(
+    navigation: Effect.Effect<A, E, R>,
+  ) => Effect.Effect<A, E, R>;
+
+  /**
+   * A ref callback that saves and restores a scrolling element's position
+   * alongside the window's, under `id`. The id must be unique among the
+   * containers mounted together.
+   */
+  readonly containerRef: (id: string) => (node: Element | null) => void;
+}
+
+/** Saved scroll offsets ([x, y]) of one history entry. */
+interface SavedPositions {
+  readonly window: readonly [number, number];
+  readonly containers: Record<string, readonly [number, number]>;
+}
+
+// =============================================================================
+// Service Tag
+// =============================================================================
+
+/**
+ * ScrollRestoration service tag for Effect dependency injection.
+ */
+export class ScrollRestoration extends Context.Tag("fibrae/ScrollRestoration")<
+  ScrollRestoration,
+  ScrollRestorationService
+>() {}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/** Read saved positions; storage may be unavailable or hold something else. */
+function readPositions(storageKey: string): Record<string, SavedPositions> {
+  try {
+    const stored = window.sessionStorage.getItem(storageKey);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writePositions(storageKey: string, positions: Record<string, SavedPositions>): void {
+  try {
+    window.sessionStorage.setItem(storageKey, JSON.stringify(positions));
+  } catch {
+    // Storage full or disabled: positions still restore within this page load
+  }
+}
+
+// =============================================================================
+// Layer
+// =============================================================================
+
+/**
+ * Live layer for the ScrollRestoration service. Switches the browser's own
+ * restoration to "manual" while the layer is alive.
+ */
+/* is-tree-shakable-suppress */
+export const ScrollRestorationLive = (
+  options: ScrollRestorationOptions = {},
+): Layer.Layer<ScrollRestoration, never, History | AtomRegistry.AtomRegistry> =>
+  Layer.scoped(
+    ScrollRestoration,
+    Effect.gen(function* () {
+      const history = yield* History;
+      const registry = yield* AtomRegistry.AtomRegistry;
+      const storageKey = options.storageKey ?? "fibrae-scroll-positions";
+      const getKey = options.getKey ?? ((location: HistoryLocation) => location.key);
+
+      const positions = readPositions(storageKey);
+      const containers = new Map<string, Element>();
+      let location = registry.get(history.location);
+      let preventReset = false;
+      // Scroll for the latest navigation, run once its route has rendered
+      let pending: Option.Option<() => void> = Option.none();
+
+      const save = () => {
+        positions[getKey(location)] = {
+          window: [window.scrollX, window.scrollY],
+          containers: Object.fromEntries(
+            [...containers].map(([id, element]) => [id, [element.scrollLeft, element.scrollTop]]),
+          ),
+        };
+      };
+
+      const restore = (saved: SavedPositions) => () => {
+        window.scrollTo(...saved.window);
+        for (const [id, element] of containers) {
+          const [left, top] = saved.containers[id] ?? [0, 0];
+          element.scrollTo(left, top);
+        }
+      };
+
+      const reset = (next: HistoryLocation) => () => {
+        const target = next.hash
+          ? document.getElementById(decodeURIComponent(next.hash.slice(1)))
+          : null;
+        if (target) {
+          target.scrollIntoView();
+          return;
+        }
+        window.scrollTo(0, 0);
+        for (const element of containers.values()) {
+          element.scrollTo(0, 0);
+        }
+      };
+
+      // After the DOM update, so the new page's content is in place
+      const flush = () =>
+        requestAnimationFrame(() => {
+          const scroll = pending;
+          pending = Option.none();
+          if (Option.isSome(scroll)) scroll.value();
+        });
+
+      const unsubscribeLocation = registry.subscribe(history.location, (next) => {
+        save();
+        const saved = positions[getKey(next)];
+        pending = preventReset ? Option.none() : Option.some(saved ? restore(saved) : reset(next));
+        location = next;
+      });
+      const unsubscribeRouterState = registry.subscribe(RouterStateAtom, flush);
+
+      // A reload restores the entry's position; a first visit honors its hash
+      const initial = positions[getKey(location)];
+      pending = Option.some(initial ? restore(initial) : reset(location));
+      if (Option.isSome(registry.get(RouterStateAtom))) flush();
+
+      const handlePageHide = () => {
+        save();
+        writePositions(storageKey, positions);
+      };
+
+      const previousRestoration = window.history.scrollRestoration;
+      window.history.scrollRestoration = "manual";
+      window.addEventListener("pagehide", handlePageHide);
+
+      yield* Effect.addFinalizer(() =>
+        Effect.sync(() => {
+          unsubscribeLocation();
+          unsubscribeRouterState();
+          window.removeEventListener("pagehide", handlePageHide);
+          window.history.scrollRestoration = previousRestoration;
+        }),
+      );
+
+      const service: ScrollRestorationService = {
+        withoutScrollReset: (navigation) =>
+          Effect.acquireUseRelease(
+            Effect.sync(() => {
+              preventReset = true;
+            }),
+            () => navigation,
+            () =>
+              Effect.sync(() => {
+                preventReset = false;
+              }),
+          ),
+
+        containerRef: (id) => (node) => {
+          if (!node) {
+            // Its position was saved when the location changed, before it unmounted
+            containers.delete(id);
+            return;
+          }
+          containers.set(id, node);
+          const saved = positions[getKey(location)]?.containers[id];
+          if (saved) node.scrollTo(...saved);
+        },
+      };
+
+      return service;
+    }),
+  );
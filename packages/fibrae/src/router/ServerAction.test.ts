@@ -0,0 +1,172 @@
+import { describe, test, expect } from "bun:test";
+import * as Effect from "effect/Effect";
+import * as Layer from "effect/Layer";
+import * as Option from "effect/Option";
+import * as Schema from "effect/Schema";
+import { HttpServerRequest, HttpServerResponse } from "@effect/platform";
+import { Registry as AtomRegistry } from "@effect-atom/atom";
+import * as Route from "./Route.js";
+import * as Router from "./Router.js";
+import * as RouterBuilder from "./RouterBuilder.js";
+import { Redirect } from "./Navigator.js";
+import { actionHandler } from "./ServerAction.js";
+import { FileSchema, maxFileSize } from "./Upload.js";
+import { entriesToRecord } from "./utils.js";
+import { h } from "../jsx-runtime/index.js";
+import { renderToStringWith } from "../server.js";
+
+const posts = Route.get("posts", "/posts");
+const about = Route.get("about", "/about");
+const avatar = Route.get("avatar", "/avatar");
+const appGroup = Router.group("app").add(posts).add(about).add(avatar);
+const router = Router.make("root").add(appGroup);
+
+const handlersLayer = RouterBuilder.group(router, appGroup, (handlers) =>
+  handlers
+    .handle("posts", {
+      loader: () => "posts",
+      action: {
+        schema: Schema.Struct({ title: Schema.NonEmptyString }),
+        handler: ({ payload }) =>
+          payload.title === "redirect"
+            ? Effect.fail(new Redirect({ to: "/about" }))
+            : Effect.succeed({ saved: payload.title }),
+      },
+      component: ({ actionData, submissionState }) =>
+        h(
+          "p",
+          null,
+          `${submissionState._tag}:${Option.match(actionData, {
+            onNone: () => "none",
+            onSome: (data) =>
+              "fieldErrors" in (data as object)
+                ? Object.keys((data as { fieldErrors: object }).fieldErrors).join(",")
+                : (data as { saved: string }).saved,
+          })}`,
+        ),
+    })
+    .handle("about", { loader: () => "about", component: () => h("p", null, "About") })
+    .handle("avatar", {
+      loader: () => "avatar",
+      action: {
+        schema: Schema.Struct({ name: Schema.String, file: FileSchema.pipe(maxFileSize(4)) }),
+        handler: ({ payload }) =>
+          Effect.promise(() => payload.file.text()).pipe(
+            Effect.map((text) => ({ saved: `${payload.name}:${payload.file.name}:${text}` })),
+          ),
+      },
+      component: ({ actionData, submissionState }) =>
+        h(
+          "p",
+          null,
+          `${submissionState._tag}:${Option.match(actionData, {
+            onNone: () => "none",
+            onSome: (data) => (data as { saved?: string }).saved ?? "invalid",
+          })}`,
+        ),
+    }),
+);
+
+/** Render the page like an app's GET handler, reporting what the client would hydrate. */
+const render = (options: Router.ServerLayerOptions) =>
+  Effect.gen(function* () {
+    const { element, status, state } = yield* Router.CurrentRouteElement;
+    const { html } = yield* renderToStringWith(element);
+    const submission = Option.flatMap(state, (s) => Option.fromNullable(s.submission));
+    return HttpServerResponse.unsafeJson(
+      { html, submission: Option.getOrNull(submission) },
+      { status },
+    );
+  }).pipe(
+    Effect.provide(
+      Router.serverLayer(options).pipe(
+        Layer.provide(handlersLayer),
+        Layer.provideMerge(AtomRegistry.layer),
+      ),
+    ),
+  );
+
+const post = (path: string, body: Record<string, string> | FormData) =>
+  Effect.runPromise(
+    actionHandler({ router, basePath: "/app", render }).pipe(
+      Effect.provide(handlersLayer),
+      Effect.provideService(
+        HttpServerRequest.HttpServerRequest,
+        HttpServerRequest.fromWeb(
+          new Request(`http://localhost${path}`, {
+            method: "POST",
+            body: body instanceof FormData ? body : new URLSearchParams(body),
+          }),
+        ),
+      ),
+      Effect.map(HttpServerResponse.toWeb),
+    ),
+  );
+
+describe("actionHandler", () => {
+  test("re-renders the page with the action's data", async () => {
+    const response = await post("/app/posts", { title: "Hello" });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      html: "<p>Success:Hello</p>",
+      submission: { _tag: "Success", data: { saved: "Hello" } },
+    });
+  });
+
+  test("validation failures render with status 422 and a serializable error", async () => {
+    const response = await post("/app/posts", { title: "" });
+    expect(response.status).toBe(422);
+    const body = await response.json();
+    expect(body.html).toBe("<p>Failure:title</p>");
+    expect(body.submission.error).toEqual({
+      _tag: "FormValidationError",
+      message: "Form validation failed",
+      fieldErrors: { title: [expect.any(String)] },
+    });
+  });
+
+  test("a Redirect answers 303 See Other with the basePath applied", async () => {
+    const response = await post("/app/posts", { title: "redirect" });
+    expect(response.status).toBe(303);
+    expect(response.headers.get("location")).toBe("/app/about");
+  });
+
+  test("routes without an action answer 405", async () => {
+    const response = await post("/app/about", { title: "Hello" });
+    expect(response.status).toBe(405);
+  });
+
+  test("multipart bodies decode with their files as File objects", async () => {
+    const upload = (content: string) => {
+      const body = new FormData();
+      body.set("name", "me");
+      body.set("file", new File([content], "avatar.txt", { type: "text/plain" }));
+      return post("/app/avatar", body);
+    };
+
+    const saved = await upload("abc");
+    expect(saved.status).toBe(200);
+    expect((await saved.json()).html).toBe("<p>Success:me:avatar.txt:abc</p>");
+
+    const tooLarge = await upload("abcdef");
+    expect(tooLarge.status).toBe(422);
+    expect((await tooLarge.json()).submission.error.fieldErrors).toEqual({
+      file: ["Expected a file of at most 4 bytes, got 6"],
+    });
+  });
+
+  test("a large index in a field name doesn't size an array", async () => {
+    const started = performance.now();
+    const response = await post("/app/posts", { title: "Hello", "items[100000000]": "x" });
+    expect(response.status).toBe(200);
+    expect(performance.now() - started).toBeLessThan(1000);
+
+    expect(entriesToRecord([["items[100000000]", "x"]])).toEqual({ items: { "100000000": "x" } });
+    expect(
+      entriesToRecord([
+        ["items[0].title", "a"],
+        ["items[5].title", "b"],
+      ]),
+    ).toEqual({ items: [{ title: "a" }, { title: "b" }] });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * ServerAction - route actions answered as plain HTTP form posts.
+ *
+ * `<Form>` renders a real `<form method="post">` without an `action` attribute,
+ * so before hydration finishes, or with JavaScript disabled, the browser posts
+ * the form to the page's own URL. actionHandler answers that POST:
+ * 1. Matches the request path and finds the route's action
+ * 2. Decodes the URL-encoded or multipart body with the action's schema (files
+ *    as `File`s, like in the browser) and runs the action
+ * 3. Answers a Redirect with 303 See Other, so the browser follows with a GET
+ * 4. Otherwise re-renders the page with the outcome: `actionData` and a
+ *    `submissionState` of Success, or Failure (e.g. a FormValidationError,
+ *    whose field errors are the page's `actionData`)
+ *
+ * The page render is the app's own (the same one its GET handler uses), given
+ * serverLayer options that carry the submission.
+ *
+ * Usage with @effect/platform:
+ * ```typescript
+ * const renderPage = (options: Router.ServerLayerOptions) =>
+ *   Effect.gen(function* () {
+ *     const { element, status } = yield* Router.CurrentRouteElement;
+ *     const { html, dehydratedState } = yield* renderToStringWith(<App>{element}</App>);
+ *     return HttpServerResponse.html(page(html, dehydratedState), { status });
+ *   }).pipe(Effect.provide(Router.serverLayer(options)));
+ *
+ * HttpRouter.post("/*", actionHandler({ router: AppRouter, render: renderPage }));
+ * ```
+ */
+
+import * as Effect from "effect/Effect";
+import * as Either from "effect/Either";
+import * as Option from "effect/Option";
+import * as Schema from "effect/Schema";
+import * as Stream from "effect/Stream";
+import * as Chunk from "effect/Chunk";
+import { HttpServerRequest, HttpServerResponse, Multipart } from "@effect/platform";
+import { formValidationError } from "./Form.js";
+import { Redirect } from "./Navigator.js";
+import { RouterHandlers, type SubmissionResult } from "./RouterBuilder.js";
+import type { Router, ServerLayerOptions } from "./Router.js";
+import { entriesToRecord, stripBasePath } from "./utils.js";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for actionHandler.
+ */
+export interface ActionHandlerOptions<E, R> {
+  /** The router instance */
+  readonly router: Router;
+  /** Base path prefix for the app (e.g., "/ssr/router") */
+  readonly basePath?: string;
+  /** Render the page for a submission that did not redirect */
+  readonly render: (
+    options: ServerLayerOptions,
+  ) => Effect.Effect<HttpServerResponse.HttpServerResponse, E, R>;
+}
+
+// =============================================================================
+// Actions
+// =============================================================================
+
+/**
+ * Run the action of the route matching a pathname (without basePath) on a
+ * submitted payload, the way `<Form>` does in the browser.
+ *
+ * Decode failures settle as a Failure with a FormValidationError, action
+ * errors as a Failure with the error. A Redirect fails the Effect.
+ * Returns None when no route matches, or the route has no action.
+ */
+export const runAction = (
+  router: Router,
+  pathname: string,
+  payload: Record<string, unknown>,
+): Effect.Effect<Option.Option<SubmissionResult>, Redirect, RouterHandlers> =>
+  Effect.gen(function* () {
+    const routerHandlers = yield* RouterHandlers;
+    const matched = yield* router.matchRoute(pathname);
+    const action = Option.flatMap(matched, ({ route }) =>
+      Option.flatMap(routerHandlers.getHandler(route.name), (handler) => handler.action),
+    );
+    if (Option.isNone(action)) return Option.none();
+
+    const routeAction = action.value;
+    return yield* (
+      Schema.decodeUnknown(routeAction.schema)(payload, { errors: "all" }) as Effect.Effect<
+        unknown,
+        unknown
+      >
+    ).pipe(
+      Effect.mapError(formValidationError),
+      Effect.flatMap((decoded) =>
+        routeAction.handler({ payload: decoded, reportProgress: () => {} }),
+      ),
+      Effect.map((data): SubmissionResult => ({ _tag: "Success", data })),
+      // Redirect is checked structurally because the action's error type is
+      // erased to unknown at the type-erasure boundary.
+      Effect.catchAll((error) =>
+        error instanceof Redirect
+          ? Effect.fail(error)
+          : Effect.succeed<SubmissionResult>({ _tag: "Failure", error }),
+      ),
+      Effect.asSome,
+    );
+  });
+
+// =============================================================================
+// HTTP Handler
+// =============================================================================
+
+/**
+ * Read a multipart body's fields and files, files as `File`s, the way the
+ * browser's FormData holds them. Parsing honors Multipart.withLimits.
+ */
+const multipartEntries = (
+  request: HttpServerRequest.HttpServerRequest,
+): Effect.Effect<ReadonlyArray<readonly [string, unknown]>, Multipart.MultipartError> =>
+  request.multipartStream.pipe(
+    Stream.mapEffect(
+      (part): Effect.Effect<readonly [string, unknown], Multipart.MultipartError> =>
+        Multipart.isFile(part)
+          ? Effect.map(part.contentEffect, (bytes) => [
+              part.key,
+              new File([bytes as Uint8Array<ArrayBuffer>], part.name, { type: part.contentType }),
+            ])
+          : Effect.succeed([part.key, (part as Multipart.Field).value]),
+    ),
+    Stream.runCollect,
+    Effect.map(Chunk.toReadonlyArray),
+  );
+
+/**
+ * Create a request handler answering form POSTs to route pages.
+ *
+ * Responds 303 to a Redirect (from the action, or a loader while rendering),
+ * 400 to a body that is neither URL-encoded nor multipart, 413 to a multipart
+ * body over its limits, and 405 to paths without a route action. Anything
+ * else is the page `render` builds for the submission.
+ */
+export const actionHandler = <E, R>(
+  options: ActionHandlerOptions<E, R>,
+): Effect.Effect<
+  HttpServerResponse.HttpServerResponse,
+  Exclude<E, Redirect>,
+  R | RouterHandlers | HttpServerRequest.HttpServerRequest
+> => {
+  const { router, basePath = "", render } = options;
+  return Effect.gen(function* () {
+    const request = yield* HttpServerRequest.HttpServerRequest;
+    const url = new URL(request.url, "http://localhost");
+
+    const isMultipart = (request.headers["content-type"] ?? "").startsWith("multipart/form-data");
+    const body = yield* Effect.either<ReadonlyArray<readonly [string, unknown]>, unknown, never>(
+      isMultipart ? multipartEntries(request) : request.urlParamsBody,
+    );
+    if (Either.isLeft(body)) {
+      const tooLarge =
+        body.left instanceof Multipart.MultipartError && body.left.reason.endsWith("TooLarge");
+      return tooLarge
+        ? HttpServerResponse.text("Form body too large", { status: 413 })
+        : HttpServerResponse.text("Invalid form body", { status: 400 });
+    }
+
+    const submission = yield* runAction(
+      router,
+      stripBasePath(url.pathname, basePath),
+      entriesToRecord(body.right),
+    );
+    if (Option.isNone(submission)) {
+      return HttpServerResponse.empty({ status: 405, headers: { allow: "GET" } });
+    }
+
+    return yield* render({
+      router,
+      pathname: url.pathname,
+      search: url.search,
+      basePath,
+      submission: submission.value,
+    });
+  }).pipe(
+    Effect.catchIf(
+      (error): error is Redirect => error instanceof Redirect,
+      (redirect) =>
+        Effect.succeed(HttpServerResponse.redirect(`${basePath}${redirect.to}`, { status: 303 })),
+    ),
+  );
+};
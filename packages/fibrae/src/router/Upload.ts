@@ -0,0 +1,92 @@
+/**
+ * Upload - schemas for file fields in form actions.
+ *
+ * A `<input type="file">` submits a `File`, which the action schema decodes
+ * like any other field. The same schemas validate uploads on the server:
+ * actionHandler parses multipart bodies into `File`s too.
+ *
+ * Usage:
+ * ```tsx
+ * handlers.handle("settings", {
+ *   action: {
+ *     schema: Schema.Struct({
+ *       name: Schema.String,
+ *       avatar: FileSchema.pipe(maxFileSize(2_000_000), fileType("image/*")),
+ *       attachments: Schema.Array(FileSchema),
+ *     }),
+ *     handler: ({ payload }) => saveSettings(payload),
+ *   },
+ *   component: () => (
+ *     <Form encType="multipart/form-data">
+ *       <input name="name" />
+ *       <input type="file" name="avatar" accept="image/*" />
+ *       <input type="file" name="attachments[]" multiple />
+ *     </Form>
+ *   ),
+ * });
+ * ```
+ */
+
+import * as Schema from "effect/Schema";
+
+// =============================================================================
+// Schemas
+// =============================================================================
+
+/**
+ * A Blob, e.g. a file input's value.
+ */
+export const BlobSchema: Schema.Schema<Blob> = Schema.declare(
+  (input): input is Blob => typeof Blob !== "undefined" && input instanceof Blob,
+  { identifier: "Blob" },
+);
+
+/**
+ * A File, e.g. a file input's value. A file input left empty submits a
+ * nameless, empty File; nonEmptyFile rejects it.
+ */
+export const FileSchema: Schema.Schema<File> = Schema.declare(
+  (input): input is File => typeof File !== "undefined" && input instanceof File,
+  { identifier: "File" },
+);
+
+// =============================================================================
+// Filters
+// =============================================================================
+
+/**
+ * Reject files larger than `bytes`.
+ */
+export const maxFileSize =
+  (bytes: number) =>
+  <A extends Blob, I, R>(self: Schema.Schema<A, I, R>): Schema.filter<Schema.Schema<A, I, R>> =>
+    self.pipe(
+      Schema.filter(
+        (file) =>
+          file.size <= bytes || `Expected a file of at most ${bytes} bytes, got ${file.size}`,
+      ),
+    );
+
+/**
+ * Accept only files of the given MIME types. A type may end in a wildcard,
+ * e.g. "image/*".
+ */
+export const fileType =
+  (...types: ReadonlyArray<string>) =>
+  <A extends Blob, I, R>(self: Schema.Schema<A, I, R>): Schema.filter<Schema.Schema<A, I, R>> =>
+    self.pipe(
+      Schema.filter(
+        (file) =>
+          types.some((type) =>
+            type.endsWith("/*") ? file.type.startsWith(type.slice(0, -1)) : file.type === type,
+          ) || `Expected a file of type ${types.join(", ")}, got ${file.type || "unknown"}`,
+      ),
+    );
+
+/**
+ * Reject the empty File an unfilled file input submits.
+ */
+export const nonEmptyFile =
+  () =>
+  <A extends Blob, I, R>(self: Schema.Schema<A, I, R>): Schema.filter<Schema.Schema<A, I, R>> =>
+    self.pipe(Schema.filter((file) => file.size > 0 || "Expected a file"));
@@ -10,7 +10,8 @@
 
 // Route declaration
 export * as Route from "./Route.js";
-export { RouteError } from "./Route.js";
+export type { SearchEncoded, SearchParamsOptions } from "./Route.js";
+export { RouteError, SearchParamsError } from "./Route.js";
 
 // Router and groups
 export * as Router from "./Router.js";
@@ -33,41 +34,109 @@ export type {
   ComponentProps,
   HandlerConfig,
   RouteHandler,
+  LazyRoute,
+  LazyRouteModule,
+  LazyRouteLoader,
+  LazyHandlerConfig,
   RouteAction,
   ActionConfig,
   ActionContext,
   ActionResult,
   SubmissionState,
+  SubmissionResult,
+  UploadProgress,
   GroupHandlers,
   LayoutGroupHandlers,
   LayoutHandler,
+  LayoutConfig,
+  LayoutProps,
+  LoadedRoute,
+  ShouldRevalidateContext,
+  BeforeLoadResult,
+  BeforeLoadHook,
+  NotFoundProps,
+  ErrorComponentProps,
+  FallbackHandlers,
+  RouterOptions,
   PrerenderRoute,
   HeadData,
   HeadContext,
   MetaDescriptor,
 } from "./RouterBuilder.js";
 
-export { RouterHandlers, getPrerenderRoutes } from "./RouterBuilder.js";
+export { RouterHandlers, getPrerenderRoutes, getRouteModuleId } from "./RouterBuilder.js";
+
+// Deferred loader data
+export type { DeferredData, AwaitProps } from "./Defer.js";
+export { defer, Await } from "./Defer.js";
 
 // Form component
-export type { FormProps } from "./Form.js";
+export type { FormProps, FormStateService, FieldErrors } from "./Form.js";
 export { Form, FormValidationError, FormState } from "./Form.js";
 
+// Schemas for file fields in form actions
+export { BlobSchema, FileSchema, fileType, maxFileSize, nonEmptyFile } from "./Upload.js";
+
+// Keyed submissions for pending and optimistic UI
+export type { Fetcher, FetcherHandle } from "./Fetcher.js";
+export {
+  fetcher,
+  fetcherAtom,
+  pendingFetchersAtom,
+  resetFetcher,
+  runSubmission,
+} from "./Fetcher.js";
+
 // Re-export History types and service tag
-export type { HistoryLocation, HistoryService } from "./History.js";
-export { History as HistoryTag, BrowserHistoryLive, MemoryHistoryLive } from "./History.js";
+export type {
+  Blocker,
+  HistoryLocation,
+  HistoryService,
+  HistoryTransition,
+  MemoryHistoryOptions,
+} from "./History.js";
+export {
+  History as HistoryTag,
+  BrowserHistoryLive,
+  HashHistoryLive,
+  MemoryHistoryLive,
+} from "./History.js";
 
 // Re-export Navigator types and service tag
-export type { CurrentRoute, NavigateOptions, NavigatorService } from "./Navigator.js";
-export { Navigator as NavigatorTag, NavigatorLive, Redirect } from "./Navigator.js";
+export type {
+  CurrentRoute,
+  NavigateOptions,
+  NavigatorService,
+  Revalidation,
+  RevalidateOptions,
+} from "./Navigator.js";
+export { Navigator as NavigatorTag, NavigatorLive, Redirect, searchAtom } from "./Navigator.js";
+
+// Scroll restoration
+export type { ScrollRestorationOptions, ScrollRestorationService } from "./ScrollRestoration.js";
+export { ScrollRestoration, ScrollRestorationLive } from "./ScrollRestoration.js";
 
 // Type registration for module augmentation
-export type { RegisteredRouter, ValidHref, PatternToHref } from "./register.js";
+export type {
+  RegisteredRouter,
+  RegisteredRoutes,
+  ValidHref,
+  PatternToHref,
+  NavigateTarget,
+} from "./register.js";
 
 // Re-export Link component (type-safe via RegisteredRouter)
-export type { LinkProps } from "./Link.js";
+export type { LinkProps, LinkPreload } from "./Link.js";
 export { Link } from "./Link.js";
 
+// Route actions answered as HTTP form posts (progressive enhancement)
+export type { ActionHandlerOptions } from "./ServerAction.js";
+export { actionHandler, runAction } from "./ServerAction.js";
+
+// Loader cache for preloading and stale-while-revalidate navigation
+export type { LoaderCacheOptions, LoaderCacheService, CachedLoad } from "./LoaderCache.js";
+export { LoaderCache, LoaderCacheLive, loaderKey, preloadRoute } from "./LoaderCache.js";
+
 // Re-export RouterOutlet component
 export { RouterOutlet, OutletDepth } from "./RouterOutlet.js";
 
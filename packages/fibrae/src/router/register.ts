@@ -12,9 +12,11 @@
  * ```
  *
  * After registration, Link's `href` prop and go()'s href parameter
- * are constrained to valid paths at compile time.
+ * are constrained to valid paths at compile time, and navigate() / Link's
+ * `to` accept route names with their params and search params.
  */
 
+import type { AnyRoute, Route } from "./Route.js";
 import type { Router } from "./Router.js";
 
 // biome-ignore lint/suspicious/noEmptyInterface: intentionally empty for module augmentation
@@ -25,18 +27,38 @@ export interface RegisteredRouter {}
  */
 type ExtractRoutePaths<T> = T extends Router<string, string, infer P extends string> ? P : never;
 
+/**
+ * Extract route types from a Router type.
+ */
+type ExtractRoutes<T> = T extends Router<string, string, string, infer R> ? R : never;
+
 /**
  * Convert a route pattern to a template literal type for href validation.
  * "/posts/:id" → `/posts/${string}`
  * "/posts/:id/edit" → `/posts/${string}/edit`
+ * "/:lang?/docs" → "/docs" | `/${string}/docs`
+ * "/files/*rest" → "/files" | `/files/${string}`
  * "/posts" → "/posts"
  */
-export type PatternToHref<T extends string> =
-  T extends `${infer Before}:${infer _Param}/${infer After}`
-    ? `${Before}${string}/${PatternToHref<After>}`
-    : T extends `${infer Before}:${infer _Param}`
-      ? `${Before}${string}`
-      : T;
+export type PatternToHref<T extends string> = T extends `/${infer Segments}`
+  ? RootIfEmpty<SegmentsToHref<Segments>>
+  : T;
+
+/** Href for the "/"-separated segments of a pattern (without the leading slash). */
+type SegmentsToHref<T extends string> = T extends `${infer Segment}/${infer Rest}`
+  ? `${SegmentToHref<Segment>}${SegmentsToHref<Rest>}`
+  : SegmentToHref<T>;
+
+/** Href for one pattern segment, including its leading slash ("" when it may be absent). */
+type SegmentToHref<T extends string> = T extends ""
+  ? ""
+  : T extends `:${string}?` | `*${string}`
+    ? "" | `/${string}`
+    : T extends `:${string}`
+      ? `/${string}`
+      : `/${T}`;
+
+type RootIfEmpty<T extends string> = T extends "" ? "/" : T;
 
 /**
  * Union of all valid href values, falling back to string when unregistered.
@@ -46,3 +68,27 @@ export type PatternToHref<T extends string> =
 export type ValidHref = keyof RegisteredRouter extends never
   ? string
   : PatternToHref<ExtractRoutePaths<RegisteredRouter[keyof RegisteredRouter]>>;
+
+/**
+ * Union of the registered router's routes, falling back to any route when unregistered.
+ */
+export type RegisteredRoutes = keyof RegisteredRouter extends never
+  ? AnyRoute
+  : ExtractRoutes<RegisteredRouter[keyof RegisteredRouter]>;
+
+/** `params` is required only when the route has required path params. */
+type ParamsField<PathParams> = {} extends PathParams
+  ? { readonly params?: PathParams }
+  : { readonly params: PathParams };
+
+/** Target of one route: its name, path params and search params. */
+type TargetOf<R> =
+  R extends Route<infer Name, any, infer PathParams, infer SearchParams>
+    ? { readonly to: Name; readonly search?: SearchParams } & ParamsField<PathParams>
+    : never;
+
+/**
+ * A navigation target by route name, checked against the route's params types:
+ * `{ to: "post", params: { id: 42 }, search: { sort: "date" } }`.
+ */
+export type NavigateTarget = TargetOf<RegisteredRoutes>;
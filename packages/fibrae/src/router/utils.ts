@@ -5,7 +5,10 @@
  */
 
 import * as Option from "effect/Option";
-import type { Route } from "./Route.js";
+import * as Effect from "effect/Effect";
+import * as Schema from "effect/Schema";
+import * as SchemaAST from "effect/SchemaAST";
+import { RouteError, SearchParamsError, type Route } from "./Route.js";
 import type { Router, AnyGroup } from "./Router.js";
 
 /**
@@ -18,15 +21,197 @@ export const parseSearchParams = (search: string): Record<string, string> =>
 /**
  * Build a search string from a params record.
  * Returns "" if no params, or "?key=value&..." otherwise.
- * Filters out null and undefined values.
+ * Filters out null and undefined values; array values repeat their key.
  */
 export const buildSearchString = (params: Record<string, unknown>): string => {
-  const entries = Object.entries(params).filter(([, v]) => v !== undefined && v !== null);
+  const entries = Object.entries(params).flatMap(([k, v]) =>
+    (Array.isArray(v) ? v : [v])
+      .filter((item) => item !== undefined && item !== null)
+      .map((item) => [k, String(item)]),
+  );
   if (entries.length === 0) return "";
-  const sp = new URLSearchParams(entries.map(([k, v]) => [k, String(v)]));
+  const sp = new URLSearchParams(entries);
   return `?${sp.toString()}`;
 };
 
+/**
+ * Whether a schema's encoded side accepts an array (possibly among other members).
+ */
+const isArrayAST = (ast: SchemaAST.AST): boolean =>
+  SchemaAST.isTupleType(ast) || (SchemaAST.isUnion(ast) && ast.types.some(isArrayAST));
+
+/**
+ * Keys a search schema encodes as arrays. Their values are always collected
+ * into an array, so "?tag=a" decodes the same as "?tag=a&tag=b" does.
+ */
+const arraySearchKeys = (schema: Schema.Schema.AnyNoContext): ReadonlySet<string> => {
+  const ast = SchemaAST.encodedAST(schema.ast);
+  if (!SchemaAST.isTypeLiteral(ast)) return new Set();
+  return new Set(
+    ast.propertySignatures
+      .filter((signature) => isArrayAST(signature.type))
+      .map((signature) => String(signature.name)),
+  );
+};
+
+/**
+ * Decode a URL search string with a route's search schema.
+ * Routes without one get the raw string values (see parseSearchParams).
+ * Repeated keys keep only their last value unless the schema declares an array.
+ * On a decode failure the route's fallback is used if it has one, otherwise
+ * the Effect fails with SearchParamsError.
+ */
+export const decodeSearchParams = (
+  route: Route,
+  search: string,
+): Effect.Effect<Record<string, unknown>, SearchParamsError> => {
+  if (Option.isNone(route.searchSchema)) return Effect.succeed(parseSearchParams(search));
+  const schema = route.searchSchema.value;
+  const arrayKeys = arraySearchKeys(schema);
+  const raw: Record<string, string | Array<string>> = {};
+  for (const [key, value] of new URLSearchParams(search)) {
+    const existing = raw[key];
+    if (!arrayKeys.has(key)) raw[key] = value;
+    else raw[key] = Array.isArray(existing) ? [...existing, value] : [value];
+  }
+  return Schema.decodeUnknown(schema)(raw).pipe(
+    Effect.mapError(
+      (cause) =>
+        new SearchParamsError({
+          message: `Invalid search params for route ${route.name}: ${cause.message}`,
+          cause,
+        }),
+    ),
+    Effect.catchAll((error) =>
+      Option.match(route.searchFallback, {
+        onNone: () => Effect.fail(error),
+        onSome: (fallback) => Effect.succeed(fallback(error)),
+      }),
+    ),
+  );
+};
+
+/**
+ * Encode search params with a route's search schema, ready for buildSearchString.
+ * Routes without one pass the params through unchanged.
+ */
+export const encodeSearchParams = (
+  route: Route,
+  params: Record<string, unknown>,
+): Effect.Effect<Record<string, unknown>, SearchParamsError> =>
+  Option.match(route.searchSchema, {
+    onNone: () => Effect.succeed(params),
+    onSome: (schema) =>
+      Schema.encode(schema)(params).pipe(
+        Effect.mapError(
+          (cause) =>
+            new SearchParamsError({
+              message: `Invalid search params for route ${route.name}: ${cause.message}`,
+              cause,
+            }),
+        ),
+      ),
+  });
+
+/** A form field name's path: property names and array indices ("" appends). */
+type FieldSegment = string | number;
+
+// Larger indices stay property names: an array index in a posted field name
+// would otherwise size the array, e.g. `items[100000000]`
+const maxFieldIndex = 1000;
+
+/**
+ * Split a form field name into its path: `items[0].title` → ["items", 0, "title"],
+ * `tags[]` → ["tags", ""]. Names without brackets or dots are a single segment.
+ * Indices above maxFieldIndex are kept as property names.
+ */
+const parseFieldName = (name: string): ReadonlyArray<FieldSegment> => {
+  const segments: Array<FieldSegment> = [];
+  for (const [, property, index] of name.matchAll(/([^.[\]]+)|\[(\d*)\]/g)) {
+    if (property !== undefined) segments.push(property);
+    else if (index === "") segments.push("");
+    else segments.push(Number(index) <= maxFieldIndex ? Number(index) : index);
+  }
+  return segments.length > 0 ? segments : [name];
+};
+
+/** Drop the holes skipped indices leave in the arrays entriesToRecord built. */
+const compactFields = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.filter(() => true).map(compactFields);
+  if (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, compactFields(field)]),
+    );
+  }
+  return value;
+};
+
+// Names that would write to Object.prototype when used as a path segment
+const unsafeSegments = new Set<FieldSegment>(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Collect form entries (FormData, or URL-encoded body params) into a record.
+ * Multiple values for the same key become arrays. Names with brackets or dots
+ * nest: `items[0].title` sets `record.items[0].title`, `tags[]` appends to
+ * `record.tags`. Arrays are compacted: `items[0]` and `items[2]` become the
+ * first two items.
+ */
+export const entriesToRecord = (
+  entries: Iterable<readonly [string, unknown]>,
+): Record<string, unknown> => {
+  const record: Record<string, unknown> = {};
+  for (const [name, value] of entries) {
+    const path = parseFieldName(name);
+    if (path.some((segment) => unsafeSegments.has(segment))) continue;
+
+    // Walk to the leaf's container, creating records and arrays on the way
+    let container: Record<string | number, unknown> = record;
+    for (let i = 0; i < path.length - 1; i++) {
+      const segment = path[i] === "" && Array.isArray(container) ? container.length : path[i];
+      const child = container[segment];
+      if (typeof child === "object" && child !== null) {
+        container = child as Record<string | number, unknown>;
+      } else {
+        const next = typeof path[i + 1] === "string" && path[i + 1] !== "" ? {} : [];
+        container[segment] = next;
+        container = next as Record<string | number, unknown>;
+      }
+    }
+
+    const leaf = path[path.length - 1];
+    if (leaf === "" && Array.isArray(container)) {
+      container.push(value);
+      continue;
+    }
+    const existing = container[leaf];
+    if (existing !== undefined) {
+      container[leaf] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    } else {
+      container[leaf] = value;
+    }
+  }
+  return compactFields(record) as Record<string, unknown>;
+};
+
+/**
+ * Format a schema issue's path as the form field name it came from:
+ * ["items", 0, "title"] → `items[0].title`.
+ */
+export const formatFieldPath = (path: ReadonlyArray<PropertyKey>): string =>
+  path
+    .map((segment, i) =>
+      typeof segment === "number"
+        ? `[${segment}]`
+        : i === 0
+          ? String(segment)
+          : `.${String(segment)}`,
+    )
+    .join("");
+
 /**
  * Strip basePath prefix from pathname for route matching.
  * Returns "/" (not "") when pathname exactly equals basePath.
@@ -41,20 +226,62 @@ export const stripBasePath = (pathname: string, basePath: string): string => {
 };
 
 /**
- * Find a route by name across all groups in a router.
- * Returns the route and its group's basePath (empty string for non-layout groups).
+ * Find a route by name across all groups in a router, including nested layout groups.
+ * Returns the route, its innermost group, and the full basePath of the layouts
+ * wrapping it (empty string for non-layout groups).
  */
 export const findRouteByName = (
   router: Router,
   name: string,
-): Option.Option<{ route: Route; group: AnyGroup }> =>
-  Option.fromNullable(
-    router.groups
-      .flatMap((group) =>
-        group.routes.filter((route) => route.name === name).map((route) => ({ route, group })),
-      )
-      .at(0),
+): Option.Option<{ route: Route; group: AnyGroup; basePath: string }> => {
+  const collect = (
+    group: AnyGroup,
+    parentBase: string,
+  ): ReadonlyArray<{ route: Route; group: AnyGroup; basePath: string }> => {
+    const basePath = parentBase + groupBasePath(group);
+    const nested = group._tag === "LayoutGroup" ? group.layouts : [];
+    return [
+      ...group.routes.map((route) => ({ route, group, basePath })),
+      ...nested.flatMap((g) => collect(g, basePath)),
+    ];
+  };
+  return Option.fromNullable(
+    router.groups.flatMap((group) => collect(group, "")).find(({ route }) => route.name === name),
   );
+};
+
+/**
+ * Resolve a navigation target by route name to its path (without the app's
+ * basePath) and search params. Path params are interpolated into the route's
+ * full pattern, layout basePaths included; search params are encoded with the
+ * route's search schema when it has one.
+ */
+export const resolveNavigateTarget = (
+  router: Router,
+  target: {
+    readonly to: string;
+    readonly params?: Record<string, unknown>;
+    readonly search?: Record<string, unknown>;
+  },
+): Effect.Effect<{ readonly href: string; readonly search: Record<string, unknown> }, RouteError> =>
+  Effect.gen(function* () {
+    const found = findRouteByName(router, target.to);
+    if (Option.isNone(found)) {
+      return yield* new RouteError({ message: `No route named: ${target.to}` });
+    }
+    const { route, basePath } = found.value;
+    const path = yield* route.interpolate(target.params ?? {});
+
+    const encodedSearch =
+      target.search === undefined
+        ? {}
+        : yield* encodeSearchParams(route, target.search).pipe(
+            Effect.mapError((error) => new RouteError({ message: error.message })),
+          );
+
+    // A layout's index route is the layout's basePath itself
+    return { href: basePath && path === "/" ? basePath : basePath + path, search: encodedSearch };
+  });
 
 /**
  * Get the basePath for a group (layout groups have one, regular groups don't).
@@ -15,6 +15,7 @@ import type * as Runtime from "effect/Runtime";
 import { Atom, Registry as AtomRegistry, Result } from "@effect-atom/atom";
 import * as RegistryModule from "@effect-atom/atom/Registry";
 import type { Fiber } from "./shared.js";
+import { resolveDeltas, sseTransport, type LiveTransport } from "./live/transport.js";
 
 // Re-export to satisfy declaration file requirements
 export type { EffectFiber, Runtime };
@@ -63,18 +64,18 @@ export class FibraeRuntime extends Effect.Service<FibraeRuntime>()("FibraeRuntim
     // Mailbox for batching re-render requests (replaces manual Set + queueMicrotask)
     const renderMailbox = yield* Mailbox.make<Fiber>();
 
-    // Reference-counted SSE connections: shared EventSources keyed by URL.
-    // Automatically closes EventSource when last consumer releases.
-    const sseWithCredentials = yield* Ref.make(false);
-    const sseConnections = yield* RcMap.make({
+    // Reference-counted live connections, shared by URL. Opened with the
+    // transport of the LiveConfig in use, with deltas resolved once per
+    // connection; closed when the last consumer releases.
+    const liveTransport = yield* Ref.make<{
+      readonly transport: LiveTransport;
+      readonly withCredentials: boolean;
+    }>({ transport: sseTransport, withCredentials: false });
+    const liveConnections = yield* RcMap.make({
       lookup: (url: string) =>
-        Effect.gen(function* () {
-          const withCredentials = yield* Ref.get(sseWithCredentials);
-          return yield* Effect.acquireRelease(
-            Effect.sync(() => new EventSource(url, { withCredentials })),
-            (es) => Effect.sync(() => es.close()),
-          );
-        }),
+        Effect.flatMap(Ref.get(liveTransport), ({ transport, withCredentials }) =>
+          Effect.map(transport.connect(url, { withCredentials }), resolveDeltas),
+        ),
     });
 
     const AtomOps = {
@@ -102,8 +103,8 @@ export class FibraeRuntime extends Effect.Service<FibraeRuntime>()("FibraeRuntim
       fiberState,
       fullContextRef,
       renderMailbox,
-      sseConnections,
-      sseWithCredentials,
+      liveConnections,
+      liveTransport,
     };
   }),
 }) {
@@ -3,10 +3,12 @@ import { describe, test, expect } from "bun:test";
 import * as Effect from "effect/Effect";
 import * as Stream from "effect/Stream";
 import * as Schema from "effect/Schema";
-import { Atom, Registry as AtomRegistry } from "@effect-atom/atom";
-import { h } from "./index.js";
+import * as Option from "effect/Option";
+import { Atom, Hydration, Registry as AtomRegistry } from "@effect-atom/atom";
+import { h, Portal } from "./index.js";
 import { Fragment } from "./jsx-runtime/index.js";
-import { renderToString } from "./server.js";
+import { renderToString, renderToStream } from "./server.js";
+import { resumable } from "./resumable.js";
 import type { VElement } from "./shared.js";
 
 /**
@@ -240,6 +242,21 @@ describe("Suspense", () => {
   });
 });
 
+// =============================================================================
+// Portal
+// =============================================================================
+
+describe("Portal", () => {
+  test("renders a hydration marker in place of its children", async () => {
+    const element = h("div", {}, [
+      Portal({ container: {} as HTMLElement, children: h("p", {}, ["Modal"]) }),
+      h("span", {}, ["After"]),
+    ]);
+    const result = await runTest(renderToString(element));
+    expect(result.html).toBe("<div><!--fibrae:portal--><span>After</span></div>");
+  });
+});
+
 // =============================================================================
 // State Serialization
 // =============================================================================
@@ -277,3 +294,162 @@ describe("state serialization", () => {
     expect(found?.value).toBe(42);
   });
 });
+
+// =============================================================================
+// Streaming
+// =============================================================================
+
+/** Collect a rendered stream as its decoded chunks, in emission order. */
+const collectChunks = (stream: Stream.Stream<Uint8Array, unknown>) =>
+  runTest(
+    stream.pipe(
+      Stream.decodeText(),
+      Stream.runCollect,
+      Effect.map((chunks) => Array.from(chunks)),
+    ),
+  );
+
+/** Build a component VElement without invoking it (h() calls components eagerly). */
+const componentElement = (type: () => unknown): VElement =>
+  ({ type, props: { children: [] } }) as unknown as VElement;
+
+/** Component that renders after a delay. */
+const Slow = (ms: number, text: string) =>
+  componentElement(() => Effect.sleep(`${ms} millis`).pipe(Effect.as(h("p", {}, [text]))));
+
+const suspense = (threshold: number, children: VElement[]) =>
+  h("SUSPENSE" as any, { fallback: h("p", {}, ["Loading..."]), threshold }, children);
+
+describe("renderToStream", () => {
+  test("flushes the shell first, then the state script", async () => {
+    const chunks = await collectChunks(renderToStream(h("div", {}, ["Shell"])));
+    expect(chunks[0]).toBe("<div>Shell</div>");
+    expect(chunks[chunks.length - 1]).toBe(
+      '<script type="application/json" id="__fibrae-state__">[]</script>',
+    );
+  });
+
+  test("inlines boundaries that resolve within their threshold", async () => {
+    const chunks = await collectChunks(renderToStream(suspense(200, [Slow(1, "Fast")])));
+    expect(chunks[0]).toBe("<!--fibrae:sus:resolved--><p>Fast</p><!--/fibrae:sus-->");
+    expect(chunks.join("")).not.toContain("<template");
+  });
+
+  test("sends the fallback, then streams the resolved segment", async () => {
+    const chunks = await collectChunks(
+      renderToStream(h("main", {}, [suspense(5, [Slow(30, "Done")])])),
+    );
+    expect(chunks[0]).toBe(
+      "<main><!--fibrae:sus:fallback:0--><p>Loading...</p><!--/fibrae:sus--></main>",
+    );
+    expect(chunks[1]).toContain("self.$fibraeSwap=");
+    expect(chunks[1]).toContain(
+      '<template id="fibrae-seg-0"><p>Done</p></template><script>$fibraeSwap(0)</script>',
+    );
+  });
+
+  test("streams segments in completion order", async () => {
+    const chunks = await collectChunks(
+      renderToStream(
+        h("div", {}, [suspense(5, [Slow(60, "Slow")]), suspense(5, [Slow(20, "Quick")])]),
+      ),
+    );
+    const segments = chunks.slice(1, -1).join("");
+    expect(segments.indexOf("fibrae-seg-1")).toBeLessThan(segments.indexOf("fibrae-seg-0"));
+    // The swap function is only defined once
+    expect(segments.split("self.$fibraeSwap=").length).toBe(2);
+  });
+
+  test("streams nested segments after their parent", async () => {
+    const Outer = componentElement(() =>
+      Effect.sleep("40 millis").pipe(
+        Effect.as(h("section", {}, [suspense(5, [Slow(10, "Inner")])])),
+      ),
+    );
+    const chunks = await collectChunks(renderToStream(suspense(5, [Outer])));
+    const segments = chunks.slice(1, -1).join("");
+    expect(segments.indexOf("fibrae-seg-0")).toBeLessThan(segments.indexOf("fibrae-seg-1"));
+    expect(segments).toContain("<section><!--fibrae:sus:fallback:1-->");
+  });
+
+  test("leaves the fallback in place when a boundary fails", async () => {
+    const Failing = componentElement(() =>
+      Effect.sleep("20 millis").pipe(Effect.zipRight(Effect.fail("boom"))),
+    );
+    const chunks = await collectChunks(renderToStream(suspense(5, [Failing])));
+    expect(chunks[0]).toContain("<!--fibrae:sus:fallback:0-->");
+    expect(chunks.join("")).not.toContain("<template");
+  });
+
+  test("applies the nonce to inline scripts", async () => {
+    const chunks = await collectChunks(
+      renderToStream(suspense(5, [Slow(20, "Done")]), { nonce: "abc" }),
+    );
+    const scripts = chunks.join("").match(/<script[^>]*>/g) ?? [];
+    expect(scripts.length).toBe(3);
+    expect(scripts.every((tag) => tag.includes('nonce="abc"'))).toBe(true);
+  });
+
+  test("includes atoms set by late boundaries in the state script", async () => {
+    const lateAtom = Atom.make(0).pipe(Atom.serializable({ key: "late", schema: Schema.Number }));
+    const Late = componentElement(() =>
+      Effect.gen(function* () {
+        yield* Effect.sleep("20 millis");
+        const registry = yield* AtomRegistry.AtomRegistry;
+        registry.set(lateAtom, 7);
+        return h("p", {}, ["Late"]);
+      }),
+    );
+    const chunks = await collectChunks(renderToStream(suspense(5, [Late])));
+    const state = chunks[chunks.length - 1];
+    expect(state).toContain('"key":"late"');
+    expect(state).toContain('"value":7');
+  });
+});
+
+// =============================================================================
+// Resumable Streams
+// =============================================================================
+
+describe("resumable streams", () => {
+  const counter = resumable("counter", {
+    schema: Schema.Number,
+    stream: (cursor) => Stream.iterate(Option.getOrElse(cursor, () => 0) + 1, (n) => n + 1),
+  });
+  const Counter = componentElement(() =>
+    counter.pipe(Stream.map((n) => h("span", {}, [`Count ${n}`]))),
+  );
+
+  test("records the first emission in the dehydrated state", async () => {
+    const result = await runTest(renderToString(Counter));
+    expect(result.html).toBe("<span>Count 1</span>");
+    const found = result.dehydratedState.find((a) => a.key === "@fibrae/resumable/counter");
+    expect(found?.value).toEqual({ _tag: "Some", value: 1 });
+  });
+
+  test("re-emits the server cursor, then continues from it", async () => {
+    const { dehydratedState } = await runTest(renderToString(Counter));
+    const registry = AtomRegistry.make();
+    Hydration.hydrate(registry, dehydratedState);
+
+    const values = await runTest(
+      counter.pipe(
+        Stream.take(3),
+        Stream.runCollect,
+        Effect.provideService(AtomRegistry.AtomRegistry, registry),
+      ),
+    );
+    expect(Array.from(values)).toEqual([1, 2, 3]);
+  });
+
+  test("starts fresh without a recorded cursor", async () => {
+    const values = await runTest(
+      counter.pipe(
+        Stream.take(2),
+        Stream.runCollect,
+        Effect.provideService(AtomRegistry.AtomRegistry, AtomRegistry.make()),
+      ),
+    );
+    expect(Array.from(values)).toEqual([1, 2]);
+  });
+});
@@ -1,18 +1,21 @@
 /**
  * Server-side rendering for Fibrae
  *
- * Renders VElement trees to HTML strings for SSR.
+ * Renders VElement trees to HTML strings (or streams of HTML chunks) for SSR.
  * Integrates with @effect-atom/atom's Hydration module for state serialization.
  *
  * Key design decisions (see docs/ssr-hydration-design.md):
- * - Streams restart on client (no server continuation)
+ * - Streams restart on client, unless built with resumable() (continues from the server's emission)
  * - Atoms must use Atom.serializable() for state transfer
  * - Same components work on server and client
  */
+import type * as Context from "effect/Context";
 import * as Effect from "effect/Effect";
 import * as Stream from "effect/Stream";
 import * as Option from "effect/Option";
 import * as Deferred from "effect/Deferred";
+import * as FiberSet from "effect/FiberSet";
+import * as Mailbox from "effect/Mailbox";
 // Import Layer type for declaration file emission
 import type * as Layer from "effect/Layer";
 
@@ -25,6 +28,7 @@ import {
   isProperty,
   RenderError,
 } from "./shared.js";
+import { ContextProvider } from "./components.js";
 
 // Re-export to satisfy declaration file requirements
 export type { Layer };
@@ -56,6 +60,17 @@ export interface RenderOptions {
   readonly initialValues?: Iterable<readonly [Atom.Atom<unknown>, unknown]>;
 }
 
+/**
+ * Options for streaming SSR rendering
+ */
+export interface StreamRenderOptions extends RenderOptions {
+  /**
+   * Nonce applied to the inline swap and state scripts, for pages served
+   * with a Content-Security-Policy that restricts inline scripts.
+   */
+  readonly nonce?: string;
+}
+
 // =============================================================================
 // SSR Registry Layer
 // =============================================================================
@@ -165,6 +180,77 @@ const VOID_ELEMENTS = new Set([
   "wbr",
 ]);
 
+// =============================================================================
+// Streaming Segments
+// =============================================================================
+
+/**
+ * State threaded through a streaming render.
+ *
+ * `flushed` completes once the HTML currently being rendered has reached the
+ * client — the shell for top-level boundaries, or the enclosing boundary's
+ * segment for nested ones. Segments wait on it so a swap never runs before
+ * its fallback marker exists in the document.
+ */
+interface StreamingContext {
+  readonly chunks: Mailbox.Mailbox<string, unknown>;
+  readonly fibers: FiberSet.FiberSet<unknown, unknown>;
+  readonly flushed: Effect.Effect<void>;
+  readonly nonce: Option.Option<string>;
+  readonly state: { nextId: number; swapScriptSent: boolean };
+}
+
+/**
+ * Inline swap function, sent once before the first segment.
+ *
+ * Finds the `<!--fibrae:sus:fallback:ID-->` marker, replaces the nodes up to
+ * the closing marker with the template content and rewrites the opening marker
+ * to `fibrae:sus:resolved`, so hydration adopts the streamed DOM as-is. If the
+ * marker is gone (the client already re-rendered the boundary) it only cleans up.
+ */
+const SWAP_SCRIPT =
+  "self.$fibraeSwap=function(i){" +
+  "var t=document.getElementById('fibrae-seg-'+i),s=document.currentScript;" +
+  "if(s)s.remove();if(!t)return;var w=document.createTreeWalker(document,128),m;" +
+  "while((m=w.nextNode())&&m.data!=='fibrae:sus:fallback:'+i);" +
+  "if(m){var p=m.parentNode,n=m.nextSibling;" +
+  "while(n&&!(n.nodeType===8&&n.data==='/fibrae:sus')){var x=n.nextSibling;p.removeChild(n);n=x}" +
+  "p.insertBefore(t.content,n);m.data='fibrae:sus:resolved'}t.remove()}";
+
+const scriptOpenTag = (nonce: Option.Option<string>, attrs = ""): string =>
+  `<script${attrs}${Option.match(nonce, {
+    onNone: () => "",
+    onSome: (n) => ` nonce="${escapeHtml(n)}"`,
+  })}>`;
+
+/**
+ * Render the chunk that delivers a resolved boundary: a `<template>` holding
+ * its HTML plus a script that swaps it in place of the fallback.
+ */
+const renderSegment = (ctx: StreamingContext, id: number, html: string): string => {
+  const open = scriptOpenTag(ctx.nonce);
+  const swapFn = ctx.state.swapScriptSent
+    ? ""
+    : `${open}${SWAP_SCRIPT};document.currentScript.remove()</script>`;
+  ctx.state.swapScriptSent = true;
+  return (
+    `${swapFn}<template id="fibrae-seg-${id}">${html}</template>` +
+    `${open}$fibraeSwap(${id})</script>`
+  );
+};
+
+/**
+ * Render the dehydrated state script. `<` is escaped so serialized values
+ * can't close the script element early.
+ */
+const renderStateScript = (
+  dehydratedState: ReadonlyArray<Hydration.DehydratedAtom>,
+  nonce: Option.Option<string>,
+): string =>
+  `${scriptOpenTag(nonce, ' type="application/json" id="__fibrae-state__"')}${JSON.stringify(
+    dehydratedState,
+  ).replace(/</g, "\\u003c")}</script>`;
+
 // =============================================================================
 // Core Rendering
 // =============================================================================
@@ -183,14 +269,23 @@ const isHostElement = (type: ElementType): type is Primitive => typeof type ===
 /**
  * Render a VElement to HTML string.
  * This is an Effect that requires AtomRegistry.
+ *
+ * When `streaming` is Some, Suspense boundaries that miss their threshold
+ * flush their fallback and keep rendering in the background; see renderToStream.
  */
 const renderVElementToString = (
   vElement: VElement,
+  streaming: Option.Option<StreamingContext>,
 ): Effect.Effect<string, unknown, AtomRegistry.AtomRegistry> =>
   Effect.gen(function* () {
     const type = vElement.type;
 
-    if (isFunctionComponent(type)) {
+    if (type === ContextProvider) {
+      // Render the children with the provider's services
+      return yield* Effect.reduce(vElement.props.children ?? [], "", (acc, child) =>
+        renderVElementToString(child, streaming).pipe(Effect.map((h) => acc + h)),
+      ).pipe(Effect.provide(vElement.props.context as Context.Context<never>));
+    } else if (isFunctionComponent(type)) {
       // Invoke the component, catching synchronous throws
       const outputEffect = Effect.try({
         try: () => type(vElement.props),
@@ -222,7 +317,7 @@ const renderVElementToString = (
       if (childVElement === null) return "";
 
       // Recursively render the result
-      return yield* renderVElementToString(childVElement);
+      return yield* renderVElementToString(childVElement, streaming);
     } else if (type === "TEXT_ELEMENT") {
       // Text node - escape and return
       return escapeHtml(String(vElement.props.nodeValue ?? ""));
@@ -232,7 +327,7 @@ const renderVElementToString = (
       if (rawHtml != null) return String(rawHtml);
 
       return yield* Effect.reduce(vElement.props.children ?? [], "", (acc, child) =>
-        renderVElementToString(child).pipe(Effect.map((h) => acc + h)),
+        renderVElementToString(child, streaming).pipe(Effect.map((h) => acc + h)),
       );
     } else if (type === "SUSPENSE") {
       // Suspense boundary - race child rendering against timeout
@@ -245,16 +340,28 @@ const renderVElementToString = (
       // Create a Deferred to signal when children complete
       const childrenComplete = yield* Deferred.make<string, unknown>();
 
-      // Fork: render children to string
-      yield* Effect.fork(
-        Effect.reduce(children, "", (acc, child) =>
-          renderVElementToString(child).pipe(Effect.map((h) => acc + h)),
-        ).pipe(
-          Effect.flatMap((html) => Deferred.succeed(childrenComplete, html)),
-          Effect.catchAll((e) => Deferred.fail(childrenComplete, e)),
-        ),
+      // Completes once this boundary's content has been flushed to the client.
+      // Boundaries nested inside it wait on this before streaming their own segment.
+      const boundaryFlushed = yield* Deferred.make<void>();
+      const childStreaming = Option.map(streaming, (ctx) => ({
+        ...ctx,
+        flushed: Deferred.await(boundaryFlushed),
+      }));
+
+      const renderChildren = Effect.reduce(children, "", (acc, child) =>
+        renderVElementToString(child, childStreaming).pipe(Effect.map((h) => acc + h)),
+      ).pipe(
+        Effect.flatMap((html) => Deferred.succeed(childrenComplete, html)),
+        Effect.catchAll((e) => Deferred.fail(childrenComplete, e)),
       );
 
+      // Fork: render children to string. When streaming, the fiber must outlive
+      // this render so a timed-out boundary can still deliver its segment.
+      yield* Option.match(streaming, {
+        onNone: () => Effect.fork(renderChildren),
+        onSome: (ctx) => FiberSet.run(ctx.fibers, renderChildren),
+      });
+
       // Race: children completing vs timeout
       const result = yield* Effect.race(
         Deferred.await(childrenComplete).pipe(
@@ -264,13 +371,41 @@ const renderVElementToString = (
       );
 
       if (result.type === "resolved") {
-        // Children completed before timeout - render with resolved marker
+        // Children completed before timeout - render with resolved marker.
+        // The content ships with the enclosing segment, so it's flushed when that is.
+        if (Option.isSome(streaming)) {
+          yield* Deferred.completeWith(boundaryFlushed, streaming.value.flushed);
+        }
         return `<!--fibrae:sus:resolved-->${result.html}<!--/fibrae:sus-->`;
-      } else {
-        // Timeout fired first - render fallback with fallback marker
-        const fallbackHtml = yield* renderVElementToString(fallback);
+      }
+
+      // Timeout fired first - render fallback with fallback marker
+      const fallbackHtml = yield* renderVElementToString(fallback, streaming);
+
+      if (Option.isNone(streaming)) {
         return `<!--fibrae:sus:fallback-->${fallbackHtml}<!--/fibrae:sus-->`;
       }
+
+      // Streaming: tag the fallback with a boundary id and stream the resolved
+      // children as a segment once they (and every enclosing segment) are flushed.
+      // If the children fail, the fallback stays and the client renders the
+      // boundary fresh during hydration.
+      const ctx = streaming.value;
+      const id = ctx.state.nextId++;
+      yield* FiberSet.run(
+        ctx.fibers,
+        Deferred.await(childrenComplete).pipe(
+          Effect.tap(() => ctx.flushed),
+          Effect.flatMap((html) => ctx.chunks.offer(renderSegment(ctx, id, html))),
+          Effect.ignore,
+          Effect.ensuring(Deferred.succeed(boundaryFlushed, undefined)),
+        ),
+      );
+      return `<!--fibrae:sus:fallback:${id}-->${fallbackHtml}<!--/fibrae:sus-->`;
+    } else if (type === "PORTAL") {
+      // Portal - target containers only exist in the browser. Leave a marker
+      // for hydration; the children mount into the container on the client.
+      return "<!--fibrae:portal-->";
     } else if (isHostElement(type)) {
       // Regular HTML element
       const attrs = renderAttributes(vElement.props as Record<string, unknown>);
@@ -288,7 +423,7 @@ const renderVElementToString = (
         rawHtml != null
           ? String(rawHtml)
           : yield* Effect.reduce(vElement.props.children ?? [], "", (acc, child) =>
-              renderVElementToString(child).pipe(Effect.map((h) => acc + h)),
+              renderVElementToString(child, streaming).pipe(Effect.map((h) => acc + h)),
             );
 
       return `<${type}${attrs}${keyAttr}>${childrenHtml}</${type}>`;
@@ -341,7 +476,7 @@ export const renderToString = (
     const registry = yield* AtomRegistry.AtomRegistry;
 
     // Render the element
-    const html = yield* renderVElementToString(element);
+    const html = yield* renderVElementToString(element, Option.none());
 
     // Dehydrate the registry state
     const dehydratedState = Hydration.dehydrate(registry);
@@ -385,7 +520,7 @@ export const renderToStringWith = <R>(
     const registry = yield* AtomRegistry.AtomRegistry;
 
     // Render the element
-    const html = yield* renderVElementToString(element);
+    const html = yield* renderVElementToString(element, Option.none());
 
     // Dehydrate the registry state
     const dehydratedState = Hydration.dehydrate(registry);
@@ -393,5 +528,98 @@ export const renderToStringWith = <R>(
     return { html, dehydratedState };
   });
 
+/**
+ * Render a VElement tree to a stream of HTML chunks, requiring AtomRegistry
+ * and any other services the component tree needs.
+ *
+ * The shell (everything outside slow Suspense boundaries) is emitted as soon
+ * as it's rendered. Suspense boundaries that miss their threshold flush their
+ * fallback, tagged with a boundary id, and keep rendering in the background.
+ * As each one resolves, a `<template>` chunk plus a small inline swap script
+ * is streamed, replacing the fallback in place — in completion order, not
+ * document order. The last chunk is the
+ * `<script type="application/json" id="__fibrae-state__">` tag, so the
+ * dehydrated state includes atoms set by late boundaries.
+ *
+ * Client hydration needs no extra wiring: swapped-in boundaries carry the
+ * resolved marker and are hydrated like any other. A boundary whose segment
+ * hasn't arrived (or whose children failed on the server) is rendered fresh.
+ *
+ * Stream the chunks inside the root container, so the trailing template and
+ * script nodes stay out of the rest of the document.
+ *
+ * @example
+ * ```typescript
+ * import { renderToStreamWith, SSRAtomRegistryLayer } from "fibrae/server";
+ *
+ * const body = Stream.concat(
+ *   Stream.make(`<!DOCTYPE html><html><body><div id="root">`).pipe(Stream.encodeText),
+ *   renderToStreamWith(<App />),
+ * ).pipe(
+ *   Stream.concat(
+ *     Stream.make(`</div><script src="/client.js"></script></body></html>`).pipe(Stream.encodeText),
+ *   ),
+ * );
+ *
+ * HttpServerResponse.stream(body.pipe(Stream.provideLayer(SSRAtomRegistryLayer)), {
+ *   contentType: "text/html",
+ * });
+ * ```
+ */
+export const renderToStreamWith = <R>(
+  element: VElement,
+  options?: StreamRenderOptions,
+): Stream.Stream<Uint8Array, unknown, AtomRegistry.AtomRegistry | R> =>
+  Stream.unwrapScoped(
+    Effect.gen(function* () {
+      const registry = yield* AtomRegistry.AtomRegistry;
+      const chunks = yield* Mailbox.make<string, unknown>();
+      const fibers = yield* FiberSet.make<unknown, unknown>();
+      const shellFlushed = yield* Deferred.make<void>();
+      const nonce = Option.fromNullable(options?.nonce);
+
+      const streaming: StreamingContext = {
+        chunks,
+        fibers,
+        flushed: Deferred.await(shellFlushed),
+        nonce,
+        state: { nextId: 0, swapScriptSent: false },
+      };
+
+      yield* Effect.gen(function* () {
+        const shell = yield* renderVElementToString(element, Option.some(streaming));
+        yield* chunks.offer(shell);
+        yield* Deferred.succeed(shellFlushed, undefined);
+
+        // Pending boundaries may register nested ones while resolving,
+        // so wait until the set is drained rather than joining a snapshot
+        yield* FiberSet.awaitEmpty(fibers);
+
+        yield* chunks.offer(renderStateScript(Hydration.dehydrate(registry), nonce));
+      }).pipe(Mailbox.into(chunks), Effect.forkScoped);
+
+      return Mailbox.toStream(chunks).pipe(Stream.encodeText);
+    }),
+  );
+
+/**
+ * Render a VElement tree to a stream of HTML chunks with out-of-order
+ * Suspense resolution. Self-contained like renderToString: provides its own
+ * AtomRegistry. See renderToStreamWith for the chunk protocol.
+ *
+ * @example
+ * ```typescript
+ * import { renderToStream } from "fibrae/server";
+ *
+ * const body = renderToStream(<App />);
+ * // Write `<div id="root">`, pipe `body`, then close the container and load the client
+ * ```
+ */
+export const renderToStream = (
+  element: VElement,
+  options?: StreamRenderOptions,
+): Stream.Stream<Uint8Array, unknown, never> =>
+  renderToStreamWith<never>(element, options).pipe(Stream.provideLayer(SSRAtomRegistryLayer));
+
 // Re-export Hydration and Result for convenience
 export { Hydration, Result } from "@effect-atom/atom";
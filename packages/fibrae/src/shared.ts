@@ -24,6 +24,10 @@ export type { Cause, Types };
  * - `scope`: Register cleanup logic that runs when the component unmounts
  * - `mounted`: Deferred that resolves after the component's DOM subtree commits
  *
+ * The service is the same object on every render of a component instance
+ * (its `scope` and `mounted` are the current render's), so it can key state
+ * kept for the instance, e.g. in a WeakMap.
+ *
  * @example
  * ```tsx
  * const JsonEditor = () =>
@@ -105,7 +109,7 @@ export interface Ref<E extends Element = Element> {
 export const createRef = <E extends Element = Element>(): Ref<E> => ({ current: null });
 
 /**
- * Primitive element types: HTML tags, text nodes, fragments, suspense, or boundary
+ * Primitive element types: HTML tags, text nodes, fragments, suspense, boundary, or portal
  */
 export type Primitive =
   | keyof HTMLElementTagNameMap
@@ -113,7 +117,8 @@ export type Primitive =
   | "TEXT_ELEMENT"
   | "FRAGMENT"
   | "SUSPENSE"
-  | "BOUNDARY";
+  | "BOUNDARY"
+  | "PORTAL";
 
 /**
  * What can appear as children in JSX (recursive type)
@@ -219,6 +224,8 @@ export interface Fiber {
   componentScope: Option.Option<Scope.Scope.Closeable>;
   /** Deferred that resolves after this component's DOM subtree commits */
   mountedDeferred: Option.Option<Deferred.Deferred<void>>;
+  /** The ComponentScope service of this component instance, kept across renders */
+  componentScopeService: Option.Option<ComponentScope["Type"]>;
   accessedAtoms: Option.Option<Set<BaseAtom.Atom<unknown>>>;
   latestStreamValue: Option.Option<VElement>;
   childFirstCommitDeferred: Option.Option<Deferred.Deferred<void>>;